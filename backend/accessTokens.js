@@ -0,0 +1,132 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+// What a token may do: read lists and content, write (upload, edit, move, trash) and delete for good
+export const TOKEN_SCOPES = ['read', 'write', 'delete'];
+
+// Every personal access token starts with this, so the auth middleware can tell one from a browser
+// session token and secret scanners can spot leaked ones
+export const ACCESS_TOKEN_PREFIX = 'drv_pat_';
+
+export const isAccessToken = (token) => token.startsWith(ACCESS_TOKEN_PREFIX);
+
+// Tokens reach the file and folder routes and the resumable uploads that create files; paths are
+// relative to /api
+export const acceptsAccessTokens = (path) => /^\/(files|folders|uploads)(\/|$)/.test(path);
+
+// Scope a request needs: reading needs read, deleting a file or folder for good needs delete, and
+// any other change needs write. Paths may be route patterns (/files/:id) as well as real paths.
+export function requiredScope(method, path, body) {
+  if (method === 'GET' || method === 'HEAD') return 'read';
+  // Only prepares a ZIP download
+  if (method === 'POST' && path === '/files/archive') return 'read';
+  if (method === 'DELETE' && /^\/(files|folders)\/[^/]+$/.test(path)) return 'delete';
+  if (method === 'POST' && path === '/files/batch' && body?.action === 'delete') return 'delete';
+  return 'write';
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 365;
+
+// Validates a create-token request ({ name, scopes, expires_in_days }, where null or a missing
+// expires_in_days means the token never expires). Returns { request } or { error }.
+export function parseTokenRequest(body) {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) return { error: `name must be 1 to ${MAX_NAME_LENGTH} characters` };
+
+  const { scopes } = body;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => TOKEN_SCOPES.includes(scope))) {
+    return { error: `scopes must be a list of ${TOKEN_SCOPES.join(', ')}` };
+  }
+
+  let expiresAt = null;
+  const days = body.expires_in_days;
+  if (days !== undefined && days !== null) {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return { error: `expires_in_days must be a whole number from 1 to ${MAX_EXPIRY_DAYS}, or null` };
+    }
+    // Stored like CURRENT_TIMESTAMP, so SQLite can compare the two
+    expiresAt = new Date(Date.now() + days * 86400000).toISOString().replace('T', ' ').slice(0, 19);
+  }
+  return { request: { name, scopes: TOKEN_SCOPES.filter(scope => scopes.includes(scope)), expiresAt } };
+}
+
+// Tokens are 32 random bytes, so a plain SHA-256 is enough to keep them unusable if the table leaks
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+// Personal access tokens for scripts. Only the hash is stored; the token itself is shown once,
+// when it is created. Revoking a token deletes it.
+export function createAccessTokenStore(db) {
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      user_email TEXT,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_hint TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      expires_at DATETIME,
+      last_used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_access_tokens_user ON access_tokens (user_id)').run();
+
+  const insertToken = db.prepare(`
+    INSERT INTO access_tokens (user_id, user_email, name, token_hash, token_hint, scopes, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const selectUserTokens = db.prepare(`
+    SELECT id, name, token_hint, scopes, expires_at, last_used_at, created_at
+    FROM access_tokens WHERE user_id = ? ORDER BY created_at DESC, id DESC
+  `);
+
+  const getTokenById = db.prepare(`
+    SELECT id, name, token_hint, scopes, expires_at, last_used_at, created_at FROM access_tokens WHERE id = ?
+  `);
+
+  const getTokenByHash = db.prepare('SELECT * FROM access_tokens WHERE token_hash = ?');
+
+  const deleteUserToken = db.prepare('DELETE FROM access_tokens WHERE id = ? AND user_id = ?');
+
+  // Written at most once a minute per token, so busy scripts don't turn every request into a write
+  const touchToken = db.prepare(`
+    UPDATE access_tokens SET last_used_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+  `);
+
+  const formatToken = (row) => ({ ...row, scopes: row.scopes.split(',') });
+
+  return {
+    // Creates a token for the user; resolves to { token, accessToken } where token is the secret
+    // to hand to the user and accessToken the stored record
+    create({ user, name, scopes, expiresAt = null }) {
+      const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+      const result = insertToken.run(
+        user.uid, user.email || null, name, hashToken(token), token.slice(-4), scopes.join(','), expiresAt
+      );
+      return { token, accessToken: formatToken(getTokenById.get(result.lastInsertRowid)) };
+    },
+
+    list(userId) {
+      return selectUserTokens.all(userId).map(formatToken);
+    },
+
+    // Whether the user had a token with this id
+    revoke(userId, tokenId) {
+      return deleteUserToken.run(tokenId, userId).changes > 0;
+    },
+
+    // Verifier for the auth middleware: resolves to the token's user with its scopes, or throws
+    async verify(token) {
+      const row = getTokenByHash.get(hashToken(token));
+      if (!row) throw new Error('Unknown access token');
+      if (row.expires_at && Date.parse(`${row.expires_at.replace(' ', 'T')}Z`) <= Date.now()) {
+        throw new Error('Access token expired');
+      }
+      touchToken.run(row.id);
+      return { uid: row.user_id, email: row.user_email, scopes: row.scopes.split(','), tokenId: row.id };
+    },
+  };
+}
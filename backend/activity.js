@@ -0,0 +1,106 @@
+// Actions recorded in the activity log
+export const ACTIVITY_ACTIONS = [
+  'upload', 'download', 'create', 'rename', 'update', 'move', 'star', 'unstar', 'trash', 'restore', 'delete',
+  'share', 'unshare', 'new_version', 'restore_version', 'tag', 'untag', 'quarantine',
+];
+
+// Append-only audit log of file and folder operations. Rows outlive their targets (target_name
+// keeps what the item was called) and can't be changed or removed once written.
+export function createActivityLog(db) {
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS activity (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actor_id TEXT,
+      actor_email TEXT,
+      action TEXT NOT NULL,
+      target_type TEXT NOT NULL CHECK (target_type IN ('file', 'folder')),
+      target_id INTEGER NOT NULL,
+      target_name TEXT,
+      owner_id TEXT,
+      details TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_activity_owner ON activity (owner_id, id)').run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_activity_actor ON activity (actor_id, id)').run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_activity_target ON activity (target_type, target_id, id)').run();
+  db.prepare(`
+    CREATE TRIGGER IF NOT EXISTS activity_no_update BEFORE UPDATE ON activity BEGIN
+      SELECT RAISE(ABORT, 'activity log is append-only');
+    END
+  `).run();
+  db.prepare(`
+    CREATE TRIGGER IF NOT EXISTS activity_no_delete BEFORE DELETE ON activity BEGIN
+      SELECT RAISE(ABORT, 'activity log is append-only');
+    END
+  `).run();
+
+  const insertActivity = db.prepare(`
+    INSERT INTO activity (actor_id, actor_email, action, target_type, target_id, target_name, owner_id, details)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const formatActivity = (row) => ({ ...row, details: row.details ? JSON.parse(row.details) : null });
+
+  return {
+    // actor is the signed-in user, or null for the system and anonymous public-link downloads;
+    // target is the file or folder row (id, name, owner_id)
+    record({ actor, action, targetType, target, details = null }) {
+      insertActivity.run(
+        actor?.uid ?? null,
+        actor?.email ?? null,
+        action,
+        targetType,
+        target.id,
+        target.name ?? null,
+        target.owner_id ?? null,
+        details ? JSON.stringify(details) : null
+      );
+    },
+
+    // Newest first. viewerId limits the feed to activity in the viewer's drive or by the viewer;
+    // leave it out when access to the target has already been checked.
+    list({ viewerId, targetType, targetId, action, actorEmail, since, until, page = 1, limit = 50 }) {
+      const conditions = [];
+      const params = [];
+      if (viewerId) {
+        conditions.push('(owner_id = ? OR actor_id = ?)');
+        params.push(viewerId, viewerId);
+      }
+      if (targetType) {
+        conditions.push('target_type = ?');
+        params.push(targetType);
+      }
+      if (targetId !== undefined) {
+        conditions.push('target_id = ?');
+        params.push(targetId);
+      }
+      if (action) {
+        conditions.push('action = ?');
+        params.push(action);
+      }
+      if (actorEmail) {
+        conditions.push('actor_email = ? COLLATE NOCASE');
+        params.push(actorEmail);
+      }
+      if (since) {
+        conditions.push('created_at >= ?');
+        params.push(since);
+      }
+      if (until) {
+        conditions.push('created_at < ?');
+        params.push(until);
+      }
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+      const totalItems = db.prepare(`SELECT COUNT(*) AS count FROM activity ${where}`).get(...params).count;
+      const activities = db.prepare(`SELECT * FROM activity ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+        .all(...params, limit, (page - 1) * limit)
+        .map(formatActivity);
+      const totalPages = Math.ceil(totalItems / limit);
+      return {
+        activities,
+        pagination: { currentPage: page, totalItems, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 },
+      };
+    },
+  };
+}
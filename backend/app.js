@@ -1,23 +1,47 @@
 import express from 'express';
 import Database from 'better-sqlite3';
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import multer from 'multer';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
-import { readFileSync, unlinkSync, existsSync, mkdirSync } from 'node:fs';
+import { unlinkSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import 'dotenv/config';
+import { authenticate, createVerifierFromEnv, parseAllowedEmails } from './auth.js';
+import { acceptsAccessTokens, createAccessTokenStore, isAccessToken, parseTokenRequest, requiredScope } from './accessTokens.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { createWebhooks, parseWebhookRequest } from './webhooks.js';
+import { createStorageFromEnv } from './storage/index.js';
+import { createDedupStorage } from './storage/dedup.js';
+import { FAMILY_NAMES, contentTypeFamily, familySqlCondition } from './contentTypes.js';
+import { createQuotaPolicyFromEnv, formatByteSize } from './quotas.js';
+import { createJobQueue } from './jobs.js';
+import { ACTIVITY_ACTIONS, createActivityLog } from './activity.js';
+import { createEventHub } from './events.js';
+import { SNIFF_BYTES, checkContentType, readFileHead } from './contentSniffing.js';
+import { createScannerFromEnv } from './scanner.js';
+import { parseEncryption, parseVaultSettings } from './vault.js';
+import { parseRange } from './httpRange.js';
+import { streamZipArchive } from './archives.js';
+import { MAX_EXTRACT_BYTES, extractText, isTextBearing, readStreamPrefix } from './textExtraction.js';
+import {
+  MAX_THUMBNAIL_SOURCE_BYTES,
+  THUMBNAIL_CONTENT_TYPE,
+  canThumbnail,
+  renderThumbnail,
+  thumbnailKeyFor,
+} from './thumbnails.js';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Validate environment variables
-const requiredEnvVars = ['S3_BUCKET', 'AWS_REGION'];
+// Validate environment variables (S3 settings are only needed by the S3 storage driver)
+const storageDriver = process.env.STORAGE_DRIVER || 's3';
+const requiredEnvVars = storageDriver === 's3' ? ['S3_BUCKET', 'AWS_REGION'] : [];
 const missingVars = requiredEnvVars.filter(name => !process.env[name]);
 if (missingVars.length) {
   console.error(`Missing environment variables: ${missingVars.join(', ')}`);
@@ -47,7 +71,19 @@ app.use(
   })
 );
 
-// Rate limiting
+// Chunk uploads of a large file and thumbnail grids send hundreds of requests, so they get their own limiters
+const isUploadPartRequest = (req) => req.method === 'PUT' && /^\/api\/uploads\/[^/]+\/parts\/\d+$/.test(req.path);
+const isThumbnailRequest = (req) => req.method === 'GET' && /^\/api\/files\/\d+\/thumbnail$/.test(req.path);
+// Signed download URLs (local storage objects and ZIP archives) carry no bearer token, and a media
+// element fetches one in many ranges
+const isSignedDownloadRequest = (req) => req.method === 'GET' && /^\/api\/(storage\/local|archives\/[^/]+)$/.test(req.path);
+const hasOwnLimiter = (req) => isUploadPartRequest(req) || isThumbnailRequest(req) || isSignedDownloadRequest(req);
+// Requests with a bearer token get per-user budgets once it is verified (see userRateLimit)
+const hasBearerToken = (req) => /^Bearer\s/i.test(req.headers.authorization || '');
+
+// Rate limiting per address of requests that aren't signed in: those without a token and those
+// whose token is refused. A request with a token is counted until its response shows it got past
+// sign-in, so made-up tokens use up the same budget as no token.
 app.use(
   rateLimit({
     windowMs: 15 * 60 * 1000,
@@ -55,24 +91,56 @@ app.use(
     message: { error: 'Too many requests, please try later.' },
     standardHeaders: true,
     legacyHeaders: false,
+    skip: hasOwnLimiter,
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (req, res) => hasBearerToken(req) && res.statusCode !== 401,
+  })
+);
+
+// A ceiling per address on requests with a token, valid or not, ahead of the per-user budgets
+app.use(
+  rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5000,
+    message: { error: 'Too many requests, please try later.' },
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip: (req) => hasOwnLimiter(req) || !hasBearerToken(req),
   })
 );
 
-// Separate rate limiter for uploads (stricter)
+// Separate rate limiter for the routes that upload a whole file or start one (stricter)
 const uploadLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 100,
   message: { error: 'Too many upload requests, please try later.' },
 });
-app.use(uploadLimiter);
+
+const uploadPartLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5000,
+  message: { error: 'Too many upload requests, please try later.' },
+});
+
+const thumbnailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5000,
+  message: { error: 'Too many requests, please try later.' },
+});
+
+const signedDownloadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5000,
+  message: { error: 'Too many requests, please try later.' },
+});
 
 // CORS
 app.use(
   cors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Range'],
   })
 );
 
@@ -80,15 +148,6 @@ app.use(
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// AWS S3 Client v3 setup
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION,
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-  },
-});
-
 // Database setup
 const dbPath = join(__dirname, process.env.DATABASE_PATH || './data/files.db');
 const dbDir = dirname(dbPath);
@@ -101,6 +160,14 @@ db.pragma('synchronous = NORMAL');
 db.pragma('cache_size = 1000000');
 db.pragma('temp_store = memory');
 
+// Storage driver setup (S3 or local disk, see storage/index.js), deduplicated by content hash.
+// The s3_key columns hold the object key whichever driver is in use; identical uploads get their
+// own keys but share one stored object (see storage/dedup.js).
+const storage = createDedupStorage(createStorageFromEnv(process.env, { baseDir: __dirname }), db);
+
+// Malware scanner for new content (see scanner.js); null when SCANNER is unset
+const scanner = createScannerFromEnv();
+
 // Create files table with new starred + trashed columns
 const createTable = db.prepare(`
   CREATE TABLE IF NOT EXISTS files (
@@ -123,121 +190,2251 @@ try {
 try {
   db.prepare('ALTER TABLE files ADD COLUMN trashed INTEGER DEFAULT 0').run();
 } catch {}
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN parent_id INTEGER REFERENCES folders(id)').run();
+} catch {}
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN owner_id TEXT').run();
+} catch {}
+let thumbnailColumnAdded = false;
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN thumbnail_key TEXT').run();
+  thumbnailColumnAdded = true;
+} catch {}
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN trashed_at DATETIME').run();
+} catch {}
+// Free-text description and custom metadata (a JSON object of string values)
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN description TEXT').run();
+} catch {}
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN metadata TEXT').run();
+} catch {}
+
+// Create folders table (parent_id NULL means the folder sits at the drive root)
+const createFoldersTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS folders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    parent_id INTEGER REFERENCES folders(id),
+    owner_id TEXT,
+    trashed INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+createFoldersTable.run();
+try {
+  db.prepare('ALTER TABLE folders ADD COLUMN owner_id TEXT').run();
+} catch {}
+try {
+  db.prepare('ALTER TABLE folders ADD COLUMN trashed_at DATETIME').run();
+} catch {}
+// Id of the folder whose trash moved an item to trash (a trashed folder records its own id), so
+// restoring that folder brings back only what it took with it; NULL for files trashed on their own
+let trashedWithColumnAdded = false;
+try {
+  db.prepare('ALTER TABLE files ADD COLUMN trashed_with INTEGER').run();
+  trashedWithColumnAdded = true;
+} catch {}
+try {
+  db.prepare('ALTER TABLE folders ADD COLUMN trashed_with INTEGER').run();
+} catch {}
+// Items trashed before trashed_at existed start their retention period now
+db.prepare('UPDATE files SET trashed_at = CURRENT_TIMESTAMP WHERE trashed = 1 AND trashed_at IS NULL').run();
+db.prepare('UPDATE folders SET trashed_at = CURRENT_TIMESTAMP WHERE trashed = 1 AND trashed_at IS NULL').run();
+// Items already in trash when trashed_with was added. Trashing a folder used to keep the trashed_at
+// of whatever inside it was already there, so an item went with the outermost trashed folder above
+// it (or itself) that was trashed no later than the item. Files trashed before any folder above
+// them keep NULL and stay in trash when the folder is restored.
+if (trashedWithColumnAdded) {
+  const TRASHED_ANCESTORS = `
+    WITH RECURSIVE ancestry(folder_id, ancestor_id, depth) AS (
+      SELECT id, id, 0 FROM folders
+      UNION ALL
+      SELECT a.folder_id, f.parent_id, a.depth + 1 FROM ancestry a JOIN folders f ON f.id = a.ancestor_id
+      WHERE f.parent_id IS NOT NULL
+    )
+  `;
+  const outermostTrashedWith = (table, folderColumn) => `
+    SELECT a.ancestor_id FROM ancestry a JOIN folders t ON t.id = a.ancestor_id
+    WHERE a.folder_id = ${table}.${folderColumn} AND t.trashed = 1 AND t.trashed_at <= ${table}.trashed_at
+    ORDER BY a.depth DESC LIMIT 1
+  `;
+  db.prepare(`${TRASHED_ANCESTORS} UPDATE folders SET trashed_with = (${outermostTrashedWith('folders', 'id')}) WHERE trashed = 1`).run();
+  db.prepare(`${TRASHED_ANCESTORS} UPDATE files SET trashed_with = (${outermostTrashedWith('files', 'parent_id')}) WHERE trashed = 1`).run();
+}
+db.prepare('CREATE INDEX IF NOT EXISTS idx_files_parent ON files (parent_id)').run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders (parent_id)').run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_files_owner ON files (owner_id)').run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_folders_owner ON folders (owner_id)').run();
+
+// Per-user grants; grantees are matched by the email on their verified token
+const createFileSharesTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS file_shares (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_id INTEGER NOT NULL REFERENCES files(id),
+    grantee_email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')),
+    shared_by TEXT NOT NULL,
+    shared_by_email TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (file_id, grantee_email)
+  )
+`);
+createFileSharesTable.run();
+
+// Public links; password_hash is "salt:scrypt-hash", NULL limits mean unlimited
+const createShareLinksTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS share_links (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_id INTEGER NOT NULL REFERENCES files(id),
+    token TEXT NOT NULL UNIQUE,
+    created_by TEXT NOT NULL,
+    expires_at DATETIME,
+    password_hash TEXT,
+    max_downloads INTEGER,
+    download_count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+createShareLinksTable.run();
+
+// User-defined tags (name + "#rrggbb" colour), attached to any number of the user's files
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    owner_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (owner_id, name COLLATE NOCASE)
+  )
+`).run();
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS file_tags (
+    file_id INTEGER NOT NULL REFERENCES files(id),
+    tag_id INTEGER NOT NULL REFERENCES tags(id),
+    PRIMARY KEY (file_id, tag_id)
+  )
+`).run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_file_tags_tag ON file_tags (tag_id)').run();
+
+// When each user last opened (previewed), downloaded and modified each file, for the Recent section
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS file_access (
+    user_id TEXT NOT NULL,
+    file_id INTEGER NOT NULL REFERENCES files(id),
+    opened_at DATETIME,
+    downloaded_at DATETIME,
+    modified_at DATETIME,
+    last_action TEXT NOT NULL CHECK (last_action IN ('opened', 'downloaded', 'modified')),
+    last_activity_at DATETIME NOT NULL,
+    PRIMARY KEY (user_id, file_id)
+  )
+`).run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_file_access_recent ON file_access (user_id, last_activity_at)').run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_file_access_file ON file_access (file_id)').run();
+
+// Every stored revision of a file; the files row mirrors whichever revision is current
+const createFileVersionsTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS file_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_id INTEGER NOT NULL REFERENCES files(id),
+    version_number INTEGER NOT NULL,
+    s3_key TEXT NOT NULL UNIQUE,
+    size INTEGER NOT NULL,
+    content_type TEXT NOT NULL,
+    uploaded_by TEXT,
+    uploaded_by_email TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (file_id, version_number)
+  )
+`);
+createFileVersionsTable.run();
+
+// SHA-256 of each revision's content; files.sha256 mirrors the current revision's
+let hashColumnsAdded = false;
+try {
+  db.prepare('ALTER TABLE file_versions ADD COLUMN sha256 TEXT').run();
+  db.prepare('ALTER TABLE files ADD COLUMN sha256 TEXT').run();
+  hashColumnsAdded = true;
+} catch {}
+db.prepare('CREATE INDEX IF NOT EXISTS idx_file_versions_sha256 ON file_versions (sha256)').run();
+
+// Malware scan state of each revision: 'pending' until the scanner has seen it, then 'clean' or
+// 'quarantined' (with the signature it matched); files mirror the current revision's. Content
+// stored before scanning existed counts as clean.
+try {
+  db.prepare("ALTER TABLE file_versions ADD COLUMN scan_status TEXT NOT NULL DEFAULT 'clean'").run();
+  db.prepare('ALTER TABLE file_versions ADD COLUMN scan_signature TEXT').run();
+  db.prepare("ALTER TABLE files ADD COLUMN scan_status TEXT NOT NULL DEFAULT 'clean'").run();
+  db.prepare('ALTER TABLE files ADD COLUMN scan_signature TEXT').run();
+} catch {}
+
+// New revisions wait for the scanner when there is one
+const NEW_CONTENT_SCAN_STATUS = scanner ? 'pending' : 'clean';
+
+// Encryption parameters (JSON, see vault.js) of revisions encrypted in the browser; files mirror
+// the current revision's. The scanner can't read that content, so its scan_status is 'skipped'.
+try {
+  db.prepare('ALTER TABLE file_versions ADD COLUMN encryption TEXT').run();
+  db.prepare('ALTER TABLE files ADD COLUMN encryption TEXT').run();
+} catch {}
+
+// Each user's vault: the passphrase's key derivation settings and a check value to verify it with
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS vaults (
+    user_id TEXT PRIMARY KEY,
+    kdf_salt TEXT NOT NULL,
+    iterations INTEGER NOT NULL,
+    check_iv TEXT NOT NULL,
+    check_value TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`).run();
+
+// Files uploaded before versioning get their current object recorded as version 1
+db.prepare(`
+  INSERT INTO file_versions (file_id, version_number, s3_key, size, content_type, uploaded_by, created_at)
+  SELECT id, 1, s3_key, size, content_type, owner_id, created_at FROM files
+  WHERE id NOT IN (SELECT file_id FROM file_versions)
+`).run();
+
+// Resumable multipart uploads in progress; parts are recorded as S3 acknowledges them
+const createUploadSessionsTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS upload_sessions (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    owner_email TEXT,
+    name TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    content_type TEXT NOT NULL,
+    parent_id INTEGER REFERENCES folders(id),
+    s3_key TEXT NOT NULL,
+    s3_upload_id TEXT NOT NULL,
+    part_size INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+createUploadSessionsTable.run();
+try {
+  db.prepare('ALTER TABLE upload_sessions ADD COLUMN encryption TEXT').run();
+} catch {}
+
+const createUploadPartsTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS upload_parts (
+    session_id TEXT NOT NULL REFERENCES upload_sessions(id),
+    part_number INTEGER NOT NULL,
+    etag TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (session_id, part_number)
+  )
+`);
+createUploadPartsTable.run();
+
+// Known users, so quotas (configured by email) can be looked up from a file's owner_id
+const createUsersTable = db.prepare(`
+  CREATE TABLE IF NOT EXISTS users (
+    uid TEXT PRIMARY KEY,
+    email TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+createUsersTable.run();
+
+// Full-text index over file names; the trigram tokenizer gives substring matches like the old client-side search
+const filesFtsExists = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'files_fts'").get();
+db.prepare(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(name, content = 'files', content_rowid = 'id', tokenize = 'trigram')
+`).run();
+db.prepare(`
+  CREATE TRIGGER IF NOT EXISTS files_fts_insert AFTER INSERT ON files BEGIN
+    INSERT INTO files_fts (rowid, name) VALUES (new.id, new.name);
+  END
+`).run();
+db.prepare(`
+  CREATE TRIGGER IF NOT EXISTS files_fts_delete AFTER DELETE ON files BEGIN
+    INSERT INTO files_fts (files_fts, rowid, name) VALUES ('delete', old.id, old.name);
+  END
+`).run();
+db.prepare(`
+  CREATE TRIGGER IF NOT EXISTS files_fts_update AFTER UPDATE OF name ON files BEGIN
+    INSERT INTO files_fts (files_fts, rowid, name) VALUES ('delete', old.id, old.name);
+    INSERT INTO files_fts (rowid, name) VALUES (new.id, new.name);
+  END
+`).run();
+if (!filesFtsExists) db.prepare("INSERT INTO files_fts (files_fts) VALUES ('rebuild')").run();
+
+// Extracted document text, keyed by file id; filled in by the extract_text background job
+const fileContentsFtsExists = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'file_contents_fts'").get();
+db.prepare(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS file_contents_fts USING fts5(content, tokenize = 'porter unicode61')
+`).run();
+
+db.prepare('CREATE INDEX IF NOT EXISTS idx_file_shares_grantee ON file_shares (grantee_email)').run();
+db.prepare('CREATE INDEX IF NOT EXISTS idx_share_links_file ON share_links (file_id)').run();
 
 // Prepared statements
 const insertFile = db.prepare(`
-  INSERT INTO files (name, size, content_type, s3_key)
-  VALUES (?, ?, ?, ?)
+  INSERT INTO files (name, size, content_type, s3_key, parent_id, owner_id, sha256, scan_status, encryption)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+const deleteFile = db.prepare('DELETE FROM files WHERE id = ?');
+
+const deleteFileShares = db.prepare('DELETE FROM file_shares WHERE file_id = ?');
+
+const deleteFileLinks = db.prepare('DELETE FROM share_links WHERE file_id = ?');
+
+const deleteFileVersions = db.prepare('DELETE FROM file_versions WHERE file_id = ?');
+
+const deleteFileContents = db.prepare('DELETE FROM file_contents_fts WHERE rowid = ?');
+
+const deleteFileTags = db.prepare('DELETE FROM file_tags WHERE file_id = ?');
+
+const deleteFileAccess = db.prepare('DELETE FROM file_access WHERE file_id = ?');
+
+// Removes a file row together with everything that points at it
+const deleteFileRecords = db.transaction((fileId) => {
+  deleteFileShares.run(fileId);
+  deleteFileLinks.run(fileId);
+  deleteFileVersions.run(fileId);
+  deleteFileContents.run(fileId);
+  deleteFileTags.run(fileId);
+  deleteFileAccess.run(fileId);
+  deleteFile.run(fileId);
+});
+
+// Version statements
+const insertFileVersion = db.prepare(`
+  INSERT INTO file_versions (file_id, version_number, s3_key, size, content_type, uploaded_by, uploaded_by_email, sha256, scan_status, encryption)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `);
 
-const selectFiles = db.prepare(`
-  SELECT * FROM files ORDER BY created_at DESC LIMIT ? OFFSET ?
+const selectFileVersions = db.prepare('SELECT * FROM file_versions WHERE file_id = ? ORDER BY version_number DESC');
+
+const getFileVersion = db.prepare('SELECT * FROM file_versions WHERE id = ? AND file_id = ?');
+
+const getLatestVersionNumber = db.prepare('SELECT MAX(version_number) as latest FROM file_versions WHERE file_id = ?');
+
+const updateFileCurrentVersion = db.prepare(`
+  UPDATE files SET s3_key = ?, size = ?, content_type = ?, sha256 = ?, scan_status = ?, scan_signature = ?, encryption = ? WHERE id = ?
 `);
 
-const countFiles = db.prepare('SELECT COUNT(*) as count FROM files');
+// Hash of an object that was stored before it could be hashed (multipart uploads, older files)
+const setVersionHash = db.prepare('UPDATE file_versions SET sha256 = ? WHERE s3_key = ?');
 
-const deleteFile = db.prepare('DELETE FROM files WHERE id = ?');
+const setCurrentVersionHash = db.prepare('UPDATE files SET sha256 = ? WHERE s3_key = ?');
+
+const recordObjectHash = db.transaction((s3Key, sha256) => {
+  setVersionHash.run(sha256, s3Key);
+  setCurrentVersionHash.run(sha256, s3Key);
+});
+
+const selectUnhashedVersionKeys = db.prepare('SELECT s3_key FROM file_versions WHERE sha256 IS NULL');
 
-const getFileById = db.prepare('SELECT * FROM files WHERE id = ?');
+// Scan verdict for a revision, by storage key like the hash above
+const setVersionScanResult = db.prepare('UPDATE file_versions SET scan_status = ?, scan_signature = ? WHERE s3_key = ?');
+
+const setCurrentVersionScanResult = db.prepare('UPDATE files SET scan_status = ?, scan_signature = ? WHERE s3_key = ?');
+
+const recordScanResult = db.transaction((s3Key, status, signature) => {
+  setVersionScanResult.run(status, signature, s3Key);
+  setCurrentVersionScanResult.run(status, signature, s3Key);
+});
+
+const getVersionByKeyForScan = db.prepare('SELECT file_id, version_number, scan_status FROM file_versions WHERE s3_key = ?');
+
+const getVersionByKey = db.prepare('SELECT id FROM file_versions WHERE s3_key = ?');
+
+// Files owned by the user with any revision matching a content hash
+const selectFilesByHash = db.prepare(`
+  SELECT DISTINCT files.* FROM files JOIN file_versions ON file_versions.file_id = files.id
+  WHERE file_versions.sha256 = ? AND files.owner_id = ?
+  ORDER BY files.created_at DESC
+`);
+
+// Storage keys of every revision of a file (the current one included) and its thumbnail
+const selectFileVersionKeys = db.prepare(`
+  SELECT s3_key FROM file_versions WHERE file_id = ?
+  UNION SELECT s3_key FROM files WHERE id = ?
+  UNION SELECT thumbnail_key FROM files WHERE id = ? AND thumbnail_key IS NOT NULL
+`);
+
+const scanStatusFor = (encryption) => encryption ? 'skipped' : NEW_CONTENT_SCAN_STATUS;
+
+// sha256 is null when the content hasn't been hashed yet (the hash_object job fills it in);
+// encryption is the stored JSON of a vault upload
+const insertFileWithVersion = db.transaction((name, size, contentType, s3Key, parentId, user, sha256, encryption = null) => {
+  const scanStatus = scanStatusFor(encryption);
+  const result = insertFile.run(name, size, contentType, s3Key, parentId, user.uid, sha256, scanStatus, encryption);
+  insertFileVersion.run(result.lastInsertRowid, 1, s3Key, size, contentType, user.uid, user.email, sha256, scanStatus, encryption);
+  return result.lastInsertRowid;
+});
+
+const addFileVersion = db.transaction((fileId, s3Key, size, contentType, user, sha256, encryption = null) => {
+  const versionNumber = (getLatestVersionNumber.get(fileId).latest || 0) + 1;
+  const scanStatus = scanStatusFor(encryption);
+  const result = insertFileVersion.run(
+    fileId, versionNumber, s3Key, size, contentType, user.uid, user.email, sha256, scanStatus, encryption
+  );
+  updateFileCurrentVersion.run(s3Key, size, contentType, sha256, scanStatus, null, encryption, fileId);
+  return result.lastInsertRowid;
+});
+
+const getFileById = db.prepare('SELECT * FROM files WHERE id = ? AND owner_id = ?');
 
 const updateFileStarred = db.prepare('UPDATE files SET starred = ? WHERE id = ?');
 
-const updateFileTrashed = db.prepare('UPDATE files SET trashed = ? WHERE id = ?');
+// trashed_at keeps the time an item first went to trash and is cleared on restore
+const updateFileTrashed = db.prepare(`
+  UPDATE files SET trashed = ?, trashed_at = CASE WHEN ? THEN COALESCE(trashed_at, CURRENT_TIMESTAMP) END, trashed_with = NULL
+  WHERE id = ?
+`);
+
+const updateFileParent = db.prepare('UPDATE files SET parent_id = ? WHERE id = ?');
 
-// Multer config for file uploads
-const upload = multer({
-  dest: 'uploads/',
-  limits: { fileSize: 100 * 1024 * 1024, fieldSize: 25 * 1024 * 1024 },
-  fileFilter: (req, file, cb) => {
-    const allowedMimes = /^(image|video|audio|application|text)\//;
-    if (allowedMimes.test(file.mimetype)) cb(null, true);
-    else cb(new Error('Invalid file type'));
-  },
+const updateFileDetails = db.prepare('UPDATE files SET name = ?, description = ?, metadata = ? WHERE id = ?');
+
+const findSiblingFile = db.prepare(`
+  SELECT id FROM files
+  WHERE parent_id IS ? AND owner_id = ? AND name = ? COLLATE NOCASE AND trashed = 0 AND id != ?
+`);
+
+// A copy starts as version 1 of the source's current content and keeps its description, metadata,
+// scan verdict and encryption
+const insertFileCopy = db.transaction((source, name, s3Key, parentId, user, sha256) => {
+  const fileId = insertFileWithVersion(name, source.size, source.content_type, s3Key, parentId, user, sha256, source.encryption);
+  updateFileDetails.run(name, source.description, source.metadata, fileId);
+  recordScanResult(s3Key, source.scan_status, source.scan_signature);
+  return fileId;
 });
 
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    node_version: process.version,
-  });
+// Folder statements
+const insertFolder = db.prepare('INSERT INTO folders (name, parent_id, owner_id) VALUES (?, ?, ?)');
+
+const getFolderById = db.prepare('SELECT * FROM folders WHERE id = ? AND owner_id = ?');
+
+const selectAllFolders = db.prepare('SELECT * FROM folders WHERE owner_id = ? ORDER BY name COLLATE NOCASE');
+
+const selectChildFolders = db.prepare(`
+  SELECT * FROM folders WHERE parent_id IS ? AND owner_id = ? AND trashed = 0 ORDER BY name COLLATE NOCASE
+`);
+
+const findSiblingFolder = db.prepare(`
+  SELECT id FROM folders
+  WHERE parent_id IS ? AND owner_id = ? AND name = ? COLLATE NOCASE AND trashed = 0 AND id != ?
+`);
+
+const updateFolderName = db.prepare('UPDATE folders SET name = ? WHERE id = ?');
+
+const updateFolderParent = db.prepare('UPDATE folders SET parent_id = ? WHERE id = ?');
+
+// Rows created before ownership existed are handed to LEGACY_OWNER_EMAIL on first sign-in
+const claimUnownedFiles = db.prepare('UPDATE files SET owner_id = ? WHERE owner_id IS NULL');
+
+const claimUnownedFolders = db.prepare('UPDATE folders SET owner_id = ? WHERE owner_id IS NULL');
+
+// Walks up from a folder to the root; rows come back root-first for breadcrumbs
+const selectFolderPath = db.prepare(`
+  WITH RECURSIVE ancestors(id, name, parent_id, depth) AS (
+    SELECT id, name, parent_id, 0 FROM folders WHERE id = ?
+    UNION ALL
+    SELECT f.id, f.name, f.parent_id, a.depth + 1 FROM folders f JOIN ancestors a ON f.id = a.parent_id
+  )
+  SELECT id, name, parent_id FROM ancestors ORDER BY depth DESC
+`);
+
+// The folder itself plus every folder nested below it
+const SUBTREE_CTE = `
+  WITH RECURSIVE subtree(id) AS (
+    SELECT ?
+    UNION ALL
+    SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+  )
+`;
+
+const selectSubtreeFolderIds = db.prepare(`${SUBTREE_CTE} SELECT id FROM subtree`);
+
+// Trashing a folder leaves alone whatever inside it is already in trash
+const trashSubtreeFolders = db.prepare(`
+  ${SUBTREE_CTE} UPDATE folders SET trashed = 1, trashed_at = CURRENT_TIMESTAMP, trashed_with = ?
+  WHERE id IN subtree AND trashed = 0
+`);
+
+const trashSubtreeFiles = db.prepare(`
+  ${SUBTREE_CTE} UPDATE files SET trashed = 1, trashed_at = CURRENT_TIMESTAMP, trashed_with = ?
+  WHERE parent_id IN subtree AND trashed = 0 RETURNING *
+`);
+
+// Restores the items one folder trash moved; the second parameter is that folder's id
+const restoreSubtreeFolders = db.prepare(`
+  ${SUBTREE_CTE} UPDATE folders SET trashed = 0, trashed_at = NULL, trashed_with = NULL
+  WHERE id IN subtree AND trashed = 1 AND trashed_with IS ?
+`);
+
+const restoreSubtreeFiles = db.prepare(`
+  ${SUBTREE_CTE} UPDATE files SET trashed = 0, trashed_at = NULL, trashed_with = NULL
+  WHERE parent_id IN subtree AND trashed = 1 AND trashed_with IS ? RETURNING *
+`);
+
+const selectSubtreeFiles = db.prepare(`${SUBTREE_CTE} SELECT * FROM files WHERE parent_id IN subtree`);
+
+const deleteSubtreeFiles = db.prepare(`${SUBTREE_CTE} DELETE FROM files WHERE parent_id IN subtree`);
+
+const deleteSubtreeShares = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM file_shares WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const selectSubtreeVersionKeys = db.prepare(`
+  ${SUBTREE_CTE} SELECT s3_key FROM file_versions WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+  UNION SELECT s3_key FROM files WHERE parent_id IN subtree
+  UNION SELECT thumbnail_key FROM files WHERE parent_id IN subtree AND thumbnail_key IS NOT NULL
+`);
+
+const deleteSubtreeVersions = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM file_versions WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const deleteSubtreeLinks = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM share_links WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const deleteSubtreeContents = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM file_contents_fts WHERE rowid IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const deleteSubtreeTags = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM file_tags WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const deleteSubtreeAccess = db.prepare(`
+  ${SUBTREE_CTE} DELETE FROM file_access WHERE file_id IN (SELECT id FROM files WHERE parent_id IN subtree)
+`);
+
+const deleteSubtreeFolders = db.prepare(`${SUBTREE_CTE} DELETE FROM folders WHERE id IN subtree`);
+
+// Both return the files they moved
+const trashFolderTree = db.transaction((folderId) => {
+  trashSubtreeFolders.run(folderId, folderId);
+  return trashSubtreeFiles.all(folderId, folderId);
 });
 
-// List files (paginated)
-app.get('/api/files', (req, res) => {
-  try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
-    const offset = (page - 1) * limit;
+// A folder restored on its own brings back what went to trash with it: its own trash's items,
+// or those of the ancestor whose trash took it
+const restoreFolderTree = db.transaction((folder) => {
+  const trashedWith = folder.trashed ? folder.trashed_with : folder.id;
+  restoreSubtreeFolders.run(folder.id, trashedWith);
+  return restoreSubtreeFiles.all(folder.id, trashedWith);
+});
 
-    const files = selectFiles.all(limit, offset);
-    const totalCount = countFiles.get().count;
-    const totalPages = Math.ceil(totalCount / limit);
+const deleteFolderTree = db.transaction((folderId) => {
+  deleteSubtreeShares.run(folderId);
+  deleteSubtreeLinks.run(folderId);
+  deleteSubtreeVersions.run(folderId);
+  deleteSubtreeContents.run(folderId);
+  deleteSubtreeTags.run(folderId);
+  deleteSubtreeAccess.run(folderId);
+  deleteSubtreeFiles.run(folderId);
+  deleteSubtreeFolders.run(folderId);
+});
 
-    res.json({ files, pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 } });
-  } catch (e) {
-    console.error('Error fetching files:', e);
-    res.status(500).json({ error: 'Failed to fetch files' });
-  }
+// Tag statements
+const selectTags = db.prepare(`
+  SELECT tags.*, COUNT(files.id) AS file_count FROM tags
+  LEFT JOIN file_tags ON file_tags.tag_id = tags.id
+  LEFT JOIN files ON files.id = file_tags.file_id AND files.trashed = 0
+  WHERE tags.owner_id = ? GROUP BY tags.id ORDER BY tags.name COLLATE NOCASE
+`);
+
+const getTagById = db.prepare('SELECT * FROM tags WHERE id = ? AND owner_id = ?');
+
+const findTagByName = db.prepare('SELECT id FROM tags WHERE owner_id = ? AND name = ? COLLATE NOCASE AND id != ?');
+
+const insertTag = db.prepare('INSERT INTO tags (owner_id, name, color) VALUES (?, ?, ?)');
+
+const updateTag = db.prepare('UPDATE tags SET name = ?, color = ? WHERE id = ?');
+
+const deleteTagLinks = db.prepare('DELETE FROM file_tags WHERE tag_id = ?');
+
+const deleteTagRow = db.prepare('DELETE FROM tags WHERE id = ?');
+
+const deleteTag = db.transaction((tagId) => {
+  deleteTagLinks.run(tagId);
+  deleteTagRow.run(tagId);
 });
 
-// Upload endpoint
-app.post('/api/files', uploadLimiter, upload.single('file'), async (req, res) => {
-  if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+const attachFileTag = db.prepare('INSERT OR IGNORE INTO file_tags (file_id, tag_id) VALUES (?, ?)');
 
-  const { originalname, mimetype, size, path: tempPath } = req.file;
-  const s3Key = `files/${Date.now()}-${originalname}`;
+const detachFileTag = db.prepare('DELETE FROM file_tags WHERE file_id = ? AND tag_id = ?');
+
+// Access tracking statements, one per kind of access (opened, downloaded, modified)
+const fileAccessUpserts = Object.fromEntries(['opened', 'downloaded', 'modified'].map(kind => [kind, db.prepare(`
+  INSERT INTO file_access (user_id, file_id, ${kind}_at, last_action, last_activity_at)
+  VALUES (?, ?, CURRENT_TIMESTAMP, '${kind}', CURRENT_TIMESTAMP)
+  ON CONFLICT (user_id, file_id) DO UPDATE SET
+    ${kind}_at = CURRENT_TIMESTAMP, last_action = '${kind}', last_activity_at = CURRENT_TIMESTAMP
+`)]));
+
+// Trash statements
+const selectTrashedFiles = db.prepare('SELECT * FROM files WHERE owner_id = ? AND trashed = 1');
+
+const selectTrashedFolders = db.prepare('SELECT * FROM folders WHERE owner_id = ? AND trashed = 1');
+
+const selectExpiredTrashedFiles = db.prepare("SELECT * FROM files WHERE trashed = 1 AND trashed_at <= datetime('now', ?)");
+
+const selectExpiredTrashedFolders = db.prepare("SELECT * FROM folders WHERE trashed = 1 AND trashed_at <= datetime('now', ?)");
+
+const getFolderRecord = db.prepare('SELECT * FROM folders WHERE id = ?');
+
+// Vault statements
+const getVault = db.prepare('SELECT kdf_salt, iterations, check_iv, check_value AS "check", created_at FROM vaults WHERE user_id = ?');
+
+const insertVault = db.prepare(`
+  INSERT INTO vaults (user_id, kdf_salt, iterations, check_iv, check_value) VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT (user_id) DO NOTHING
+`);
+
+// Upload session statements
+const insertUploadSession = db.prepare(`
+  INSERT INTO upload_sessions (id, owner_id, owner_email, name, size, content_type, parent_id, s3_key, s3_upload_id, part_size, encryption)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+const getUploadSession = db.prepare('SELECT * FROM upload_sessions WHERE id = ? AND owner_id = ?');
+
+const touchUploadSession = db.prepare('UPDATE upload_sessions SET updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+
+const updateUploadSessionType = db.prepare('UPDATE upload_sessions SET content_type = ? WHERE id = ?');
+
+const selectUploadParts = db.prepare('SELECT part_number, etag, size FROM upload_parts WHERE session_id = ? ORDER BY part_number');
+
+const upsertUploadPart = db.prepare(`
+  INSERT INTO upload_parts (session_id, part_number, etag, size) VALUES (?, ?, ?, ?)
+  ON CONFLICT (session_id, part_number) DO UPDATE SET etag = excluded.etag, size = excluded.size
+`);
+
+const selectStaleUploadSessions = db.prepare(`
+  SELECT * FROM upload_sessions WHERE updated_at < datetime('now', ?)
+`);
+
+const deleteUploadParts = db.prepare('DELETE FROM upload_parts WHERE session_id = ?');
+
+const deleteUploadSessionRow = db.prepare('DELETE FROM upload_sessions WHERE id = ?');
+
+const deleteUploadSession = db.transaction((sessionId) => {
+  deleteUploadParts.run(sessionId);
+  deleteUploadSessionRow.run(sessionId);
+});
+
+// Sharing statements
+const selectSharedWithUser = db.prepare(`
+  SELECT files.*, file_shares.role AS share_role, file_shares.shared_by_email
+  FROM files JOIN file_shares ON file_shares.file_id = files.id
+  WHERE file_shares.grantee_email = ? AND files.trashed = 0
+  ORDER BY file_shares.created_at DESC LIMIT ? OFFSET ?
+`);
+
+const countSharedWithUser = db.prepare(`
+  SELECT COUNT(*) as count FROM files JOIN file_shares ON file_shares.file_id = files.id
+  WHERE file_shares.grantee_email = ? AND files.trashed = 0
+`);
+
+const getSharedFile = db.prepare(`
+  SELECT files.*, file_shares.role AS share_role FROM files
+  JOIN file_shares ON file_shares.file_id = files.id
+  WHERE files.id = ? AND file_shares.grantee_email = ? AND files.trashed = 0
+`);
+
+const selectFileShares = db.prepare('SELECT * FROM file_shares WHERE file_id = ? ORDER BY created_at');
+
+const upsertFileShare = db.prepare(`
+  INSERT INTO file_shares (file_id, grantee_email, role, shared_by, shared_by_email) VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT (file_id, grantee_email) DO UPDATE SET role = excluded.role
+`);
+
+const getFileShare = db.prepare('SELECT * FROM file_shares WHERE file_id = ? AND grantee_email = ?');
+
+const getFileShareById = db.prepare('SELECT * FROM file_shares WHERE id = ? AND file_id = ?');
+
+const deleteFileShare = db.prepare('DELETE FROM file_shares WHERE id = ? AND file_id = ?');
+
+const selectFileLinks = db.prepare('SELECT * FROM share_links WHERE file_id = ? ORDER BY created_at');
+
+const insertShareLink = db.prepare(`
+  INSERT INTO share_links (file_id, token, created_by, expires_at, password_hash, max_downloads)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+const getShareLinkById = db.prepare('SELECT * FROM share_links WHERE id = ?');
+
+const getShareLinkByToken = db.prepare(`
+  SELECT share_links.*, files.name, files.size, files.content_type, files.s3_key, files.trashed, files.owner_id, files.scan_status
+  FROM share_links JOIN files ON files.id = share_links.file_id WHERE share_links.token = ?
+`);
+
+const deleteShareLink = db.prepare('DELETE FROM share_links WHERE id = ? AND file_id = ?');
+
+// Counts a download only while the link is under its limit; changes === 0 means it is used up
+const consumeShareLinkDownload = db.prepare(`
+  UPDATE share_links SET download_count = download_count + 1
+  WHERE id = ? AND (max_downloads IS NULL OR download_count < max_downloads)
+`);
+
+// Background processing statements (content index, thumbnails)
+const getFileRecord = db.prepare('SELECT * FROM files WHERE id = ?');
+
+const selectAllFileTypes = db.prepare('SELECT id, content_type FROM files');
+
+const insertFileContents = db.prepare('INSERT INTO file_contents_fts (rowid, content) VALUES (?, ?)');
+
+// Only records the thumbnail if the file still points at the revision it was rendered from
+const setFileThumbnail = db.prepare('UPDATE files SET thumbnail_key = ? WHERE id = ? AND s3_key = ?');
+
+const clearFileThumbnail = db.prepare('UPDATE files SET thumbnail_key = NULL WHERE id = ?');
+
+// Skips files deleted while their text was being extracted
+const replaceFileContents = db.transaction((fileId, text) => {
+  deleteFileContents.run(fileId);
+  if (getFileRecord.get(fileId)) insertFileContents.run(fileId, text);
+});
+
+// User and quota statements
+const upsertUser = db.prepare(`
+  INSERT INTO users (uid, email) VALUES (?, ?)
+  ON CONFLICT (uid) DO UPDATE SET email = excluded.email WHERE users.email IS NOT excluded.email
+`);
+
+const getUser = db.prepare('SELECT * FROM users WHERE uid = ?');
+
+// Every stored revision counts, current or not
+const selectStoredBytes = db.prepare(`
+  SELECT COALESCE(SUM(file_versions.size), 0) AS bytes
+  FROM file_versions JOIN files ON files.id = file_versions.file_id
+  WHERE files.owner_id = ?
+`);
+
+// Resumable uploads reserve their full size when they start
+const selectReservedUploadBytes = db.prepare('SELECT COALESCE(SUM(size), 0) AS bytes FROM upload_sessions WHERE owner_id = ?');
+
+const selectUsageByContentType = db.prepare(`
+  SELECT files.content_type, files.trashed,
+    SUM(CASE WHEN file_versions.s3_key = files.s3_key THEN file_versions.size ELSE 0 END) AS current_bytes,
+    SUM(CASE WHEN file_versions.s3_key = files.s3_key THEN 0 ELSE file_versions.size END) AS version_bytes,
+    COUNT(DISTINCT files.id) AS file_count
+  FROM files JOIN file_versions ON file_versions.file_id = files.id
+  WHERE files.owner_id = ?
+  GROUP BY files.content_type, files.trashed
+`);
+
+const SHARE_ROLES = { viewer: 1, editor: 2, owner: 3 };
+
+// Returns the file with access_role set when the user holds at least minRole on it
+const findAccessibleFile = (fileId, user, minRole = 'viewer') => {
+  const owned = getFileById.get(fileId, user.uid);
+  if (owned) return { ...owned, access_role: 'owner' };
+  if (!user.email) return undefined;
+  const shared = getSharedFile.get(fileId, user.email.toLowerCase());
+  if (!shared || SHARE_ROLES[shared.share_role] < SHARE_ROLES[minRole]) return undefined;
+  return { ...shared, access_role: shared.share_role };
+};
+
+const hashSharePassword = (password) => {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+};
+
+const checkSharePassword = (password, stored) => {
+  const [salt, hash] = stored.split(':');
+  const candidate = scryptSync(String(password), salt, 64);
+  return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+};
+
+// Public-facing view of a link: never expose the password hash
+const formatShareLink = (link) => ({
+  id: link.id,
+  file_id: link.file_id,
+  token: link.token,
+  url: `/api/public/shares/${link.token}/download`,
+  expires_at: link.expires_at,
+  has_password: !!link.password_hash,
+  max_downloads: link.max_downloads,
+  download_count: link.download_count,
+  created_at: link.created_at,
+});
+
+// Returns an error message when a public link can no longer be used
+const checkShareLink = (link) => {
+  if (!link || link.trashed) return 'Share link not found';
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) return 'Share link has expired';
+  if (link.max_downloads !== null && link.download_count >= link.max_downloads) return 'Share link download limit reached';
+  return null;
+};
+
+// Multipart upload sizing: S3 needs parts of at least 5 MB and allows at most 10,000 of them
+const MIN_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES) || 50 * 1024 * 1024 * 1024;
+const UPLOAD_SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS) || 24;
+
+const uploadPartCount = (session) => Math.max(1, Math.ceil(session.size / session.part_size));
+
+// Every part but the last must be exactly part_size bytes
+const expectedPartSize = (session, partNumber) => {
+  const totalParts = uploadPartCount(session);
+  return partNumber === totalParts ? session.size - (totalParts - 1) * session.part_size : session.part_size;
+};
+
+const formatUploadSession = (session) => {
+  const parts = selectUploadParts.all(session.id);
+  return {
+    upload_id: session.id,
+    name: session.name,
+    size: session.size,
+    content_type: session.content_type,
+    parent_id: session.parent_id,
+    part_size: session.part_size,
+    total_parts: uploadPartCount(session),
+    uploaded_parts: parts.map(part => part.part_number),
+    uploaded_bytes: parts.reduce((sum, part) => sum + part.size, 0),
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+  };
+};
+
+// Aborts multipart uploads nobody has touched for UPLOAD_SESSION_TTL_HOURS
+const abortStaleUploads = async () => {
+  const stale = selectStaleUploadSessions.all(`-${UPLOAD_SESSION_TTL_HOURS} hours`);
+  for (const session of stale) {
+    try {
+      await storage.abortMultipartUpload(session.s3_key, session.s3_upload_id);
+      deleteUploadSession(session.id);
+      console.log(`Aborted stale upload ${session.id} (${session.name})`);
+    } catch (e) {
+      console.error(`Failed to abort stale upload ${session.id}:`, e);
+    }
+  }
+};
+
+// Store a multer temp file under a fresh key, as the content type its bytes were checked against
+const putUploadedObject = (uploadedFile, s3Key, contentType) => storage.putFile(s3Key, uploadedFile.path, {
+  contentType,
+  metadata: { originalName: uploadedFile.originalname, uploadedAt: new Date().toISOString() },
+});
+
+const deleteObjects = (s3Keys) => Promise.all(s3Keys.map(s3Key => storage.delete(s3Key)));
+
+// Permanently deletes a file: every revision and its thumbnail in storage, then the rows
+const purgeFile = async (fileId) => {
+  await deleteObjects(selectFileVersionKeys.all(fileId, fileId, fileId).map(row => row.s3_key));
+  const file = getFileRecord.get(fileId);
+  const audience = fileAudience(file);
+  deleteFileRecords(fileId);
+  publishFileDeleted(fileId, audience);
+  notifyWebhooks('file.deleted', file);
+};
+
+// Permanently deletes a folder tree; resolves with the number of files removed
+const purgeFolderTree = async (folderId) => {
+  const files = selectSubtreeFiles.all(folderId);
+  await deleteObjects(selectSubtreeVersionKeys.all(folderId).map(row => row.s3_key));
+  const audiences = files.map(fileAudience);
+  deleteFolderTree(folderId);
+  files.forEach((file, i) => {
+    publishFileDeleted(file.id, audiences[i]);
+    notifyWebhooks('file.deleted', file);
+  });
+  return files.length;
+};
+
+// Days an item stays in trash before purgeExpiredTrash deletes it for good; 0 keeps trash forever
+const trashRetentionSetting = parseInt(process.env.TRASH_RETENTION_DAYS);
+const TRASH_RETENTION_DAYS = Number.isNaN(trashRetentionSetting) ? 30 : Math.max(0, trashRetentionSetting);
+
+const purgeExpiredTrash = async () => {
+  if (!TRASH_RETENTION_DAYS) return;
+  const cutoff = `-${TRASH_RETENTION_DAYS} days`;
+  let purged = 0;
+  for (const file of selectExpiredTrashedFiles.all(cutoff)) {
+    try {
+      await purgeFile(file.id);
+      logActivity(null, 'delete', 'file', file, { reason: 'retention' });
+      purged++;
+    } catch (e) {
+      console.error(`Failed to purge trashed file ${file.id}:`, e);
+    }
+  }
+  for (const folder of selectExpiredTrashedFolders.all(cutoff)) {
+    // Already gone if an expired parent folder was purged first
+    if (!getFolderRecord.get(folder.id)) continue;
+    try {
+      const deletedFiles = await purgeFolderTree(folder.id);
+      logActivity(null, 'delete', 'folder', folder, { reason: 'retention', deletedFiles });
+      purged += deletedFiles;
+    } catch (e) {
+      console.error(`Failed to purge trashed folder ${folder.id}:`, e);
+    }
+  }
+  if (purged) console.log(`Purged ${purged} file(s) trashed more than ${TRASH_RETENTION_DAYS} days ago`);
+};
+
+// Batch operations
+const BATCH_ACTIONS = ['star', 'unstar', 'trash', 'restore', 'delete', 'tag', 'untag'];
+// The file event each action publishes; deletes publish their own once the rows are gone
+const BATCH_EVENTS = {
+  star: 'file.starred',
+  unstar: 'file.starred',
+  trash: 'file.trashed',
+  restore: 'file.restored',
+  tag: 'file.updated',
+  untag: 'file.updated',
+};
+const MAX_BATCH_SIZE = 500;
+
+// Distinct positive integer ids from a request body, or null when the list is missing, empty or too long
+const parseBatchIds = (ids) => {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BATCH_SIZE) return null;
+  const parsed = ids.map(id => parseInt(id));
+  if (parsed.some(id => !(id > 0))) return null;
+  return [...new Set(parsed)];
+};
+
+// Applies a metadata-only action to each of the owner's files in one transaction
+// tagId is the tag added or removed by 'tag' and 'untag'
+const applyFileBatch = db.transaction((action, fileIds, ownerId, tagId) => fileIds.map((fileId) => {
+  const file = getFileById.get(fileId, ownerId);
+  if (!file) return { id: fileId, ok: false, error: 'File not found' };
+  if (action === 'star' || action === 'unstar') {
+    updateFileStarred.run(action === 'star' ? 1 : 0, fileId);
+  } else if (action === 'trash') {
+    updateFileTrashed.run(1, 1, fileId);
+  } else if (action === 'restore') {
+    updateFileTrashed.run(0, 0, fileId);
+    updateFileParent.run(restoreParentId(file.parent_id, ownerId), fileId);
+  } else if (action === 'tag') {
+    attachFileTag.run(fileId, tagId);
+  } else if (action === 'untag') {
+    detachFileTag.run(fileId, tagId);
+  }
+  return { id: fileId, ok: true, file };
+}));
+
+const deleteFileRecordsBatch = db.transaction((fileIds) => fileIds.forEach(fileId => deleteFileRecords(fileId)));
+
+// Storage objects go first (each file on its own); the rows of every file whose objects are gone
+// are then removed in one transaction
+const deleteFileBatch = async (fileIds, ownerId) => {
+  const results = await Promise.all(fileIds.map(async (fileId) => {
+    const file = getFileById.get(fileId, ownerId);
+    if (!file) return { id: fileId, ok: false, error: 'File not found' };
+    try {
+      await deleteObjects(selectFileVersionKeys.all(fileId, fileId, fileId).map(row => row.s3_key));
+      return { id: fileId, ok: true, file };
+    } catch (e) {
+      console.error(`Batch delete storage error for file ${fileId}:`, e);
+      return { id: fileId, ok: false, error: 'Failed to delete file from storage' };
+    }
+  }));
+  const deleted = results.filter(result => result.ok);
+  const audiences = deleted.map(result => fileAudience(result.file));
+  deleteFileRecordsBatch(deleted.map(result => result.id));
+  deleted.forEach((result, i) => {
+    publishFileDeleted(result.id, audiences[i]);
+    notifyWebhooks('file.deleted', result.file);
+  });
+  return results;
+};
+
+// ZIP downloads are started with an authenticated POST and fetched through a short-lived,
+// unguessable link, so the browser can stream the archive straight to disk
+const ARCHIVE_LINK_TTL_MS = 10 * 60 * 1000;
+const pendingArchives = new Map();
+
+const createArchiveLink = (fileIds, user) => {
+  const now = Date.now();
+  for (const [token, pending] of pendingArchives) {
+    if (pending.expiresAt < now) pendingArchives.delete(token);
+  }
+  const token = randomBytes(24).toString('base64url');
+  pendingArchives.set(token, { fileIds, user, expiresAt: now + ARCHIVE_LINK_TTL_MS });
+  return { downloadUrl: `/api/archives/${token}`, expiresAt: new Date(now + ARCHIVE_LINK_TTL_MS).toISOString() };
+};
+
+// A download through a public link gets a URL that serves the file once, within a minute, so a
+// counted download can't be fetched again and again
+const SHARE_DOWNLOAD_TTL_MS = 60 * 1000;
+const pendingShareDownloads = new Map();
+
+const createShareDownloadUrl = (link) => {
+  const now = Date.now();
+  for (const [token, pending] of pendingShareDownloads) {
+    if (pending.expiresAt < now) pendingShareDownloads.delete(token);
+  }
+  const token = randomBytes(24).toString('base64url');
+  pendingShareDownloads.set(token, { linkToken: link.token, expiresAt: now + SHARE_DOWNLOAD_TTL_MS });
+  return `/api/public/share-downloads/${token}`;
+};
+
+// One-hour download URL for a file (or file version) row: presigned for S3, signed backend route for local
+const createDownloadUrl = (file, fileName = file.name) =>
+  storage.getDownloadUrl(file.s3_key, { fileName, contentType: file.content_type, expiresIn: 3600 });
+
+// Pipes a stored object into the response. When the object's size is known, a single-range
+// Range header is honoured with a 206 so media players can seek.
+const sendObject = async (req, res, s3Key, headers, { size } = {}) => {
+  const range = parseRange(req.headers.range, size);
+  if (range?.unsatisfiable) {
+    res.set('Content-Range', `bytes */${size}`);
+    return res.status(416).json({ error: 'Requested range not satisfiable' });
+  }
+  const { stream, contentLength } = await storage.getStream(s3Key, range || {});
+  res.set(headers);
+  if (size !== undefined) res.set('Accept-Ranges', 'bytes');
+  if (range) res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+  if (contentLength !== undefined) res.set('Content-Length', contentLength);
+  stream.on('error', (e) => {
+    console.error('Object stream error:', e);
+    res.destroy(e);
+  });
+  stream.pipe(res);
+};
+
+// Types a browser may render inline from the API origin; other text (HTML, SVG, scripts) is sent as plain text
+const INLINE_PREVIEW_TYPES = /^(image\/(jpeg|png|gif|webp|avif)|video\/[\w.+-]+|audio\/[\w.+-]+|application\/pdf|text\/plain)$/i;
+
+const previewContentType = (contentType = '') => {
+  const baseType = contentType.split(';')[0].trim().toLowerCase();
+  if (INLINE_PREVIEW_TYPES.test(baseType)) return baseType === 'text/plain' ? 'text/plain; charset=utf-8' : baseType;
+  return isTextBearing(baseType) ? 'text/plain; charset=utf-8' : 'application/octet-stream';
+};
+
+// Storage quotas (see quotas.js for DEFAULT_QUOTA / USER_QUOTAS)
+const quotaPolicy = createQuotaPolicyFromEnv(process.env);
+
+// Multipart form framing on top of the file itself; the Content-Length pre-check allows for it
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+const storageUsage = (ownerId) => {
+  const quota = quotaPolicy.quotaFor(getUser.get(ownerId)?.email);
+  const used = selectStoredBytes.get(ownerId).bytes + selectReservedUploadBytes.get(ownerId).bytes;
+  return { quota, used };
+};
+
+// Returns a 413 response body when storing `bytes` more would take the owner over quota
+const checkQuota = (ownerId, bytes) => {
+  const { quota, used } = storageUsage(ownerId);
+  if (quota === null || used + bytes <= quota) return null;
+  return {
+    error: `Storage quota exceeded (${formatByteSize(used)} of ${formatByteSize(quota)} used)`,
+    code: 'QUOTA_EXCEEDED',
+    quota,
+    used,
+  };
+};
+
+// Rejects an upload from its Content-Length before multer spools it, when it can't possibly fit
+const quotaPrecheck = (getOwnerId) => (req, res, next) => {
+  try {
+    const ownerId = getOwnerId(req);
+    const length = parseInt(req.get('Content-Length'));
+    if (ownerId && length > MULTIPART_OVERHEAD_BYTES) {
+      const quotaError = checkQuota(ownerId, length - MULTIPART_OVERHEAD_BYTES);
+      if (quotaError) return res.status(413).json(quotaError);
+    }
+    next();
+  } catch (e) {
+    next(e);
+  }
+};
+
+// Audit log of who did what to which file or folder
+const activityLog = createActivityLog(db);
+
+// Personal access tokens that scripts use in place of a browser session
+const accessTokens = createAccessTokenStore(db);
+
+// Outgoing webhooks for file events, with their delivery queue and log
+// WEBHOOK_ALLOW_PRIVATE_HOSTS=true lets webhooks reach localhost and private networks, for development
+const WEBHOOK_ALLOW_PRIVATE_HOSTS = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true';
+const webhooks = createWebhooks(db, { allowPrivateHosts: WEBHOOK_ALLOW_PRIVATE_HOSTS });
+
+// Records an operation; a logging failure is reported but doesn't fail the operation itself
+const logActivity = (actor, action, targetType, target, details) => {
+  try {
+    activityLog.record({ actor, action, targetType, target, details });
+  } catch (e) {
+    console.error('Activity log error:', e);
+  }
+};
+
+// Notes that a user opened, downloaded or modified a file; like logActivity, never fails the request
+const trackFileAccess = (userId, fileId, kind) => {
+  try {
+    fileAccessUpserts[kind].run(userId, fileId);
+  } catch (e) {
+    console.error('Access tracking error:', e);
+  }
+};
+
+// Live file changes for open clients (GET /api/events)
+const fileEvents = createEventHub();
+
+// The users who can see a file: its owner and everyone it is shared with
+const fileAudience = (file) => ({
+  uids: [file.owner_id],
+  emails: selectFileShares.all(file.id).map(share => share.grantee_email),
+});
+
+// Pushes the file's current row to the owner (with tags) and to its grantees (with their role).
+// Like logActivity, a failure is reported but never fails the operation.
+const publishFileEvent = (type, fileId) => {
+  try {
+    const file = getFileRecord.get(fileId);
+    if (!file) return;
+    if (type === 'file.trashed' || type === 'file.restored') notifyWebhooks(type, file);
+    fileEvents.publish(type, { file: formatFileDetails(withTags([file])[0]) }, { uids: [file.owner_id] });
+    for (const share of selectFileShares.all(file.id)) {
+      fileEvents.publish(type, { file: formatFileDetails({ ...file, share_role: share.role }) }, { emails: [share.grantee_email] });
+    }
+  } catch (e) {
+    console.error('File event error:', e);
+  }
+};
+
+// Queues webhook deliveries for an event on the file (its row as it is, or was just before a
+// delete); like logActivity, a failure is reported but never fails the operation
+const notifyWebhooks = (event, file) => {
+  try {
+    if (file) webhooks.dispatch(event, file);
+  } catch (e) {
+    console.error('Webhook dispatch error:', e);
+  }
+};
+
+// Deletes have no row left to read, so the audience is captured before the delete
+const publishFileDeleted = (fileId, audience) => {
+  try {
+    fileEvents.publish('file.deleted', { file: { id: fileId } }, audience);
+  } catch (e) {
+    console.error('File event error:', e);
+  }
+};
+
+// page and limit from a list route's query string: page is at least 1 and limit between 1 and
+// maxLimit, with offset the number of rows before the page
+const parsePagination = (query, defaultLimit = 20, maxLimit = 100) => {
+  const page = Math.max(1, parseInt(query.page) || 1);
+  const limit = Math.min(Math.max(1, parseInt(query.limit) || defaultLimit), maxLimit);
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+// Activity feed filters from the query string: action, actor (email), since/until (any date
+// Date can parse), page and limit. Returns the list() options, or { error }.
+const parseActivityQuery = (query) => {
+  const { page, limit } = parsePagination(query, 50, 200);
+  const options = { page, limit };
+  if (query.action) {
+    if (!ACTIVITY_ACTIONS.includes(query.action)) return { error: `action must be one of ${ACTIVITY_ACTIONS.join(', ')}` };
+    options.action = query.action;
+  }
+  if (typeof query.actor === 'string' && query.actor.trim()) options.actorEmail = query.actor.trim();
+  for (const bound of ['since', 'until']) {
+    if (!query[bound]) continue;
+    if (Number.isNaN(Date.parse(query[bound]))) return { error: `${bound} must be a valid date` };
+    options[bound] = toSqliteTimestamp(query[bound]);
+  }
+  return { options };
+};
+
+// Job queue for work that shouldn't hold up a request
+const jobs = createJobQueue(db);
+
+// Indexes the text of a file's current revision for content search
+jobs.register('extract_text', async ({ fileId }) => {
+  const file = getFileRecord.get(fileId);
+  if (!file) return;
+  if (!isTextBearing(file.content_type)) {
+    deleteFileContents.run(fileId);
+    return;
+  }
+  const { stream } = await storage.getStream(file.s3_key);
+  const { buffer, truncated } = await readStreamPrefix(stream, MAX_EXTRACT_BYTES);
+  // Plain text is still worth indexing up to the cap; a cut-off PDF can't be parsed at all
+  if (truncated && file.content_type.startsWith('application/pdf')) {
+    deleteFileContents.run(fileId);
+    return;
+  }
+  replaceFileContents(fileId, await extractText(buffer, file.content_type));
+});
+
+// Renders a thumbnail of a file's current revision and stores it under thumbnails/
+jobs.register('generate_thumbnail', async ({ fileId }) => {
+  const file = getFileRecord.get(fileId);
+  if (!file || !canThumbnail(file.content_type)) return;
+  const thumbnailKey = thumbnailKeyFor(file.s3_key);
+  if (file.thumbnail_key === thumbnailKey) return;
+
+  const { stream } = await storage.getStream(file.s3_key);
+  const { buffer, truncated } = await readStreamPrefix(stream, MAX_THUMBNAIL_SOURCE_BYTES);
+  if (truncated) return;
+  await storage.put(thumbnailKey, await renderThumbnail(buffer, file.content_type), { contentType: THUMBNAIL_CONTENT_TYPE });
+
+  // A newer revision (or a delete) landed while rendering; its own job takes care of it
+  if (setFileThumbnail.run(thumbnailKey, fileId, file.s3_key).changes === 0) {
+    await storage.delete(thumbnailKey);
+    return;
+  }
+  if (file.thumbnail_key) await storage.delete(file.thumbnail_key);
+  publishFileEvent('file.updated', fileId);
+});
+
+// Drops the thumbnail of a file whose current revision can't have one
+const removeThumbnail = (fileId) => {
+  const file = getFileRecord.get(fileId);
+  if (!file?.thumbnail_key) return;
+  clearFileThumbnail.run(fileId);
+  storage.delete(file.thumbnail_key).catch(e => console.error('Thumbnail delete error:', e));
+};
+
+// Called whenever a file's current revision changes
+const queueFileProcessing = (fileId, contentType) => {
+  if (isTextBearing(contentType)) jobs.enqueue('extract_text', { fileId });
+  else deleteFileContents.run(fileId);
+  if (canThumbnail(contentType)) jobs.enqueue('generate_thumbnail', { fileId });
+  else removeThumbnail(fileId);
+};
+
+// New content is scanned before anything reads it (the scan_object job processes it once it is
+// clean); without a scanner, or when it is vault ciphertext, it is processed right away
+const queueNewContent = (fileId, s3Key, contentType, encryption = null) => {
+  if (scanner && !encryption) jobs.enqueue('scan_object', { s3Key });
+  else queueFileProcessing(fileId, contentType);
+};
+
+// Vault content is stored as opaque bytes; its real type is in the encryption parameters, so
+// nothing on the server (text extraction, thumbnails, previews) tries to read it
+const ENCRYPTED_CONTENT_TYPE = 'application/octet-stream';
+
+// The encryption parameters sent with an upload, if any: { encryption } (null for a normal upload)
+// or { error }
+const readUploadEncryption = (raw, size) =>
+  raw === undefined || raw === null || raw === '' ? { encryption: null } : parseEncryption(raw, size);
+
+// Why a file or version can't be downloaded, previewed or shared yet, or null when it can
+const scanBlockError = (item) => {
+  if (item.scan_status === 'pending') return { error: 'This file is still being scanned for malware', code: 'SCAN_PENDING' };
+  if (item.scan_status === 'quarantined') {
+    return { error: 'This file has been quarantined because it appears to contain malware', code: 'QUARANTINED' };
+  }
+  return null;
+};
+
+// Process files uploaded before content search and thumbnails existed
+if (!fileContentsFtsExists || thumbnailColumnAdded) {
+  for (const file of selectAllFileTypes.all()) queueFileProcessing(file.id, file.content_type);
+}
+
+// Hashes an object stored without one (a completed multipart upload, or a file from before
+// hashing) and shares its storage with identical content already stored
+jobs.register('hash_object', async ({ s3Key }) => {
+  if (!getVersionByKey.get(s3Key)) return;
+  const { sha256 } = await storage.register(s3Key);
+  recordObjectHash(s3Key, sha256);
+});
+
+// Scans a revision stored while a scanner is configured. A clean current revision then gets its
+// text extracted and thumbnail rendered; an infected one stays quarantined and unreadable.
+jobs.register('scan_object', async ({ s3Key }) => {
+  const version = getVersionByKeyForScan.get(s3Key);
+  if (!version || version.scan_status !== 'pending') return;
+  if (!scanner) throw new Error('No malware scanner is configured (SCANNER)');
+  const { stream } = await storage.getStream(s3Key);
+  const result = await scanner.scan(stream);
+  recordScanResult(s3Key, result.clean ? 'clean' : 'quarantined', result.clean ? null : result.signature);
+
+  const file = getFileRecord.get(version.file_id);
+  if (!file) return;
+  if (!result.clean) {
+    console.warn(`Quarantined file ${file.id} version ${version.version_number}: ${result.signature}`);
+    logActivity(null, 'quarantine', 'file', file, { signature: result.signature, version: version.version_number });
+  }
+  if (file.s3_key !== s3Key) return;
+  if (result.clean) queueFileProcessing(file.id, file.content_type);
+  publishFileEvent('file.updated', file.id);
+});
+
+// Objects are re-hashed every STORAGE_VERIFY_DAYS days; 0 turns verification off
+const STORAGE_VERIFY_DAYS = parseInt(process.env.STORAGE_VERIFY_DAYS ?? '30') || 0;
+const VERIFY_BATCH_SIZE = 100;
+
+// Re-hashes stored objects that are due and flags any whose content no longer matches
+jobs.register('verify_storage', async () => {
+  const { checked, failures } = await storage.verify({ limit: VERIFY_BATCH_SIZE, maxAgeDays: STORAGE_VERIFY_DAYS });
+  for (const failure of failures) {
+    console.error(`Integrity check failed for ${failure.objectKey} (sha256 ${failure.sha256}): ${failure.status}`);
+  }
+  // A full batch means more may be due; keep going in a fresh job
+  if (checked === VERIFY_BATCH_SIZE) jobs.enqueue('verify_storage', {});
+});
+
+if (hashColumnsAdded) {
+  for (const { s3_key: s3Key } of selectUnhashedVersionKeys.all()) jobs.enqueue('hash_object', { s3Key });
+}
+
+// Turns a search box string into an FTS5 query: every term must match, the last one as a prefix
+const contentMatchQuery = (q) => {
+  const terms = q.split(/\s+/).map(term => term.replace(/"/g, '')).filter(Boolean);
+  if (terms.length === 0) return null;
+  return terms.map((term, i) => `"${term}"${i === terms.length - 1 ? '*' : ''}`).join(' ');
+};
+
+// Splits an STX/ETX-delimited snippet into plain and highlighted segments
+const parseSnippet = (snippet) => snippet.split('\u0002').flatMap((part, i) => {
+  if (i === 0) return part ? [{ text: part, match: false }] : [];
+  const [matched, rest] = part.split('\u0003');
+  return [{ text: matched, match: true }, ...(rest ? [{ text: rest, match: false }] : [])];
+});
+
+const FILE_SORT_COLUMNS = {
+  name: 'name COLLATE NOCASE',
+  size: 'size',
+  created_at: 'created_at',
+  content_type: 'content_type',
+};
+
+// SQLite's CURRENT_TIMESTAMP format, so ISO dates from the query string compare correctly
+const toSqliteTimestamp = (value) => new Date(value).toISOString().replace('T', ' ').slice(0, 19);
+
+// Builds the WHERE clause and ORDER BY for GET /api/files from its query-string filters.
+// Returns { error } when a filter is invalid.
+const buildFileQuery = (query, ownerId) => {
+  const conditions = ['owner_id = ?'];
+  const params = [ownerId];
+
+  switch (query.section || 'drive') {
+    case 'drive':
+      conditions.push('trashed = 0');
+      break;
+    case 'starred':
+      conditions.push('starred = 1', 'trashed = 0');
+      break;
+    case 'trashed':
+      conditions.push('trashed = 1');
+      break;
+    case 'all':
+      break;
+    default:
+      return { error: 'section must be one of drive, starred, trashed, all' };
+  }
+
+  // Terms of three or more characters go through the trigram index; shorter ones fall back to LIKE
+  const terms = typeof query.q === 'string' ? query.q.trim().split(/\s+/).filter(Boolean) : [];
+  const ftsTerms = terms.filter(term => term.length >= 3);
+  if (ftsTerms.length) {
+    conditions.push('id IN (SELECT rowid FROM files_fts WHERE files_fts MATCH ?)');
+    params.push(ftsTerms.map(term => `"${term.replace(/"/g, '""')}"`).join(' '));
+  }
+  for (const term of terms.filter(term => term.length < 3)) {
+    conditions.push("name LIKE ? ESCAPE '\\'");
+    params.push(`%${term.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+
+  if (query.type) {
+    if (!FAMILY_NAMES.includes(query.type)) return { error: `type must be one of ${FAMILY_NAMES.join(', ')}` };
+    const family = familySqlCondition(query.type);
+    conditions.push(family.sql);
+    params.push(...family.params);
+  }
+
+  // tag=3 or tag=3,7: files carrying every listed tag
+  if (query.tag) {
+    const tagIds = String(query.tag).split(',').map(id => parseInt(id));
+    if (tagIds.some(id => Number.isNaN(id))) return { error: 'tag must be a comma-separated list of tag ids' };
+    for (const tagId of tagIds) {
+      conditions.push('id IN (SELECT file_id FROM file_tags WHERE tag_id = ?)');
+      params.push(tagId);
+    }
+  }
+
+  for (const [param, operator] of [['min_size', '>='], ['max_size', '<=']]) {
+    if (query[param] === undefined || query[param] === '') continue;
+    const bytes = parseInt(query[param]);
+    if (Number.isNaN(bytes) || bytes < 0) return { error: `${param} must be a non-negative integer` };
+    conditions.push(`size ${operator} ?`);
+    params.push(bytes);
+  }
+
+  for (const [param, operator] of [['created_after', '>='], ['created_before', '<=']]) {
+    if (!query[param]) continue;
+    if (Number.isNaN(Date.parse(query[param]))) return { error: `${param} must be a date` };
+    conditions.push(`created_at ${operator} ?`);
+    params.push(toSqliteTimestamp(query[param]));
+  }
+
+  const sortField = query.sort || 'created_at';
+  if (!FILE_SORT_COLUMNS[sortField]) return { error: `sort must be one of ${Object.keys(FILE_SORT_COLUMNS).join(', ')}` };
+  const order = (query.order || 'desc').toLowerCase();
+  if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+
+  return {
+    where: conditions.join(' AND '),
+    params,
+    orderBy: `${FILE_SORT_COLUMNS[sortField]} ${order.toUpperCase()}, id ${order.toUpperCase()}`,
+  };
+};
+
+// Resolve a parent_id from a request body/query; null means the drive root
+const parseParentId = (value) => {
+  if (value === undefined || value === null || value === '' || value === 'root') return null;
+  const parentId = parseInt(value);
+  return Number.isNaN(parentId) ? undefined : parentId;
+};
+
+// Returns an error message when the folder can't receive new children
+const checkParentFolder = (parentId, ownerId) => {
+  if (parentId === undefined) return 'Invalid parent folder';
+  if (parentId === null) return null;
+  const parent = getFolderById.get(parentId, ownerId);
+  if (!parent) return 'Parent folder not found';
+  if (parent.trashed) return 'Parent folder is in trash';
+  return null;
+};
+
+const validateFolderName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) return 'Folder name is required';
+  if (name.trim().length > 255) return 'Folder name is too long';
+  if (/[\\/]/.test(name)) return 'Folder name cannot contain slashes';
+  return null;
+};
+
+const validateFileName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) return 'File name is required';
+  if (name.trim().length > 255) return 'File name is too long';
+  if (/[\\/]/.test(name)) return 'File name cannot contain slashes';
+  return null;
+};
+
+// First of "name", "name (2)", "name (3)"… (numbered before the extension) that no other file
+// in the folder uses
+const availableFileName = (name, parentId, ownerId, excludeId = 0) => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; findSiblingFile.get(parentId, ownerId, candidate, excludeId); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  return candidate;
+};
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_METADATA_ENTRIES = 50;
+
+// Custom metadata from a request body: an object of string values, or null to clear it.
+// Returns { metadata } as stored (JSON text, or null when empty) or { error }.
+const parseFileMetadata = (value) => {
+  if (value === null) return { metadata: null };
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: 'metadata must be an object of string values' };
+  const entries = Object.entries(value).map(([key, entry]) => [key.trim(), entry]);
+  if (entries.length > MAX_METADATA_ENTRIES) return { error: `metadata can have at most ${MAX_METADATA_ENTRIES} entries` };
+  for (const [key, entry] of entries) {
+    if (!key || key.length > 64) return { error: 'metadata keys must be 1 to 64 characters' };
+    if (typeof entry !== 'string' || entry.length > 1024) {
+      return { error: `metadata value for "${key}" must be a string of at most 1024 characters` };
+    }
+  }
+  return { metadata: entries.length ? JSON.stringify(Object.fromEntries(entries)) : null };
+};
+
+const validateTagName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) return 'Tag name is required';
+  if (name.trim().length > 50) return 'Tag name is too long';
+  return null;
+};
+
+const validateTagColor = (color) => (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? null : 'color must be a hex colour like #4caf50');
+
+// Adds each file's tags ({ id, name, color }) to a page of the owner's files
+const withTags = (files) => {
+  if (files.length === 0) return files;
+  const rows = db.prepare(`
+    SELECT file_tags.file_id, tags.id, tags.name, tags.color FROM file_tags JOIN tags ON tags.id = file_tags.tag_id
+    WHERE file_tags.file_id IN (${files.map(() => '?').join(', ')}) ORDER BY tags.name COLLATE NOCASE
+  `).all(...files.map(file => file.id));
+  return files.map(file => ({
+    ...file,
+    tags: rows.filter(row => row.file_id === file.id).map(({ file_id, ...tag }) => tag),
+  }));
+};
+
+// File row as every route and event returns it: metadata parsed, storage key left out
+const formatFileDetails = ({ s3_key, ...file }) => ({ ...file, metadata: file.metadata ? JSON.parse(file.metadata) : {} });
+
+// Version row as the versions routes return it, without its storage key
+const formatVersion = ({ s3_key, ...version }) => version;
+
+// Items restored out of a folder that is still in trash go back to the root
+const restoreParentId = (parentId, ownerId) => {
+  if (parentId === null) return null;
+  const parent = getFolderById.get(parentId, ownerId);
+  return parent && !parent.trashed ? parentId : null;
+};
+
+// Folder for a file uploaded as part of a directory: relativePath is the file's path inside the
+// dropped directory ("photos/2024/a.jpg"), and any folders along it that don't exist under
+// parentId yet are created. Returns { parentId } or { error }.
+const resolveUploadFolder = db.transaction((parentId, relativePath, ownerId) => {
+  if (relativePath === undefined || relativePath === null || relativePath === '') return { parentId };
+  if (typeof relativePath !== 'string' || relativePath.length > 4096) return { error: 'Invalid relative path' };
+  const folderNames = relativePath.split('/').slice(0, -1).filter(Boolean);
+  const invalidName = folderNames.find(name => name === '.' || name === '..' || validateFolderName(name));
+  if (invalidName) return { error: `Invalid folder name in path: ${invalidName}` };
+  for (const name of folderNames) {
+    const existing = findSiblingFolder.get(parentId, ownerId, name.trim(), 0);
+    parentId = existing ? existing.id : Number(insertFolder.run(name.trim(), parentId, ownerId).lastInsertRowid);
+  }
+  return { parentId };
+});
+
+// Multer config for file uploads
+const MAX_SIMPLE_UPLOAD_BYTES = 100 * 1024 * 1024;
+const ALLOWED_UPLOAD_TYPES = /^(image|video|audio|application|text)\//;
+
+const invalidFileTypeError = (contentType) => ({ error: `Files of type ${contentType} are not allowed`, code: 'INVALID_FILE_TYPE' });
+
+const fileTooLargeError = (limit) => ({ error: `File too large (the limit is ${formatByteSize(limit)})`, code: 'FILE_TOO_LARGE' });
+
+const upload = multer({
+  dest: 'uploads/',
+  limits: { fileSize: MAX_SIMPLE_UPLOAD_BYTES, fieldSize: 25 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_UPLOAD_TYPES.test(file.mimetype)) return cb(null, true);
+    const error = new Error('Invalid file type');
+    error.contentType = file.mimetype;
+    cb(error);
+  },
+});
+
+// Health check
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    node_version: process.version,
+  });
+});
+
+// OpenAPI description of this API, built from the registered routes on first request
+const { version: apiVersion } = JSON.parse(readFileSync(join(__dirname, 'package.json'), 'utf8'));
+let openApiDocument;
+app.get('/api/openapi.json', (req, res) => {
+  try {
+    openApiDocument ??= buildOpenApiDocument(app, { version: apiVersion });
+    res.json(openApiDocument);
+  } catch (e) {
+    console.error('OpenAPI error:', e);
+    res.status(500).json({ error: 'Failed to build API description' });
+  }
+});
+
+// Signed, expiring downloads for the local storage driver; the signature stands in for sign-in
+if (storage.verifyDownload) {
+  app.get('/api/storage/local', signedDownloadLimiter, async (req, res) => {
+    const params = storage.verifyDownload(req.query);
+    if (!params) return res.status(403).json({ error: 'Invalid or expired download link' });
+    try {
+      const { size } = await storage.stat(params.key);
+      // Served from the app's own origin, so only types safe to render there are shown inline
+      const contentType = previewContentType(params.type);
+      const disposition = contentType === 'application/octet-stream' ? 'attachment' : 'inline';
+      await sendObject(req, res, params.key, {
+        'Content-Type': contentType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(params.name || 'download')}`,
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+      }, { size });
+    } catch (e) {
+      if (e.code === 'ENOENT') return res.status(404).json({ error: 'File not found' });
+      console.error('Local download error:', e);
+      res.status(500).json({ error: 'Failed to download file' });
+    }
+  });
+}
+
+// ZIP of the files picked for a batch download (no sign-in required; the token is the credential).
+// Access is checked again here in case it changed since the link was made.
+app.get('/api/archives/:token', signedDownloadLimiter, async (req, res) => {
+  try {
+    const pending = pendingArchives.get(req.params.token);
+    if (!pending || pending.expiresAt < Date.now()) return res.status(404).json({ error: 'Download link expired' });
+    const files = pending.fileIds
+      .map(fileId => findAccessibleFile(fileId, pending.user))
+      .filter(file => file && !file.trashed && !scanBlockError(file));
+    if (files.length === 0) return res.status(404).json({ error: 'No files to download' });
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="drive-download-${new Date().toISOString().slice(0, 10)}.zip"`,
+    });
+    files.forEach((file) => {
+      logActivity(pending.user, 'download', 'file', file, { archive: true });
+      trackFileAccess(pending.user.uid, file.id, 'downloaded');
+    });
+    await streamZipArchive(res, files, storage);
+  } catch (e) {
+    console.error('Archive download error:', e);
+    if (res.headersSent) res.destroy(e);
+    else res.status(500).json({ error: 'Failed to create archive' });
+  }
+});
+
+// Public share link metadata (no sign-in required)
+app.get('/api/public/shares/:token', (req, res) => {
+  try {
+    const link = getShareLinkByToken.get(req.params.token);
+    const linkError = checkShareLink(link);
+    if (linkError) return res.status(link && !link.trashed ? 410 : 404).json({ error: linkError });
+    res.json({
+      name: link.name,
+      size: link.size,
+      content_type: link.content_type,
+      expires_at: link.expires_at,
+      requires_password: !!link.password_hash,
+    });
+  } catch (e) {
+    console.error('Public share error:', e);
+    res.status(500).json({ error: 'Failed to load share link' });
+  }
+});
+
+// Public share link download; checks the link and, if it passes, counts the download and hands out
+// a single-use URL for it. GET redirects straight to the file (links without a password); POST takes
+// { password } and returns JSON.
+const handlePublicShareDownload = async (req, res) => {
+  try {
+    const link = getShareLinkByToken.get(req.params.token);
+    const linkError = checkShareLink(link);
+    if (linkError) return res.status(link && !link.trashed ? 410 : 404).json({ error: linkError });
+    const blockError = scanBlockError(link);
+    if (blockError) return res.status(409).json(blockError);
+    if (link.password_hash) {
+      const password = req.method === 'POST' ? req.body?.password : undefined;
+      if (!password) return res.status(401).json({ error: 'Password required' });
+      if (!checkSharePassword(password, link.password_hash)) return res.status(403).json({ error: 'Incorrect password' });
+    }
+    if (consumeShareLinkDownload.run(link.id).changes === 0) {
+      return res.status(410).json({ error: 'Share link download limit reached' });
+    }
+
+    const downloadUrl = createShareDownloadUrl(link);
+    logActivity(null, 'download', 'file', { id: link.file_id, name: link.name, owner_id: link.owner_id }, { via: 'link', link_id: link.id });
+    if (req.method === 'GET') return res.redirect(downloadUrl);
+    res.json({ downloadUrl, fileName: link.name, contentType: link.content_type });
+  } catch (e) {
+    console.error('Public share download error:', e);
+    res.status(500).json({ error: 'Failed to generate download link' });
+  }
+};
+app.get('/api/public/shares/:token/download', handlePublicShareDownload);
+app.post('/api/public/shares/:token/download', handlePublicShareDownload);
+
+// The file behind a single-use URL from a public link download; the first request uses the URL up.
+// The link is looked up again in case it was revoked or the file trashed since.
+app.get('/api/public/share-downloads/:token', async (req, res) => {
+  try {
+    const pending = pendingShareDownloads.get(req.params.token);
+    pendingShareDownloads.delete(req.params.token);
+    if (!pending || pending.expiresAt < Date.now()) return res.status(404).json({ error: 'Download link expired' });
+    const link = getShareLinkByToken.get(pending.linkToken);
+    if (!link || link.trashed) return res.status(404).json({ error: 'Share link not found' });
+    const blockError = scanBlockError(link);
+    if (blockError) return res.status(409).json(blockError);
+    await sendObject(req, res, link.s3_key, {
+      'Content-Type': previewContentType(link.content_type),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(link.name)}`,
+      'Content-Security-Policy': 'sandbox',
+      'X-Content-Type-Options': 'nosniff',
+    });
+  } catch (e) {
+    console.error('Public share file error:', e);
+    if (!res.headersSent) res.status(500).json({ error: 'Failed to download file' });
+  }
+});
+
+// Every /api route below requires a verified bearer token: a browser session or a personal access token
+const verifyToken = await createVerifierFromEnv();
+const verifyBearer = (token) => (isAccessToken(token) ? accessTokens.verify(token) : verifyToken(token));
+const legacyOwnerEmail = (process.env.LEGACY_OWNER_EMAIL || '').toLowerCase();
+app.use('/api', authenticate(verifyBearer, {
+  allowedEmails: parseAllowedEmails(process.env.ALLOWED_EMAILS),
+  onAuthenticated: (user) => {
+    upsertUser.run(user.uid, user.email || null);
+    if (legacyOwnerEmail && (user.email || '').toLowerCase() === legacyOwnerEmail) {
+      claimUnownedFiles.run(user.uid);
+      claimUnownedFolders.run(user.uid);
+    }
+  },
+}));
+
+// Access tokens (users with scopes) reach only the file and upload routes, and only with the
+// scope the request needs; browser sessions aren't limited
+app.use('/api', (req, res, next) => {
+  if (!req.user.scopes) return next();
+  if (!acceptsAccessTokens(req.path)) {
+    return res.status(403).json({
+      error: 'Access tokens can only be used with the /api/files, /api/folders and /api/uploads routes',
+      code: 'TOKEN_NOT_ALLOWED',
+    });
+  }
+  const scope = requiredScope(req.method, req.path, req.body);
+  if (!req.user.scopes.includes(scope)) {
+    return res.status(403).json({ error: `This access token doesn't have the ${scope} scope`, code: 'INSUFFICIENT_SCOPE' });
+  }
+  next();
+});
+
+// Per-user rate limits once the token is verified. Reads (lists, previews, event stream reconnects,
+// page-by-page listings) are frequent and cheap, so they get a larger budget than changes. Each
+// access token is counted on its own, so a script can't use up its owner's browser budget.
+const rateLimitKey = (req) => (req.user.tokenId ? `token:${req.user.tokenId}` : `user:${req.user.uid}`);
+const isReadRequest = (req) => req.method === 'GET' || req.method === 'HEAD';
+const userRateLimit = (max, appliesTo) => rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max,
+  message: { error: 'Too many requests, please try later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: rateLimitKey,
+  skip: (req) => !req.user || hasOwnLimiter(req) || !appliesTo(req),
+});
+app.use(userRateLimit(3000, isReadRequest));
+app.use(userRateLimit(500, (req) => !isReadRequest(req)));
+
+// Stream of file events (file.created, .updated, .starred, .trashed, .restored, .deleted) for the
+// files the user can see, as server-sent events. Each event's data is { type, file }.
+app.get('/api/events', (req, res) => {
+  fileEvents.subscribe(req, res, req.user);
+});
+
+// The user's vault settings, or null before they have set a vault passphrase
+app.get('/api/vault', (req, res) => {
+  try {
+    res.json({ vault: getVault.get(req.user.uid) ?? null });
+  } catch (e) {
+    console.error('Vault error:', e);
+    res.status(500).json({ error: 'Failed to fetch vault' });
+  }
+});
+
+// Set up the user's vault once; the passphrase itself never leaves the browser, so it can't be
+// reset here without losing access to the files encrypted with it
+app.put('/api/vault', (req, res) => {
+  try {
+    const { vault, error } = parseVaultSettings(req.body);
+    if (error) return res.status(400).json({ error });
+    const result = insertVault.run(req.user.uid, vault.kdf_salt, vault.iterations, vault.check_iv, vault.check);
+    if (result.changes === 0) return res.status(409).json({ error: 'Vault is already set up', code: 'VAULT_EXISTS' });
+    res.status(201).json({ vault: getVault.get(req.user.uid) });
+  } catch (e) {
+    console.error('Vault setup error:', e);
+    res.status(500).json({ error: 'Failed to set up vault' });
+  }
+});
+
+// The user's personal access tokens (never the secrets themselves)
+app.get('/api/tokens', (req, res) => {
+  try {
+    res.json({ tokens: accessTokens.list(req.user.uid) });
+  } catch (e) {
+    console.error('Access tokens error:', e);
+    res.status(500).json({ error: 'Failed to fetch access tokens' });
+  }
+});
+
+// Creates a token; the response is the only time its secret is shown
+app.post('/api/tokens', (req, res) => {
+  try {
+    const { request, error } = parseTokenRequest(req.body);
+    if (error) return res.status(400).json({ error });
+    const { token, accessToken } = accessTokens.create({ user: req.user, ...request });
+    res.status(201).json({ ...accessToken, token });
+  } catch (e) {
+    console.error('Access token create error:', e);
+    res.status(500).json({ error: 'Failed to create access token' });
+  }
+});
+
+app.delete('/api/tokens/:id', (req, res) => {
+  try {
+    if (!accessTokens.revoke(req.user.uid, parseInt(req.params.id))) return res.status(404).json({ error: 'Token not found' });
+    res.json({ message: 'Token revoked' });
+  } catch (e) {
+    console.error('Access token revoke error:', e);
+    res.status(500).json({ error: 'Failed to revoke access token' });
+  }
+});
+
+// The user's webhooks, each with the status of its latest delivery (secrets are only shown in full
+// when set)
+app.get('/api/webhooks', (req, res) => {
+  try {
+    res.json({ webhooks: webhooks.list(req.user.uid) });
+  } catch (e) {
+    console.error('Webhooks error:', e);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// Subscribe a URL to file events; without a secret one is generated
+app.post('/api/webhooks', (req, res) => {
+  try {
+    const { webhook, error } = parseWebhookRequest(req.body, { allowPrivateHosts: WEBHOOK_ALLOW_PRIVATE_HOSTS });
+    if (error) return res.status(400).json({ error });
+    const created = webhooks.create(req.user.uid, webhook);
+    if (created.error) return res.status(400).json({ error: created.error });
+    res.status(201).json({ ...created.webhook, secret: created.secret });
+  } catch (e) {
+    console.error('Webhook create error:', e);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// Change a webhook's URL, events, description or secret, or pause it (active: false);
+// rotate_secret: true replaces the secret with a generated one
+app.patch('/api/webhooks/:id', (req, res) => {
+  try {
+    const { webhook, error } = parseWebhookRequest(req.body, { partial: true, allowPrivateHosts: WEBHOOK_ALLOW_PRIVATE_HOSTS });
+    if (error) return res.status(400).json({ error });
+    const updated = webhooks.update(parseInt(req.params.id), req.user.uid, webhook, { rotateSecret: req.body.rotate_secret === true });
+    if (!updated) return res.status(404).json({ error: 'Webhook not found' });
+    res.json({ ...updated.webhook, ...(updated.secret && { secret: updated.secret }) });
+  } catch (e) {
+    console.error('Webhook update error:', e);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+app.delete('/api/webhooks/:id', (req, res) => {
+  try {
+    if (!webhooks.remove(parseInt(req.params.id), req.user.uid)) return res.status(404).json({ error: 'Webhook not found' });
+    res.json({ message: 'Webhook deleted' });
+  } catch (e) {
+    console.error('Webhook delete error:', e);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Queue a ping event to check that the receiver is reachable and verifies signatures
+app.post('/api/webhooks/:id/ping', (req, res) => {
+  try {
+    const webhook = webhooks.get(parseInt(req.params.id), req.user.uid);
+    if (!webhook) return res.status(404).json({ error: 'Webhook not found' });
+    res.status(201).json(webhooks.ping(webhook.id));
+  } catch (e) {
+    console.error('Webhook ping error:', e);
+    res.status(500).json({ error: 'Failed to ping webhook' });
+  }
+});
+
+// A webhook's delivery log, newest first
+app.get('/api/webhooks/:id/deliveries', (req, res) => {
+  try {
+    const webhook = webhooks.get(parseInt(req.params.id), req.user.uid);
+    if (!webhook) return res.status(404).json({ error: 'Webhook not found' });
+    const { page, limit } = parsePagination(req.query);
+    res.json(webhooks.deliveries(webhook.id, { page, limit }));
+  } catch (e) {
+    console.error('Webhook deliveries error:', e);
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+});
+
+// Send a delivery's payload again, as a new delivery
+app.post('/api/webhooks/:id/deliveries/:deliveryId/redeliver', (req, res) => {
+  try {
+    const webhook = webhooks.get(parseInt(req.params.id), req.user.uid);
+    if (!webhook) return res.status(404).json({ error: 'Webhook not found' });
+    const delivery = webhooks.redeliver(webhook.id, parseInt(req.params.deliveryId));
+    if (!delivery) return res.status(404).json({ error: 'Delivery not found' });
+    res.status(201).json(delivery);
+  } catch (e) {
+    console.error('Webhook redeliver error:', e);
+    res.status(500).json({ error: 'Failed to redeliver' });
+  }
+});
+
+// Storage usage against the quota: live files by content-type family, older versions,
+// trash and uploads in progress add up to `used`
+app.get('/api/usage', (req, res) => {
+  try {
+    const { quota, used } = storageUsage(req.user.uid);
+    const families = Object.fromEntries(FAMILY_NAMES.map(family => [family, { bytes: 0, files: 0 }]));
+    const versions = { bytes: 0 };
+    const trash = { bytes: 0, files: 0 };
+    for (const row of selectUsageByContentType.all(req.user.uid)) {
+      if (row.trashed) {
+        trash.bytes += row.current_bytes + row.version_bytes;
+        trash.files += row.file_count;
+      } else {
+        const family = families[contentTypeFamily(row.content_type)];
+        family.bytes += row.current_bytes;
+        family.files += row.file_count;
+        versions.bytes += row.version_bytes;
+      }
+    }
+    res.json({
+      quota,
+      used,
+      families,
+      versions,
+      trash: { ...trash, retentionDays: TRASH_RETENTION_DAYS },
+      uploads: { bytes: selectReservedUploadBytes.get(req.user.uid).bytes },
+    });
+  } catch (e) {
+    console.error('Usage error:', e);
+    res.status(500).json({ error: 'Failed to fetch storage usage' });
+  }
+});
+
+// List files (paginated), with search (q), section, type, size/date ranges and sort/order
+app.get('/api/files', (req, res) => {
+  try {
+    const { page, limit, offset } = parsePagination(req.query);
+
+    const fileQuery = buildFileQuery(req.query, req.user.uid);
+    if (fileQuery.error) return res.status(400).json({ error: fileQuery.error });
+    const files = db.prepare(`SELECT * FROM files WHERE ${fileQuery.where} ORDER BY ${fileQuery.orderBy} LIMIT ? OFFSET ?`)
+      .all(...fileQuery.params, limit, offset);
+    const totalCount = db.prepare(`SELECT COUNT(*) as count FROM files WHERE ${fileQuery.where}`).get(...fileQuery.params).count;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({ files: withTags(files).map(formatFileDetails), pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 } });
+  } catch (e) {
+    console.error('Error fetching files:', e);
+    res.status(500).json({ error: 'Failed to fetch files' });
+  }
+});
+
+// Recent files are grouped by how long ago they were last used, in the caller's time zone
+const RECENT_GROUPS = ['Today', 'This week', 'Earlier'];
+
+// tzOffset is minutes behind UTC, as from Date#getTimezoneOffset in the browser
+const recentGroupLabel = (timestamp, now, tzOffset) => {
+  const local = new Date(now - tzOffset * 60000);
+  local.setUTCHours(0, 0, 0, 0);
+  const startOfToday = local.getTime() + tzOffset * 60000;
+  const time = Date.parse(`${timestamp.replace(' ', 'T')}Z`);
+  if (time >= startOfToday) return 'Today';
+  if (time >= startOfToday - 6 * 24 * 60 * 60 * 1000) return 'This week';
+  return 'Earlier';
+};
+
+// Files the user recently opened, downloaded or modified and can still open (own or shared with
+// them, outside trash), most recent first and grouped into Today / This week / Earlier
+app.get('/api/files/recent', (req, res) => {
+  try {
+    const { page, limit, offset } = parsePagination(req.query, 50);
+    const tzOffset = parseInt(req.query.tz_offset) || 0;
+    if (Math.abs(tzOffset) > 14 * 60) return res.status(400).json({ error: 'tz_offset must be between -840 and 840 minutes' });
+
+    const conditions = [
+      'file_access.user_id = ?',
+      'files.trashed = 0',
+      '(files.owner_id = ? OR files.id IN (SELECT file_id FROM file_shares WHERE grantee_email = ?))',
+    ];
+    const params = [req.user.uid, req.user.uid, (req.user.email || '').toLowerCase()];
+    if (req.query.type) {
+      if (!FAMILY_NAMES.includes(req.query.type)) return res.status(400).json({ error: `type must be one of ${FAMILY_NAMES.join(', ')}` });
+      const family = familySqlCondition(req.query.type, 'files.content_type');
+      conditions.push(family.sql);
+      params.push(...family.params);
+    }
+    if (typeof req.query.q === 'string' && req.query.q.trim()) {
+      conditions.push("files.name LIKE ? ESCAPE '\\'");
+      params.push(`%${req.query.q.trim().replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    const from = `FROM file_access JOIN files ON files.id = file_access.file_id WHERE ${conditions.join(' AND ')}`;
+
+    const rows = db.prepare(`
+      SELECT files.*, file_access.opened_at, file_access.downloaded_at, file_access.modified_at,
+        file_access.last_action, file_access.last_activity_at,
+        CASE WHEN files.owner_id = ? THEN NULL
+          ELSE (SELECT role FROM file_shares WHERE file_id = files.id AND grantee_email = ?) END AS share_role
+      ${from} ORDER BY file_access.last_activity_at DESC, files.id DESC LIMIT ? OFFSET ?
+    `).all(req.user.uid, params[2], ...params, limit, offset);
+    const totalCount = db.prepare(`SELECT COUNT(*) as count ${from}`).get(...params).count;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    const now = Date.now();
+    const files = withTags(rows.filter(row => row.owner_id === req.user.uid));
+    const tagged = new Map(files.map(file => [file.id, file]));
+    const groups = RECENT_GROUPS.map(label => ({ label, files: [] }));
+    for (const row of rows) {
+      const label = recentGroupLabel(row.last_activity_at, now, tzOffset);
+      groups.find(group => group.label === label).files.push(formatFileDetails(tagged.get(row.id) ?? row));
+    }
+
+    res.json({
+      groups: groups.filter(group => group.files.length > 0),
+      pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 },
+    });
+  } catch (e) {
+    console.error('Recent files error:', e);
+    res.status(500).json({ error: 'Failed to fetch recent files' });
+  }
+});
+
+// Content search over extracted document text; each hit carries a highlighted snippet
+app.get('/api/search', (req, res) => {
+  try {
+    const { page, limit, offset } = parsePagination(req.query);
+
+    const match = contentMatchQuery(typeof req.query.q === 'string' ? req.query.q : '');
+    if (!match) return res.status(400).json({ error: 'Search query is required' });
+
+    const conditions = ['file_contents_fts MATCH ?', 'files.owner_id = ?', 'files.trashed = 0'];
+    const params = [match, req.user.uid];
+    if (req.query.type) {
+      if (!FAMILY_NAMES.includes(req.query.type)) return res.status(400).json({ error: `type must be one of ${FAMILY_NAMES.join(', ')}` });
+      const family = familySqlCondition(req.query.type, 'files.content_type');
+      conditions.push(family.sql);
+      params.push(...family.params);
+    }
+    const from = `FROM file_contents_fts JOIN files ON files.id = file_contents_fts.rowid WHERE ${conditions.join(' AND ')}`;
+
+    // Snippet matches are wrapped in STX/ETX so they can be split out without trusting the text as markup
+    const results = db.prepare(`
+      SELECT files.*, snippet(file_contents_fts, 0, char(2), char(3), '…', 24) AS snippet
+      ${from} ORDER BY file_contents_fts.rank LIMIT ? OFFSET ?
+    `).all(...params, limit, offset)
+      .map(({ snippet, ...file }) => ({ file: formatFileDetails(file), snippet: parseSnippet(snippet) }));
+    const totalCount = db.prepare(`SELECT COUNT(*) as count ${from}`).get(...params).count;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({ results, pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 } });
+  } catch (e) {
+    console.error('Content search error:', e);
+    res.status(500).json({ error: 'Failed to search files' });
+  }
+});
+
+// Activity in the user's drive and by the user, newest first
+app.get('/api/activity', (req, res) => {
+  try {
+    const { options, error } = parseActivityQuery(req.query);
+    if (error) return res.status(400).json({ error });
+    let targetType = req.query.target_type;
+    if (targetType && targetType !== 'file' && targetType !== 'folder') {
+      return res.status(400).json({ error: 'target_type must be file or folder' });
+    }
+    let targetId;
+    if (req.query.file_id) {
+      targetType = 'file';
+      targetId = parseInt(req.query.file_id);
+    }
+    res.json(activityLog.list({ ...options, viewerId: req.user.uid, targetType, targetId }));
+  } catch (e) {
+    console.error('Activity feed error:', e);
+    res.status(500).json({ error: 'Failed to fetch activity' });
+  }
+});
+
+// Upload endpoint
+app.post('/api/files', uploadLimiter, quotaPrecheck(req => req.user.uid), upload.single('file'), async (req, res) => {
+  if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+
+  const { originalname, mimetype, size, path: tempPath } = req.file;
+  const s3Key = `files/${randomUUID()}`;
+  const parentError = checkParentFolder(parseParentId(req.body.parent_id), req.user.uid);
+  if (parentError) {
+    unlinkSync(tempPath);
+    return res.status(400).json({ error: parentError });
+  }
+  const quotaError = checkQuota(req.user.uid, size);
+  if (quotaError) {
+    unlinkSync(tempPath);
+    return res.status(413).json(quotaError);
+  }
+
+  try {
+    const vault = readUploadEncryption(req.body.encryption, size);
+    if (vault.error) {
+      unlinkSync(tempPath);
+      return res.status(400).json(vault);
+    }
+    const sniffed = vault.encryption
+      ? { contentType: ENCRYPTED_CONTENT_TYPE }
+      : checkContentType(mimetype, await readFileHead(tempPath));
+    if (sniffed.error) {
+      unlinkSync(tempPath);
+      return res.status(400).json(sniffed);
+    }
+    const { contentType } = sniffed;
+    const { parentId, error: pathError } = resolveUploadFolder(parseParentId(req.body.parent_id), req.body.relative_path, req.user.uid);
+    if (pathError) {
+      unlinkSync(tempPath);
+      return res.status(400).json({ error: pathError });
+    }
+    const { sha256 } = await putUploadedObject(req.file, s3Key, contentType);
+    const name = availableFileName(originalname, parentId, req.user.uid);
+    const fileId = insertFileWithVersion(name, size, contentType, s3Key, parentId, req.user, sha256, vault.encryption);
+    unlinkSync(tempPath);
+    queueNewContent(fileId, s3Key, contentType, vault.encryption);
+    logActivity(req.user, 'upload', 'file', { id: fileId, name, owner_id: req.user.uid }, { size });
+    trackFileAccess(req.user.uid, fileId, 'modified');
+    publishFileEvent('file.created', fileId);
+    notifyWebhooks('file.uploaded', getFileRecord.get(fileId));
+
+    res.status(201).json(formatFileDetails(getFileById.get(fileId, req.user.uid)));
+  } catch (e) {
+    console.error('Upload error:', e);
+    if (existsSync(tempPath)) unlinkSync(tempPath);
+    res.status(500).json({ error: 'Failed to upload file' });
+  }
+});
+
+// Files (owned by the user) with a revision whose content has the given SHA-256
+app.get('/api/files/by-hash/:sha256', (req, res) => {
+  try {
+    const sha256 = req.params.sha256.toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(sha256)) return res.status(400).json({ error: 'Invalid SHA-256 hash' });
+    res.json({ sha256, files: selectFilesByHash.all(sha256, req.user.uid).map(formatFileDetails) });
+  } catch (e) {
+    console.error('Hash lookup error:', e);
+    res.status(500).json({ error: 'Failed to look up files' });
+  }
+});
+
+// Download file; ?purpose=preview marks a link fetched to play the file in the preview dialog,
+// which counts as opening it rather than downloading it
+app.get('/api/files/:id/download', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const blockError = scanBlockError(file);
+    if (blockError) return res.status(409).json(blockError);
+
+    createDownloadUrl(file)
+      .then((signedUrl) => {
+        if (req.query.purpose === 'preview') {
+          trackFileAccess(req.user.uid, file.id, 'opened');
+        } else {
+          logActivity(req.user, 'download', 'file', file);
+          trackFileAccess(req.user.uid, file.id, 'downloaded');
+        }
+        res.json({ downloadUrl: signedUrl, fileName: file.name, contentType: file.content_type });
+      })
+      .catch((e) => {
+        console.error('Signed URL error:', e);
+        res.status(500).json({ error: 'Failed to generate download link' });
+      });
+  } catch (e) {
+    console.error('Download error:', e);
+    res.status(500).json({ error: 'Failed to generate download link' });
+  }
+});
+
+// Thumbnail image, once the generate_thumbnail job has produced one
+app.get('/api/files/:id/thumbnail', thumbnailLimiter, async (req, res) => {
+  try {
+    const file = findAccessibleFile(parseInt(req.params.id), req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    if (!file.thumbnail_key) return res.status(404).json({ error: 'No thumbnail available' });
+    await sendObject(req, res, file.thumbnail_key, {
+      'Content-Type': THUMBNAIL_CONTENT_TYPE,
+      // The key changes with every revision, so the thumbnail behind it never does
+      'Cache-Control': 'private, max-age=86400',
+      ETag: `"${file.thumbnail_key}"`,
+    });
+  } catch (e) {
+    console.error('Thumbnail error:', e);
+    if (!res.headersSent) res.status(500).json({ error: 'Failed to load thumbnail' });
+  }
+});
 
+// Streams the current revision (or ?version=<id>) through the backend for in-app previews (Range
+// requests supported). Browsers also fetch vault files here to decrypt them; ?purpose=download
+// marks a fetch made to save the file, which counts as downloading it.
+app.get('/api/files/:id/preview', async (req, res) => {
   try {
-    const fileBuffer = readFileSync(tempPath);
-    const uploadCommand = new PutObjectCommand({
-      Bucket: process.env.S3_BUCKET,
-      Key: s3Key,
-      Body: fileBuffer,
-      ContentType: mimetype,
-      Metadata: { originalName: originalname, uploadedAt: new Date().toISOString() },
-    });
+    const file = findAccessibleFile(parseInt(req.params.id), req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const version = req.query.version !== undefined ? getFileVersion.get(parseInt(req.query.version), file.id) : null;
+    if (req.query.version !== undefined && !version) return res.status(404).json({ error: 'Version not found' });
+    const revision = version ?? file;
+    const blockError = scanBlockError(revision);
+    if (blockError) return res.status(409).json(blockError);
+    if (req.query.purpose === 'download') {
+      logActivity(req.user, 'download', 'file', file, version ? { version: version.version_number } : undefined);
+      trackFileAccess(req.user.uid, file.id, 'downloaded');
+    } else {
+      trackFileAccess(req.user.uid, file.id, 'opened');
+    }
+    await sendObject(req, res, revision.s3_key, {
+      'Content-Type': previewContentType(revision.content_type),
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      'Content-Security-Policy': 'sandbox',
+      'Cache-Control': 'private, no-cache',
+    }, { size: revision.size });
+  } catch (e) {
+    console.error('Preview error:', e);
+    if (!res.headersSent) res.status(500).json({ error: 'Failed to load preview' });
+  }
+});
 
-    await s3Client.send(uploadCommand);
-    const result = insertFile.run(originalname, size, mimetype, s3Key);
-    unlinkSync(tempPath);
+// Apply star/unstar/trash/restore/delete to many files at once; each id gets its own result
+app.post('/api/files/batch', async (req, res) => {
+  try {
+    const { action } = req.body;
+    if (!BATCH_ACTIONS.includes(action)) return res.status(400).json({ error: `action must be one of ${BATCH_ACTIONS.join(', ')}` });
+    const fileIds = parseBatchIds(req.body.ids);
+    if (!fileIds) return res.status(400).json({ error: `ids must be a list of 1 to ${MAX_BATCH_SIZE} file ids` });
+    let tag = null;
+    if (action === 'tag' || action === 'untag') {
+      tag = getTagById.get(parseInt(req.body.tag_id), req.user.uid);
+      if (!tag) return res.status(400).json({ error: 'tag_id must be one of your tags' });
+    }
 
-    res.status(201).json({
-      id: result.lastInsertRowid,
-      name: originalname,
-      size,
-      content_type: mimetype,
-      s3_key: s3Key,
-      starred: 0,
-      trashed: 0,
-      created_at: new Date().toISOString(),
+    const outcomes = action === 'delete'
+      ? await deleteFileBatch(fileIds, req.user.uid)
+      : applyFileBatch(action, fileIds, req.user.uid, tag?.id);
+    const results = outcomes.map(({ file, ...result }) => {
+      if (file) logActivity(req.user, action, 'file', file, tag ? { batch: true, tag: tag.name } : { batch: true });
+      if (file && BATCH_EVENTS[action]) publishFileEvent(BATCH_EVENTS[action], file.id);
+      return result;
     });
+    const succeeded = results.filter(result => result.ok).length;
+    res.json({ action, results, succeeded, failed: results.length - succeeded });
   } catch (e) {
-    console.error('Upload error:', e);
-    if (existsSync(tempPath)) unlinkSync(tempPath);
-    res.status(500).json({ error: 'Failed to upload file' });
+    console.error('Batch error:', e);
+    res.status(500).json({ error: 'Failed to apply batch action' });
   }
 });
 
-// Download file
-app.get('/api/files/:id/download', (req, res) => {
+// Start a ZIP download of several files (owned or shared with the user)
+app.post('/api/files/archive', (req, res) => {
   try {
-    const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
-    if (!file) return res.status(404).json({ error: 'File not found' });
-
-    const getCommand = new GetObjectCommand({ Bucket: process.env.S3_BUCKET, Key: file.s3_key });
-    getSignedUrl(s3Client, getCommand, { expiresIn: 3600 })
-      .then((signedUrl) => res.json({ downloadUrl: signedUrl, fileName: file.name, contentType: file.content_type }))
-      .catch((e) => {
-        console.error('Signed URL error:', e);
-        res.status(500).json({ error: 'Failed to generate download link' });
-      });
+    const fileIds = parseBatchIds(req.body.ids);
+    if (!fileIds) return res.status(400).json({ error: `ids must be a list of 1 to ${MAX_BATCH_SIZE} file ids` });
+    const files = fileIds.map(fileId => findAccessibleFile(fileId, req.user));
+    const missing = fileIds.filter((fileId, i) => !files[i] || files[i].trashed);
+    if (missing.length) return res.status(404).json({ error: 'Some files were not found', ids: missing });
+    const blocked = files.filter(file => scanBlockError(file)).map(file => file.id);
+    if (blocked.length) {
+      return res.status(409).json({ error: 'Some files are being scanned or are quarantined', code: 'SCAN_BLOCKED', ids: blocked });
+    }
+    const encrypted = files.filter(file => file.encryption).map(file => file.id);
+    if (encrypted.length) {
+      return res.status(400).json({ error: 'Vault files must be downloaded one at a time to decrypt them', code: 'VAULT_FILE', ids: encrypted });
+    }
+    res.status(201).json(createArchiveLink(fileIds, req.user));
   } catch (e) {
-    console.error('Download error:', e);
-    res.status(500).json({ error: 'Failed to generate download link' });
+    console.error('Archive link error:', e);
+    res.status(500).json({ error: 'Failed to prepare download' });
   }
 });
 
@@ -245,9 +2442,11 @@ app.get('/api/files/:id/download', (req, res) => {
 app.post('/api/files/:id/star', (req, res) => {
   try {
     const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
+    const file = getFileById.get(fileId, req.user.uid);
     if (!file) return res.status(404).json({ error: 'File not found' });
     updateFileStarred.run(1, fileId);
+    logActivity(req.user, 'star', 'file', file);
+    publishFileEvent('file.starred', fileId);
     res.json({ message: 'File starred' });
   } catch (e) {
     console.error('Star error:', e);
@@ -259,9 +2458,11 @@ app.post('/api/files/:id/star', (req, res) => {
 app.post('/api/files/:id/unstar', (req, res) => {
   try {
     const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
+    const file = getFileById.get(fileId, req.user.uid);
     if (!file) return res.status(404).json({ error: 'File not found' });
     updateFileStarred.run(0, fileId);
+    logActivity(req.user, 'unstar', 'file', file);
+    publishFileEvent('file.starred', fileId);
     res.json({ message: 'File unstarred' });
   } catch (e) {
     console.error('Unstar error:', e);
@@ -273,9 +2474,11 @@ app.post('/api/files/:id/unstar', (req, res) => {
 app.post('/api/files/:id/trash', (req, res) => {
   try {
     const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
+    const file = getFileById.get(fileId, req.user.uid);
     if (!file) return res.status(404).json({ error: 'File not found' });
-    updateFileTrashed.run(1, fileId);
+    updateFileTrashed.run(1, 1, fileId);
+    logActivity(req.user, 'trash', 'file', file);
+    publishFileEvent('file.trashed', fileId);
     res.json({ message: 'File moved to trash' });
   } catch (e) {
     console.error('Trash error:', e);
@@ -287,9 +2490,12 @@ app.post('/api/files/:id/trash', (req, res) => {
 app.post('/api/files/:id/restore', (req, res) => {
   try {
     const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
+    const file = getFileById.get(fileId, req.user.uid);
     if (!file) return res.status(404).json({ error: 'File not found' });
-    updateFileTrashed.run(0, fileId);
+    updateFileTrashed.run(0, 0, fileId);
+    updateFileParent.run(restoreParentId(file.parent_id, req.user.uid), fileId);
+    logActivity(req.user, 'restore', 'file', file);
+    publishFileEvent('file.restored', fileId);
     res.json({ message: 'File restored' });
   } catch (e) {
     console.error('Restore error:', e);
@@ -301,12 +2507,11 @@ app.post('/api/files/:id/restore', (req, res) => {
 app.delete('/api/files/:id', (req, res) => {
   try {
     const fileId = parseInt(req.params.id);
-    const file = getFileById.get(fileId);
+    const file = getFileById.get(fileId, req.user.uid);
     if (!file) return res.status(404).json({ error: 'File not found' });
-    const deleteCommand = new DeleteObjectCommand({ Bucket: process.env.S3_BUCKET, Key: file.s3_key });
-    s3Client.send(deleteCommand)
+    purgeFile(fileId)
       .then(() => {
-        deleteFile.run(fileId);
+        logActivity(req.user, 'delete', 'file', file);
         res.json({ message: 'File deleted permanently' });
       })
       .catch((e) => {
@@ -319,11 +2524,830 @@ app.delete('/api/files/:id', (req, res) => {
   }
 });
 
+// Upload a new version of an existing file; earlier versions stay available
+// New versions count against the file owner's quota, whoever uploads them
+const versionOwnerId = (req) => findAccessibleFile(parseInt(req.params.id), req.user, 'editor')?.owner_id;
+
+app.post('/api/files/:id/versions', uploadLimiter, quotaPrecheck(versionOwnerId), upload.single('file'), async (req, res) => {
+  if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+
+  const { originalname, mimetype, size, path: tempPath } = req.file;
+  const fileId = parseInt(req.params.id);
+  const file = findAccessibleFile(fileId, req.user, 'editor');
+  if (!file || file.trashed) {
+    unlinkSync(tempPath);
+    return res.status(404).json({ error: 'File not found' });
+  }
+  const quotaError = checkQuota(file.owner_id, size);
+  if (quotaError) {
+    unlinkSync(tempPath);
+    return res.status(413).json(quotaError);
+  }
+
+  const s3Key = `files/${randomUUID()}`;
+  try {
+    const vault = readUploadEncryption(req.body.encryption, size);
+    if (vault.error) {
+      unlinkSync(tempPath);
+      return res.status(400).json(vault);
+    }
+    // A vault file stays encrypted through every revision, and a normal one never becomes encrypted
+    if (!vault.encryption !== !file.encryption) {
+      unlinkSync(tempPath);
+      return res.status(400).json({
+        error: file.encryption ? 'New versions of a vault file must be encrypted' : 'Only vault files take encrypted versions',
+        code: 'VAULT_MISMATCH',
+      });
+    }
+    const sniffed = vault.encryption
+      ? { contentType: ENCRYPTED_CONTENT_TYPE }
+      : checkContentType(mimetype, await readFileHead(tempPath));
+    if (sniffed.error) {
+      unlinkSync(tempPath);
+      return res.status(400).json(sniffed);
+    }
+    const { contentType } = sniffed;
+    const { sha256 } = await putUploadedObject(req.file, s3Key, contentType);
+    const versionId = addFileVersion(fileId, s3Key, size, contentType, req.user, sha256, vault.encryption);
+    unlinkSync(tempPath);
+    queueNewContent(fileId, s3Key, contentType, vault.encryption);
+    const version = getFileVersion.get(versionId, fileId);
+    logActivity(req.user, 'new_version', 'file', file, { version: version.version_number, size });
+    trackFileAccess(req.user.uid, fileId, 'modified');
+    publishFileEvent('file.updated', fileId);
+    notifyWebhooks('file.uploaded', getFileRecord.get(fileId));
+    res.status(201).json({ ...formatVersion(version), is_current: true });
+  } catch (e) {
+    console.error('Version upload error:', e);
+    if (existsSync(tempPath)) unlinkSync(tempPath);
+    res.status(500).json({ error: 'Failed to upload new version' });
+  }
+});
+
+// List a file's versions, newest first
+app.get('/api/files/:id/versions', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const versions = selectFileVersions.all(fileId).map(version => ({
+      ...formatVersion(version),
+      is_current: version.s3_key === file.s3_key,
+      integrity: version.sha256 ? storage.integrityOf(version.sha256) : null,
+    }));
+    res.json({ versions });
+  } catch (e) {
+    console.error('Error fetching versions:', e);
+    res.status(500).json({ error: 'Failed to fetch versions' });
+  }
+});
+
+// Activity history of one file, for anyone who can open it
+app.get('/api/files/:id/activity', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    if (!findAccessibleFile(fileId, req.user)) return res.status(404).json({ error: 'File not found' });
+    const { options, error } = parseActivityQuery(req.query);
+    if (error) return res.status(400).json({ error });
+    res.json(activityLog.list({ ...options, targetType: 'file', targetId: fileId }));
+  } catch (e) {
+    console.error('File activity error:', e);
+    res.status(500).json({ error: 'Failed to fetch file activity' });
+  }
+});
+
+// Download a specific version
+app.get('/api/files/:id/versions/:versionId/download', async (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const version = getFileVersion.get(parseInt(req.params.versionId), fileId);
+    if (!version) return res.status(404).json({ error: 'Version not found' });
+    const blockError = scanBlockError(version);
+    if (blockError) return res.status(409).json(blockError);
+    const signedUrl = await createDownloadUrl(version, file.name);
+    logActivity(req.user, 'download', 'file', file, { version: version.version_number });
+    trackFileAccess(req.user.uid, fileId, 'downloaded');
+    res.json({ downloadUrl: signedUrl, fileName: file.name, contentType: version.content_type, version: version.version_number });
+  } catch (e) {
+    console.error('Version download error:', e);
+    res.status(500).json({ error: 'Failed to generate download link' });
+  }
+});
+
+// Make an older version the current one
+app.post('/api/files/:id/versions/:versionId/restore', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user, 'editor');
+    if (!file || file.trashed) return res.status(404).json({ error: 'File not found' });
+    const version = getFileVersion.get(parseInt(req.params.versionId), fileId);
+    if (!version) return res.status(404).json({ error: 'Version not found' });
+    if (version.scan_status === 'quarantined') return res.status(409).json(scanBlockError(version));
+    updateFileCurrentVersion.run(
+      version.s3_key, version.size, version.content_type, version.sha256, version.scan_status, version.scan_signature,
+      version.encryption, fileId
+    );
+    // A version still being scanned is processed when its scan finishes
+    if (version.scan_status !== 'pending') queueFileProcessing(fileId, version.content_type);
+    logActivity(req.user, 'restore_version', 'file', file, { version: version.version_number });
+    trackFileAccess(req.user.uid, fileId, 'modified');
+    publishFileEvent('file.updated', fileId);
+    res.json({ message: `Version ${version.version_number} restored`, version: { ...formatVersion(version), is_current: true } });
+  } catch (e) {
+    console.error('Version restore error:', e);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+// Start a resumable upload; the client then PUTs each part and calls complete
+app.post('/api/uploads', uploadLimiter, async (req, res) => {
+  try {
+    const { name, content_type: contentType } = req.body;
+    const size = parseInt(req.body.size);
+    const nameError = validateFileName(name);
+    if (nameError) return res.status(400).json({ error: nameError });
+    if (!(size > 0)) return res.status(400).json({ error: 'File size must be a positive integer' });
+    if (size > MAX_UPLOAD_BYTES) return res.status(413).json(fileTooLargeError(MAX_UPLOAD_BYTES));
+    const vault = readUploadEncryption(req.body.encryption, size);
+    if (vault.error) return res.status(400).json(vault);
+    const mimetype = vault.encryption ? ENCRYPTED_CONTENT_TYPE : contentType || 'application/octet-stream';
+    if (!ALLOWED_UPLOAD_TYPES.test(mimetype)) return res.status(400).json(invalidFileTypeError(mimetype));
+    const parentError = checkParentFolder(parseParentId(req.body.parent_id), req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+    const quotaError = checkQuota(req.user.uid, size);
+    if (quotaError) return res.status(413).json(quotaError);
+    const { parentId, error: pathError } = resolveUploadFolder(parseParentId(req.body.parent_id), req.body.relative_path, req.user.uid);
+    if (pathError) return res.status(400).json({ error: pathError });
+
+    const partSize = Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PARTS));
+    const s3Key = `files/${randomUUID()}`;
+    const uploadId = await storage.createMultipartUpload(s3Key, {
+      contentType: mimetype,
+      metadata: { originalName: name.trim(), uploadedAt: new Date().toISOString() },
+    });
+
+    const sessionId = randomUUID();
+    insertUploadSession.run(
+      sessionId, req.user.uid, req.user.email, name.trim(), size, mimetype, parentId, s3Key, uploadId, partSize, vault.encryption
+    );
+    res.status(201).json(formatUploadSession(getUploadSession.get(sessionId, req.user.uid)));
+  } catch (e) {
+    console.error('Initiate upload error:', e);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+});
+
+// Upload status, used by clients to resume: which parts S3 already has
+app.get('/api/uploads/:uploadId', (req, res) => {
+  try {
+    const session = getUploadSession.get(req.params.uploadId, req.user.uid);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    res.json(formatUploadSession(session));
+  } catch (e) {
+    console.error('Upload status error:', e);
+    res.status(500).json({ error: 'Failed to fetch upload status' });
+  }
+});
+
+// Upload one part as a raw octet-stream body; re-sending a part replaces it
+app.put(
+  '/api/uploads/:uploadId/parts/:partNumber',
+  uploadPartLimiter,
+  express.raw({ type: 'application/octet-stream', limit: MIN_PART_SIZE * 2 + Math.ceil(MAX_UPLOAD_BYTES / MAX_PARTS) }),
+  async (req, res) => {
+    try {
+      const session = getUploadSession.get(req.params.uploadId, req.user.uid);
+      if (!session) return res.status(404).json({ error: 'Upload not found' });
+      const partNumber = parseInt(req.params.partNumber);
+      if (!(partNumber >= 1 && partNumber <= uploadPartCount(session))) {
+        return res.status(400).json({ error: 'Invalid part number' });
+      }
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (body.length !== expectedPartSize(session, partNumber)) {
+        return res.status(400).json({ error: `Part ${partNumber} must be ${expectedPartSize(session, partNumber)} bytes` });
+      }
+
+      // The first part holds the magic bytes; the upload takes on the type they show (vault
+      // ciphertext has none to show)
+      if (partNumber === 1 && !session.encryption) {
+        const sniffed = checkContentType(session.content_type, body.subarray(0, SNIFF_BYTES));
+        if (sniffed.error) return res.status(400).json(sniffed);
+        updateUploadSessionType.run(sniffed.contentType, session.id);
+      }
+
+      const etag = await storage.uploadPart(session.s3_key, session.s3_upload_id, partNumber, body);
+      upsertUploadPart.run(session.id, partNumber, etag, body.length);
+      touchUploadSession.run(session.id);
+      res.json({ part_number: partNumber, size: body.length });
+    } catch (e) {
+      console.error('Upload part error:', e);
+      res.status(500).json({ error: 'Failed to upload part' });
+    }
+  }
+);
+
+// Finish a resumable upload once every part is in; creates the file row
+app.post('/api/uploads/:uploadId/complete', uploadLimiter, async (req, res) => {
+  try {
+    const session = getUploadSession.get(req.params.uploadId, req.user.uid);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    const parts = selectUploadParts.all(session.id);
+    if (parts.length !== uploadPartCount(session)) {
+      return res.status(409).json({ error: 'Upload is missing parts', ...formatUploadSession(session) });
+    }
+    const parentError = checkParentFolder(session.parent_id, req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+
+    await storage.completeMultipartUpload(
+      session.s3_key,
+      session.s3_upload_id,
+      parts.map(part => ({ partNumber: part.part_number, etag: part.etag }))
+    );
+    const name = availableFileName(session.name, session.parent_id, req.user.uid);
+    const fileId = insertFileWithVersion(
+      name, session.size, session.content_type, session.s3_key, session.parent_id, req.user, null, session.encryption
+    );
+    deleteUploadSession(session.id);
+    jobs.enqueue('hash_object', { s3Key: session.s3_key });
+    queueNewContent(fileId, session.s3_key, session.content_type, session.encryption);
+    logActivity(req.user, 'upload', 'file', { id: fileId, name, owner_id: req.user.uid }, { size: session.size });
+    trackFileAccess(req.user.uid, fileId, 'modified');
+    publishFileEvent('file.created', fileId);
+    notifyWebhooks('file.uploaded', getFileRecord.get(fileId));
+    res.status(201).json(formatFileDetails(getFileById.get(fileId, req.user.uid)));
+  } catch (e) {
+    console.error('Complete upload error:', e);
+    res.status(500).json({ error: 'Failed to complete upload' });
+  }
+});
+
+// Abandon a resumable upload and discard its parts
+app.delete('/api/uploads/:uploadId', async (req, res) => {
+  try {
+    const session = getUploadSession.get(req.params.uploadId, req.user.uid);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    await storage.abortMultipartUpload(session.s3_key, session.s3_upload_id);
+    deleteUploadSession(session.id);
+    res.json({ message: 'Upload aborted' });
+  } catch (e) {
+    console.error('Abort upload error:', e);
+    res.status(500).json({ error: 'Failed to abort upload' });
+  }
+});
+
+// Files other users have shared with the caller (paginated)
+app.get('/api/files/shared', (req, res) => {
+  try {
+    const { page, limit, offset } = parsePagination(req.query);
+    const email = (req.user.email || '').toLowerCase();
+
+    const files = email ? selectSharedWithUser.all(email, limit, offset) : [];
+    const totalCount = email ? countSharedWithUser.get(email).count : 0;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({ files: files.map(formatFileDetails), pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 } });
+  } catch (e) {
+    console.error('Error fetching shared files:', e);
+    res.status(500).json({ error: 'Failed to fetch shared files' });
+  }
+});
+
+// List a file's user grants and public links (links only for the owner)
+app.get('/api/files/:id/shares', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user, 'editor');
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    res.json({
+      shares: selectFileShares.all(fileId),
+      links: file.access_role === 'owner' ? selectFileLinks.all(fileId).map(formatShareLink) : [],
+    });
+  } catch (e) {
+    console.error('Error fetching shares:', e);
+    res.status(500).json({ error: 'Failed to fetch shares' });
+  }
+});
+
+// Grant (or change) a user's access to a file
+app.post('/api/files/:id/shares', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user, 'editor');
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    // Only the owner's passphrase decrypts a vault file
+    if (file.encryption) return res.status(400).json({ error: 'Vault files cannot be shared', code: 'VAULT_FILE' });
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+    const role = req.body.role || 'viewer';
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) return res.status(400).json({ error: 'A valid email is required' });
+    if (role !== 'viewer' && role !== 'editor') return res.status(400).json({ error: 'Role must be viewer or editor' });
+    if (email === (req.user.email || '').toLowerCase()) return res.status(400).json({ error: 'You already have access to this file' });
+    upsertFileShare.run(fileId, email, role, req.user.uid, req.user.email);
+    logActivity(req.user, 'share', 'file', file, { email, role });
+    fileEvents.publish('file.created', { file: formatFileDetails({ ...getFileRecord.get(fileId), share_role: role }) }, { emails: [email] });
+    res.status(201).json(getFileShare.get(fileId, email));
+  } catch (e) {
+    console.error('Share error:', e);
+    res.status(500).json({ error: 'Failed to share file' });
+  }
+});
+
+// Revoke a user's access to a file
+app.delete('/api/files/:id/shares/:shareId', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user, 'editor');
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const share = getFileShareById.get(parseInt(req.params.shareId), fileId);
+    if (!share) return res.status(404).json({ error: 'Share not found' });
+    deleteFileShare.run(share.id, fileId);
+    logActivity(req.user, 'unshare', 'file', file, { email: share.grantee_email });
+    publishFileDeleted(fileId, { emails: [share.grantee_email] });
+    res.json({ message: 'Share revoked' });
+  } catch (e) {
+    console.error('Revoke share error:', e);
+    res.status(500).json({ error: 'Failed to revoke share' });
+  }
+});
+
+// Create a public link with optional expiry (hours), password and download limit
+app.post('/api/files/:id/links', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = getFileById.get(fileId, req.user.uid);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    if (file.trashed) return res.status(400).json({ error: 'Cannot share a file in trash' });
+    // Someone opening the link would get ciphertext they have no key for
+    if (file.encryption) return res.status(400).json({ error: 'Vault files cannot be shared by public link', code: 'VAULT_FILE' });
+
+    const { expires_in_hours: expiresInHours, password, max_downloads: maxDownloads } = req.body;
+    let expiresAt = null;
+    if (expiresInHours !== undefined && expiresInHours !== null && expiresInHours !== '') {
+      const hours = Number(expiresInHours);
+      if (!(hours > 0)) return res.status(400).json({ error: 'expires_in_hours must be a positive number' });
+      expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+    }
+    let downloadLimit = null;
+    if (maxDownloads !== undefined && maxDownloads !== null && maxDownloads !== '') {
+      downloadLimit = parseInt(maxDownloads);
+      if (!(downloadLimit > 0)) return res.status(400).json({ error: 'max_downloads must be a positive integer' });
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const result = insertShareLink.run(
+      fileId, token, req.user.uid, expiresAt, password ? hashSharePassword(String(password)) : null, downloadLimit
+    );
+    logActivity(req.user, 'share', 'file', file, { via: 'link', link_id: Number(result.lastInsertRowid) });
+    res.status(201).json(formatShareLink(getShareLinkById.get(result.lastInsertRowid)));
+  } catch (e) {
+    console.error('Create link error:', e);
+    res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+// Revoke a public link
+app.delete('/api/files/:id/links/:linkId', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = getFileById.get(fileId, req.user.uid);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const linkId = parseInt(req.params.linkId);
+    const result = deleteShareLink.run(linkId, fileId);
+    if (result.changes === 0) return res.status(404).json({ error: 'Share link not found' });
+    logActivity(req.user, 'unshare', 'file', file, { via: 'link', link_id: linkId });
+    res.json({ message: 'Share link revoked' });
+  } catch (e) {
+    console.error('Revoke link error:', e);
+    res.status(500).json({ error: 'Failed to revoke share link' });
+  }
+});
+
+// Move a file into another folder (or the root)
+app.post('/api/files/:id/move', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = getFileById.get(fileId, req.user.uid);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const parentId = parseParentId(req.body.parent_id);
+    const parentError = checkParentFolder(parentId, req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+    if (findSiblingFile.get(parentId, file.owner_id, file.name, fileId)) {
+      return res.status(409).json({
+        error: 'A file with that name already exists there',
+        code: 'NAME_CONFLICT',
+        suggestion: availableFileName(file.name, parentId, file.owner_id, fileId),
+      });
+    }
+    updateFileParent.run(parentId, fileId);
+    logActivity(req.user, 'move', 'file', file, { from: file.parent_id, to: parentId });
+    publishFileEvent('file.updated', fileId);
+    res.json({ message: 'File moved', parent_id: parentId });
+  } catch (e) {
+    console.error('Move error:', e);
+    res.status(500).json({ error: 'Failed to move file' });
+  }
+});
+
+// File details: description, metadata and the caller's access role
+app.get('/api/files/:id', (req, res) => {
+  try {
+    const file = findAccessibleFile(parseInt(req.params.id), req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    res.json(formatFileDetails(file.access_role === 'owner' ? withTags([file])[0] : file));
+  } catch (e) {
+    console.error('File details error:', e);
+    res.status(500).json({ error: 'Failed to fetch file details' });
+  }
+});
+
+// Rename a file and/or change its description and metadata (owner or editor)
+app.patch('/api/files/:id', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user, 'editor');
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    if (file.trashed) return res.status(400).json({ error: 'File is in trash' });
+    const { name, description, metadata } = req.body;
+    const updated = { name: file.name, description: file.description, metadata: file.metadata };
+
+    if (name !== undefined) {
+      const nameError = validateFileName(name);
+      if (nameError) return res.status(400).json({ error: nameError });
+      updated.name = name.trim();
+      if (updated.name !== file.name && findSiblingFile.get(file.parent_id, file.owner_id, updated.name, fileId)) {
+        return res.status(409).json({
+          error: 'A file with that name already exists here',
+          code: 'NAME_CONFLICT',
+          suggestion: availableFileName(updated.name, file.parent_id, file.owner_id, fileId),
+        });
+      }
+    }
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') return res.status(400).json({ error: 'description must be a string' });
+      if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+        return res.status(400).json({ error: `description can be at most ${MAX_DESCRIPTION_LENGTH} characters` });
+      }
+      updated.description = description?.trim() || null;
+    }
+    if (metadata !== undefined) {
+      const parsed = parseFileMetadata(metadata);
+      if (parsed.error) return res.status(400).json({ error: parsed.error });
+      updated.metadata = parsed.metadata;
+    }
+
+    updateFileDetails.run(updated.name, updated.description, updated.metadata, fileId);
+    trackFileAccess(req.user.uid, fileId, 'modified');
+    publishFileEvent('file.updated', fileId);
+    if (updated.name !== file.name) {
+      logActivity(req.user, 'rename', 'file', { ...file, name: updated.name }, { from: file.name });
+    }
+    const changedFields = ['description', 'metadata'].filter(field => updated[field] !== file[field]);
+    if (changedFields.length) logActivity(req.user, 'update', 'file', { ...file, name: updated.name }, { fields: changedFields });
+    res.json(formatFileDetails(findAccessibleFile(fileId, req.user)));
+  } catch (e) {
+    console.error('Update file error:', e);
+    res.status(500).json({ error: 'Failed to update file' });
+  }
+});
+
+// Copy a file into the caller's drive: next to the original for its owner, at the root for
+// anyone it's shared with, unless parent_id says otherwise. The stored content isn't duplicated.
+app.post('/api/files/:id/copy', async (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = findAccessibleFile(fileId, req.user);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    if (file.trashed) return res.status(400).json({ error: 'File is in trash' });
+    if (file.scan_status === 'quarantined') return res.status(409).json(scanBlockError(file));
+    // A copy keeps the ciphertext, which only the owner can open
+    if (file.encryption && file.owner_id !== req.user.uid) {
+      return res.status(400).json({ error: 'Only the owner can copy a vault file', code: 'VAULT_FILE' });
+    }
+    const parentId = req.body.parent_id !== undefined
+      ? parseParentId(req.body.parent_id)
+      : file.owner_id === req.user.uid ? file.parent_id : null;
+    const parentError = checkParentFolder(parentId, req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+    const requestedName = req.body.name ?? file.name;
+    const nameError = validateFileName(requestedName);
+    if (nameError) return res.status(400).json({ error: nameError });
+    const quotaError = checkQuota(req.user.uid, file.size);
+    if (quotaError) return res.status(413).json(quotaError);
+
+    const name = availableFileName(requestedName.trim(), parentId, req.user.uid);
+    const s3Key = `files/${randomUUID()}`;
+    const { sha256 } = await storage.copy(file.s3_key, s3Key);
+    const copyId = insertFileCopy(file, name, s3Key, parentId, req.user, sha256);
+    if (file.scan_status === 'pending') jobs.enqueue('scan_object', { s3Key });
+    else queueFileProcessing(copyId, file.content_type);
+    const copy = getFileById.get(copyId, req.user.uid);
+    logActivity(req.user, 'create', 'file', copy, { copied_from: fileId });
+    trackFileAccess(req.user.uid, copyId, 'modified');
+    publishFileEvent('file.created', copyId);
+    notifyWebhooks('file.uploaded', copy);
+    res.status(201).json(formatFileDetails(copy));
+  } catch (e) {
+    console.error('Copy file error:', e);
+    res.status(500).json({ error: 'Failed to copy file' });
+  }
+});
+
+// The user's tags, with how many files (outside trash) carry each
+app.get('/api/tags', (req, res) => {
+  try {
+    res.json({ tags: selectTags.all(req.user.uid) });
+  } catch (e) {
+    console.error('Error fetching tags:', e);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+app.post('/api/tags', (req, res) => {
+  try {
+    const { name, color } = req.body;
+    const tagError = validateTagName(name) || validateTagColor(color);
+    if (tagError) return res.status(400).json({ error: tagError });
+    if (findTagByName.get(req.user.uid, name.trim(), 0)) return res.status(409).json({ error: 'You already have a tag with that name' });
+    const result = insertTag.run(req.user.uid, name.trim(), color.toLowerCase());
+    res.status(201).json({ ...getTagById.get(result.lastInsertRowid, req.user.uid), file_count: 0 });
+  } catch (e) {
+    console.error('Create tag error:', e);
+    res.status(500).json({ error: 'Failed to create tag' });
+  }
+});
+
+// Rename and/or recolour a tag
+app.patch('/api/tags/:id', (req, res) => {
+  try {
+    const tag = getTagById.get(parseInt(req.params.id), req.user.uid);
+    if (!tag) return res.status(404).json({ error: 'Tag not found' });
+    const { name = tag.name, color = tag.color } = req.body;
+    const tagError = validateTagName(name) || validateTagColor(color);
+    if (tagError) return res.status(400).json({ error: tagError });
+    if (findTagByName.get(req.user.uid, name.trim(), tag.id)) return res.status(409).json({ error: 'You already have a tag with that name' });
+    updateTag.run(name.trim(), color.toLowerCase(), tag.id);
+    res.json(getTagById.get(tag.id, req.user.uid));
+  } catch (e) {
+    console.error('Update tag error:', e);
+    res.status(500).json({ error: 'Failed to update tag' });
+  }
+});
+
+// Delete a tag; files that carried it are left as they are
+app.delete('/api/tags/:id', (req, res) => {
+  try {
+    const tag = getTagById.get(parseInt(req.params.id), req.user.uid);
+    if (!tag) return res.status(404).json({ error: 'Tag not found' });
+    deleteTag(tag.id);
+    res.json({ message: 'Tag deleted' });
+  } catch (e) {
+    console.error('Delete tag error:', e);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+// Attach one of the user's tags to one of their files (see POST /api/files/batch for many)
+app.post('/api/files/:id/tags', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = getFileById.get(fileId, req.user.uid);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const tag = getTagById.get(parseInt(req.body.tag_id), req.user.uid);
+    if (!tag) return res.status(400).json({ error: 'tag_id must be one of your tags' });
+    if (attachFileTag.run(fileId, tag.id).changes) {
+      logActivity(req.user, 'tag', 'file', file, { tag: tag.name });
+      publishFileEvent('file.updated', fileId);
+    }
+    res.status(201).json({ tags: withTags([file])[0].tags });
+  } catch (e) {
+    console.error('Tag file error:', e);
+    res.status(500).json({ error: 'Failed to tag file' });
+  }
+});
+
+app.delete('/api/files/:id/tags/:tagId', (req, res) => {
+  try {
+    const fileId = parseInt(req.params.id);
+    const file = getFileById.get(fileId, req.user.uid);
+    if (!file) return res.status(404).json({ error: 'File not found' });
+    const tag = getTagById.get(parseInt(req.params.tagId), req.user.uid);
+    if (!tag) return res.status(404).json({ error: 'Tag not found' });
+    if (detachFileTag.run(fileId, tag.id).changes) {
+      logActivity(req.user, 'untag', 'file', file, { tag: tag.name });
+      publishFileEvent('file.updated', fileId);
+    }
+    res.json({ tags: withTags([file])[0].tags });
+  } catch (e) {
+    console.error('Untag file error:', e);
+    res.status(500).json({ error: 'Failed to remove tag' });
+  }
+});
+
+// List every folder (used to build the sidebar tree and the Trash view)
+app.get('/api/folders', (req, res) => {
+  try {
+    res.json({ folders: selectAllFolders.all(req.user.uid) });
+  } catch (e) {
+    console.error('Error fetching folders:', e);
+    res.status(500).json({ error: 'Failed to fetch folders' });
+  }
+});
+
+// Create a folder
+app.post('/api/folders', (req, res) => {
+  try {
+    const { name } = req.body;
+    const nameError = validateFolderName(name);
+    if (nameError) return res.status(400).json({ error: nameError });
+    const parentId = parseParentId(req.body.parent_id);
+    const parentError = checkParentFolder(parentId, req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+    if (findSiblingFolder.get(parentId, req.user.uid, name.trim(), 0)) {
+      return res.status(409).json({ error: 'A folder with that name already exists here' });
+    }
+    const result = insertFolder.run(name.trim(), parentId, req.user.uid);
+    const folder = getFolderById.get(result.lastInsertRowid, req.user.uid);
+    logActivity(req.user, 'create', 'folder', folder);
+    res.status(201).json(folder);
+  } catch (e) {
+    console.error('Create folder error:', e);
+    res.status(500).json({ error: 'Failed to create folder' });
+  }
+});
+
+// List a folder's children along with its breadcrumb path ("root" for the top level).
+// Files accept the same q/type/size/date/sort filters as GET /api/files.
+app.get('/api/folders/:id/children', (req, res) => {
+  try {
+    let folder = null;
+    if (req.params.id !== 'root') {
+      folder = getFolderById.get(parseInt(req.params.id), req.user.uid);
+      if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    }
+    const parentId = folder ? folder.id : null;
+    const { page, limit, offset } = parsePagination(req.query);
+
+    const fileQuery = buildFileQuery({ ...req.query, section: 'drive' }, req.user.uid);
+    if (fileQuery.error) return res.status(400).json({ error: fileQuery.error });
+    const where = `${fileQuery.where} AND parent_id IS ?`;
+    const params = [...fileQuery.params, parentId];
+
+    const folders = selectChildFolders.all(parentId, req.user.uid);
+    const files = db.prepare(`SELECT * FROM files WHERE ${where} ORDER BY ${fileQuery.orderBy} LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset);
+    const totalCount = db.prepare(`SELECT COUNT(*) as count FROM files WHERE ${where}`).get(...params).count;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      folder,
+      path: folder ? selectFolderPath.all(folder.id) : [],
+      folders,
+      files: withTags(files).map(formatFileDetails),
+      pagination: { currentPage: page, totalItems: totalCount, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 },
+    });
+  } catch (e) {
+    console.error('Error fetching folder children:', e);
+    res.status(500).json({ error: 'Failed to fetch folder contents' });
+  }
+});
+
+// Rename a folder
+app.put('/api/folders/:id', (req, res) => {
+  try {
+    const folderId = parseInt(req.params.id);
+    const folder = getFolderById.get(folderId, req.user.uid);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    const { name } = req.body;
+    const nameError = validateFolderName(name);
+    if (nameError) return res.status(400).json({ error: nameError });
+    if (findSiblingFolder.get(folder.parent_id, req.user.uid, name.trim(), folderId)) {
+      return res.status(409).json({ error: 'A folder with that name already exists here' });
+    }
+    updateFolderName.run(name.trim(), folderId);
+    logActivity(req.user, 'rename', 'folder', { ...folder, name: name.trim() }, { from: folder.name });
+    res.json(getFolderById.get(folderId, req.user.uid));
+  } catch (e) {
+    console.error('Rename folder error:', e);
+    res.status(500).json({ error: 'Failed to rename folder' });
+  }
+});
+
+// Move a folder under another folder (or the root)
+app.post('/api/folders/:id/move', (req, res) => {
+  try {
+    const folderId = parseInt(req.params.id);
+    const folder = getFolderById.get(folderId, req.user.uid);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    const parentId = parseParentId(req.body.parent_id);
+    const parentError = checkParentFolder(parentId, req.user.uid);
+    if (parentError) return res.status(400).json({ error: parentError });
+    if (parentId !== null && selectSubtreeFolderIds.all(folderId).some(row => row.id === parentId)) {
+      return res.status(400).json({ error: 'Cannot move a folder into itself' });
+    }
+    if (findSiblingFolder.get(parentId, req.user.uid, folder.name, folderId)) {
+      return res.status(409).json({ error: 'A folder with that name already exists there' });
+    }
+    updateFolderParent.run(parentId, folderId);
+    logActivity(req.user, 'move', 'folder', folder, { from: folder.parent_id, to: parentId });
+    res.json({ message: 'Folder moved', parent_id: parentId });
+  } catch (e) {
+    console.error('Move folder error:', e);
+    res.status(500).json({ error: 'Failed to move folder' });
+  }
+});
+
+// Move a folder and everything inside it that isn't already there to trash
+app.post('/api/folders/:id/trash', (req, res) => {
+  try {
+    const folderId = parseInt(req.params.id);
+    const folder = getFolderById.get(folderId, req.user.uid);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    const files = trashFolderTree(folderId);
+    logActivity(req.user, 'trash', 'folder', folder);
+    files.forEach(file => publishFileEvent('file.trashed', file.id));
+    res.json({ message: 'Folder moved to trash' });
+  } catch (e) {
+    console.error('Trash folder error:', e);
+    res.status(500).json({ error: 'Failed to move folder to trash' });
+  }
+});
+
+// Restore a folder and everything that went to trash with it; items trashed earlier stay there
+app.post('/api/folders/:id/restore', (req, res) => {
+  try {
+    const folderId = parseInt(req.params.id);
+    const folder = getFolderById.get(folderId, req.user.uid);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    const files = restoreFolderTree(folder);
+    updateFolderParent.run(restoreParentId(folder.parent_id, req.user.uid), folderId);
+    logActivity(req.user, 'restore', 'folder', folder);
+    files.forEach(file => publishFileEvent('file.restored', file.id));
+    res.json({ message: 'Folder restored' });
+  } catch (e) {
+    console.error('Restore folder error:', e);
+    res.status(500).json({ error: 'Failed to restore folder' });
+  }
+});
+
+// Permanently delete a folder, its subfolders and their files
+app.delete('/api/folders/:id', async (req, res) => {
+  try {
+    const folderId = parseInt(req.params.id);
+    const folder = getFolderById.get(folderId, req.user.uid);
+    if (!folder) return res.status(404).json({ error: 'Folder not found' });
+    const deletedFiles = await purgeFolderTree(folderId);
+    logActivity(req.user, 'delete', 'folder', folder, { deletedFiles });
+    res.json({ message: 'Folder deleted permanently', deletedFiles });
+  } catch (e) {
+    console.error('Delete folder error:', e);
+    res.status(500).json({ error: 'Failed to delete folder' });
+  }
+});
+
+// Empty trash: permanently delete every trashed file and folder the user owns. An item that can't
+// be removed from storage stays in trash and is counted in failed; the rest are still deleted.
+app.delete('/api/trash', async (req, res) => {
+  try {
+    let deletedFiles = 0;
+    let deletedFolders = 0;
+    let failed = 0;
+    for (const file of selectTrashedFiles.all(req.user.uid)) {
+      try {
+        await purgeFile(file.id);
+        logActivity(req.user, 'delete', 'file', file, { emptyTrash: true });
+        deletedFiles++;
+      } catch (e) {
+        console.error(`Failed to purge trashed file ${file.id}:`, e);
+        failed++;
+      }
+    }
+    for (const folder of selectTrashedFolders.all(req.user.uid)) {
+      if (!getFolderById.get(folder.id, req.user.uid)) continue;
+      try {
+        const folderFiles = await purgeFolderTree(folder.id);
+        logActivity(req.user, 'delete', 'folder', folder, { emptyTrash: true, deletedFiles: folderFiles });
+        deletedFiles += folderFiles;
+        deletedFolders++;
+      } catch (e) {
+        console.error(`Failed to purge trashed folder ${folder.id}:`, e);
+        failed++;
+      }
+    }
+    const message = failed ? `Trash emptied except for ${failed} item(s) that could not be deleted` : 'Trash emptied';
+    res.json({ message, deletedFiles, deletedFolders, failed });
+  } catch (e) {
+    console.error('Empty trash error:', e);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
 // Error handling middleware
 app.use((error, req, res, next) => {
   console.error('Server error:', error);
-  if (error.code === 'LIMIT_FILE_SIZE') return res.status(413).json({ error: 'File too large' });
-  if (error.message === 'Invalid file type') return res.status(400).json({ error: 'Invalid file type' });
+  if (error.code === 'LIMIT_FILE_SIZE') return res.status(413).json(fileTooLargeError(MAX_SIMPLE_UPLOAD_BYTES));
+  if (error.type === 'entity.too.large') return res.status(413).json({ error: 'Request body too large' });
+  if (error.message === 'Invalid file type') return res.status(400).json(invalidFileTypeError(error.contentType));
   res.status(500).json({ error: 'Internal server error' });
 });
 
@@ -339,9 +3363,23 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
+// Background jobs
+setInterval(abortStaleUploads, 60 * 60 * 1000).unref();
+abortStaleUploads();
+setInterval(purgeExpiredTrash, 60 * 60 * 1000).unref();
+purgeExpiredTrash();
+if (STORAGE_VERIFY_DAYS > 0) {
+  setInterval(() => jobs.enqueue('verify_storage', {}), 24 * 60 * 60 * 1000).unref();
+  jobs.enqueue('verify_storage', {});
+}
+jobs.start();
+webhooks.start();
+
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Server running on http://0.0.0.0:${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV}`);
   console.log(`🗄️ Database: ${dbPath}`);
-  console.log(`☁️ S3 Bucket: ${process.env.S3_BUCKET}`);
+  console.log(`☁️ Storage: ${storage.name}`);
+  console.log(`🛡️ Malware scanner: ${scanner ? scanner.name : 'none'}`);
+  console.log(`🔐 Auth provider: ${process.env.AUTH_PROVIDER || 'firebase'}`);
 });
@@ -0,0 +1,53 @@
+import { once } from 'node:events';
+import { ZipArchive } from 'archiver';
+import { contentTypeFamily } from './contentTypes.js';
+
+// Already-compressed formats are stored as-is; deflating them again only costs CPU
+const STORED_FAMILIES = new Set(['image', 'video', 'audio', 'archive']);
+
+// Path-safe entry name that doesn't clash with earlier entries ("report (1).pdf")
+const uniqueEntryName = (name, used) => {
+  const safeName = name.replace(/[\\/]/g, '_').replace(/^\.+$/, '_') || 'file';
+  const dot = safeName.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [safeName.slice(0, dot), safeName.slice(dot)] : [safeName, ''];
+  let candidate = safeName;
+  for (let n = 1; used.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})${extension}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Streams file rows (name, s3_key, content_type, created_at) into a ZIP written to `output`.
+// Objects are opened one at a time so a large selection doesn't hold hundreds of storage streams.
+export async function streamZipArchive(output, files, storage) {
+  const archive = new ZipArchive({ zlib: { level: 6 } });
+  let aborted = false;
+  let currentStream = null;
+  // Settles when the client goes away mid-download or archiver fails, so the loop below never waits forever
+  const interrupted = new Promise((resolve, reject) => {
+    output.on('close', () => {
+      if (output.writableFinished) return;
+      aborted = true;
+      archive.abort();
+      currentStream?.destroy();
+      resolve();
+    });
+    archive.on('error', reject);
+  });
+  interrupted.catch(() => {});
+  archive.on('warning', (e) => console.warn('Archive warning:', e));
+  archive.pipe(output);
+
+  const usedNames = new Set();
+  for (const file of files) {
+    if (aborted) return;
+    const { stream } = await storage.getStream(file.s3_key);
+    currentStream = stream;
+    archive.append(stream, {
+      name: uniqueEntryName(file.name, usedNames),
+      date: new Date(`${file.created_at.replace(' ', 'T')}Z`),
+      store: STORED_FAMILIES.has(contentTypeFamily(file.content_type)),
+    });
+    await Promise.race([once(archive, 'entry'), interrupted]);
+  }
+  if (!aborted) await Promise.race([archive.finalize(), interrupted]);
+}
@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// A verifier is an async function (token) => ({ uid, email }) that throws on a bad token.
+// Firebase is used in production; the local verifier lets tests and offline setups
+// sign their own HS256 tokens with AUTH_LOCAL_SECRET.
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+// Sign a token the local verifier accepts
+export function signLocalToken(secret, { uid, email }, expiresInSeconds = 3600) {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const now = Math.floor(Date.now() / 1000);
+  const payload = base64url(JSON.stringify({ sub: uid, email, iat: now, exp: now + expiresInSeconds }));
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+export function createLocalVerifier(secret) {
+  if (!secret) throw new Error('AUTH_LOCAL_SECRET is required for the local auth provider');
+
+  return async (token) => {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) throw new Error('Malformed token');
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new Error('Invalid token signature');
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!claims.sub) throw new Error('Token has no subject');
+    if (claims.exp && claims.exp < Math.floor(Date.now() / 1000)) throw new Error('Token expired');
+    return { uid: claims.sub, email: claims.email || null };
+  };
+}
+
+// firebase-admin is only loaded when this provider is selected
+export async function createFirebaseVerifier(projectId) {
+  if (!projectId) throw new Error('FIREBASE_PROJECT_ID is required for the firebase auth provider');
+  const { initializeApp } = await import('firebase-admin/app');
+  const { getAuth } = await import('firebase-admin/auth');
+  const firebaseAuth = getAuth(initializeApp({ projectId }));
+
+  return async (token) => {
+    const decoded = await firebaseAuth.verifyIdToken(token);
+    return { uid: decoded.uid, email: decoded.email || null };
+  };
+}
+
+// AUTH_PROVIDER picks the verifier: "firebase" (default) or "local"
+export async function createVerifierFromEnv(env = process.env) {
+  const provider = env.AUTH_PROVIDER || 'firebase';
+  if (provider === 'local') return createLocalVerifier(env.AUTH_LOCAL_SECRET);
+  if (provider === 'firebase') return createFirebaseVerifier(env.FIREBASE_PROJECT_ID);
+  throw new Error(`Unknown AUTH_PROVIDER: ${provider}`);
+}
+
+// Comma-separated ALLOWED_EMAILS; an empty list lets any verified user in
+export function parseAllowedEmails(value) {
+  return (value || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Express middleware: verifies the bearer token and sets req.user = { uid, email }
+export function authenticate(verifier, { allowedEmails = [], onAuthenticated } = {}) {
+  return async (req, res, next) => {
+    const header = req.get('Authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return res.status(401).json({ error: 'Authentication required' });
+
+    let user;
+    try {
+      user = await verifier(match[1]);
+    } catch (e) {
+      console.warn('Token verification failed:', e.message);
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    if (allowedEmails.length && !allowedEmails.includes((user.email || '').toLowerCase())) {
+      return res.status(403).json({ error: 'This account is not allowed to use the drive' });
+    }
+
+    req.user = user;
+    if (onAuthenticated) onAuthenticated(user);
+    next();
+  };
+}
@@ -0,0 +1,125 @@
+import { open } from 'node:fs/promises';
+import { contentTypeFamily } from './contentTypes.js';
+
+// Content-type detection from a file's leading bytes, so the stored type comes from what a file is
+// rather than from the label the browser sent with it
+
+// Enough to reach the tar header at offset 257 and a PE header behind a DOS stub
+export const SNIFF_BYTES = 4096;
+
+const at = (buffer, offset, signature) => {
+  const bytes = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature);
+  return buffer.length >= offset + bytes.length && buffer.subarray(offset, offset + bytes.length).equals(bytes);
+};
+
+// A DOS header whose e_lfanew points at a "PE\0\0" signature
+const isPortableExecutable = (buffer) =>
+  at(buffer, 0, 'MZ') && buffer.length >= 64 && at(buffer, buffer.readUInt32LE(0x3c), 'PE\0\0');
+
+const MACH_O_MAGICS = [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe]];
+
+// Checked in order and the first match wins, so the specific ftyp brands come before plain MP4
+const SIGNATURES = [
+  ['image/png', b => at(b, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  ['image/jpeg', b => at(b, 0, [0xff, 0xd8, 0xff])],
+  ['image/gif', b => at(b, 0, 'GIF87a') || at(b, 0, 'GIF89a')],
+  ['image/webp', b => at(b, 0, 'RIFF') && at(b, 8, 'WEBP')],
+  ['image/tiff', b => at(b, 0, [0x49, 0x49, 0x2a, 0x00]) || at(b, 0, [0x4d, 0x4d, 0x00, 0x2a])],
+  ['image/avif', b => at(b, 4, 'ftypavif')],
+  ['image/heic', b => ['heic', 'heix', 'mif1'].some(brand => at(b, 4, `ftyp${brand}`))],
+  ['video/quicktime', b => at(b, 4, 'ftypqt')],
+  ['audio/mp4', b => at(b, 4, 'ftypM4A')],
+  ['video/mp4', b => at(b, 4, 'ftyp')],
+  ['video/webm', b => at(b, 0, [0x1a, 0x45, 0xdf, 0xa3])],
+  ['audio/ogg', b => at(b, 0, 'OggS')],
+  ['audio/flac', b => at(b, 0, 'fLaC')],
+  ['audio/wav', b => at(b, 0, 'RIFF') && at(b, 8, 'WAVE')],
+  ['video/x-msvideo', b => at(b, 0, 'RIFF') && at(b, 8, 'AVI ')],
+  // An ID3 tag, or the frame sync of an MPEG layer III frame
+  ['audio/mpeg', b => at(b, 0, 'ID3') || (b.length >= 2 && b[0] === 0xff && (b[1] & 0xe0) === 0xe0 && (b[1] & 0x06) === 0x02)],
+  ['application/pdf', b => at(b, 0, '%PDF-')],
+  ['application/zip', b => at(b, 0, 'PK\x03\x04') || at(b, 0, 'PK\x05\x06')],
+  ['application/gzip', b => at(b, 0, [0x1f, 0x8b])],
+  ['application/x-bzip2', b => at(b, 0, 'BZh')],
+  ['application/x-7z-compressed', b => at(b, 0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])],
+  ['application/x-rar-compressed', b => at(b, 0, 'Rar!\x1a\x07')],
+  ['application/x-tar', b => at(b, 257, 'ustar')],
+  // OLE2 compound documents: legacy Office files and MSI installers
+  ['application/x-ole-storage', b => at(b, 0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])],
+  ['application/x-msdownload', isPortableExecutable],
+  ['application/x-executable', b => at(b, 0, [0x7f, 0x45, 0x4c, 0x46])],
+  ['application/x-mach-binary', b => MACH_O_MAGICS.some(magic => at(b, 0, magic))],
+];
+
+// Other names a declared type may use for what a signature shows, and formats built on it
+// (an .docx is a ZIP, a .doc an OLE2 file)
+const COMPATIBLE_TYPES = {
+  'image/jpeg': [/^image\/p?jpe?g$/],
+  'image/heic': [/^image\/hei[cf](-sequence)?$/],
+  'video/quicktime': [/^video\//],
+  'audio/mp4': [/^audio\//],
+  'video/mp4': [/^(video|audio)\//],
+  'video/webm': [/^(video|audio)\/(webm|x-matroska)$/],
+  'audio/ogg': [/^(audio|video|application)\/ogg$/, /^audio\/(opus|vorbis)$/],
+  'audio/flac': [/^audio\/x-flac$/],
+  'audio/wav': [/^audio\/(x-wav|wave|vnd\.wave)$/],
+  'video/x-msvideo': [/^video\/(avi|msvideo)$/],
+  'audio/mpeg': [/^audio\/(mp3|x-mp3|mpeg3|x-mpeg)$/],
+  'application/zip': [
+    /^application\/(x-zip-compressed|epub\+zip|java-archive|vnd\.android\.package-archive)$/,
+    /^application\/vnd\.openxmlformats-officedocument\./,
+    /^application\/vnd\.oasis\.opendocument\./,
+  ],
+  'application/gzip': [/^application\/x-gzip$/],
+  'application/x-rar-compressed': [/^application\/(vnd\.rar|x-rar)$/],
+  'application/x-ole-storage': [/^application\/(msword|vnd\.ms-excel|vnd\.ms-powerpoint|vnd\.ms-outlook|x-msi)$/],
+  'application/x-msdownload': [/^application\/(x-msdos-program|x-dosexec|vnd\.microsoft\.portable-executable)$/],
+};
+
+// Types that run as programs; never accepted under another label
+const EXECUTABLE_TYPES = ['application/x-msdownload', 'application/x-executable', 'application/x-mach-binary'];
+
+const isCompatible = (detected, declared) =>
+  detected === declared || (COMPATIBLE_TYPES[detected] || []).some(pattern => pattern.test(declared));
+
+// A declared type we'd recognise from its bytes if they really were that format. Audio and video
+// are left out: plenty of streams (raw AAC, MPEG-TS) have no signature in the table.
+const isRecognisable = (declared) =>
+  SIGNATURES.some(([type]) => isCompatible(type, declared)) && !/^(video|audio)\//.test(declared);
+
+// The type whose signature the bytes start with, or null
+export function sniffContentType(buffer) {
+  const match = SIGNATURES.find(([, matches]) => matches(buffer));
+  return match ? match[0] : null;
+}
+
+// The type to store an upload under, from its declared type and leading bytes: { contentType }
+// (the declared type when the bytes agree with it, otherwise what they show), or { error, code }
+// when the content can't be accepted under its label: a program under another type, or a format we
+// know how to recognise whose bytes don't match it
+export function checkContentType(declared, buffer) {
+  const type = (declared || 'application/octet-stream').toLowerCase();
+  if (buffer.length === 0) return { contentType: type };
+  const detected = sniffContentType(buffer);
+  if (detected && isCompatible(detected, type)) return { contentType: type };
+  if (detected && EXECUTABLE_TYPES.includes(detected)) {
+    return { error: `File content is a program (${detected}), not ${type}`, code: 'CONTENT_TYPE_MISMATCH' };
+  }
+  if (detected) return { contentType: detected };
+  if (isRecognisable(type)) return { error: `File content doesn't look like ${type}`, code: 'CONTENT_TYPE_MISMATCH' };
+  // Binary data isn't served as text
+  if (contentTypeFamily(type) === 'text' && buffer.includes(0)) return { contentType: 'application/octet-stream' };
+  return { contentType: type };
+}
+
+// The first SNIFF_BYTES of a file on disk
+export async function readFileHead(path) {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,47 @@
+// Content-type families used for filtering and usage breakdowns.
+// Patterns use SQL LIKE syntax so the same table drives queries and in-memory checks.
+export const CONTENT_TYPE_FAMILIES = {
+  image: ['image/%'],
+  video: ['video/%'],
+  audio: ['audio/%'],
+  document: [
+    'application/pdf',
+    'application/msword',
+    'application/rtf',
+    'application/vnd.ms-excel',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.%',
+    'application/vnd.oasis.opendocument.%',
+  ],
+  text: ['text/%', 'application/json', 'application/xml', 'application/javascript', 'application/x-yaml'],
+  archive: [
+    'application/zip',
+    'application/gzip',
+    'application/x-tar',
+    'application/x-7z-compressed',
+    'application/x-rar-compressed',
+    'application/x-bzip2',
+  ],
+};
+
+export const FAMILY_NAMES = [...Object.keys(CONTENT_TYPE_FAMILIES), 'other'];
+
+const likeToRegExp = (pattern) => new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*')}$`, 'i');
+
+const FAMILY_MATCHERS = Object.entries(CONTENT_TYPE_FAMILIES)
+  .map(([family, patterns]) => [family, patterns.map(likeToRegExp)]);
+
+export function contentTypeFamily(contentType = '') {
+  const match = FAMILY_MATCHERS.find(([, regexps]) => regexps.some(regexp => regexp.test(contentType)));
+  return match ? match[0] : 'other';
+}
+
+// SQL condition (with parameters) matching a family against the given column
+export function familySqlCondition(family, column = 'content_type') {
+  const allPatterns = Object.values(CONTENT_TYPE_FAMILIES).flat();
+  if (family === 'other') {
+    return { sql: `NOT (${allPatterns.map(() => `${column} LIKE ?`).join(' OR ')})`, params: allPatterns };
+  }
+  const patterns = CONTENT_TYPE_FAMILIES[family];
+  return { sql: `(${patterns.map(() => `${column} LIKE ?`).join(' OR ')})`, params: patterns };
+}
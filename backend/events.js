@@ -0,0 +1,44 @@
+// Change events pushed to open browser tabs over server-sent events. Each connection belongs to a
+// user (uid + email); an event goes to the connections of the users it names, by uid or by email
+// (shares are granted by email). Connections live in this process, so with several backend
+// instances a client only hears about changes made through the instance it is connected to.
+export function createEventHub({ heartbeatMs = 25000 } = {}) {
+  const clients = new Set();
+  let nextEventId = 1;
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => {
+    for (const client of clients) client.res.write(': ping\n\n');
+  }, heartbeatMs);
+  heartbeat.unref();
+
+  return {
+    // Turns the response into an event stream for the user until the client disconnects
+    subscribe(req, res, user) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write('retry: 5000\n\n');
+      const client = { res, uid: user.uid, email: (user.email || '').toLowerCase() };
+      clients.add(client);
+      req.on('close', () => clients.delete(client));
+    },
+
+    // audience: { uids, emails } of the users who can see what changed
+    publish(type, data, { uids = [], emails = [] }) {
+      const uidSet = new Set(uids);
+      const emailSet = new Set(emails.map(email => email.toLowerCase()));
+      const message = `id: ${nextEventId++}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+      for (const client of clients) {
+        if (uidSet.has(client.uid) || (client.email && emailSet.has(client.email))) client.res.write(message);
+      }
+    },
+
+    get connections() {
+      return clients.size;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// Parses a Range header against an object of the given size. Returns null when the whole
+// object should be sent (no header, or one we don't handle such as multiple ranges),
+// { start, end } (inclusive) for a single satisfiable range, or { unsatisfiable: true }.
+export function parseRange(header, size) {
+  if (!header || size === undefined) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start;
+  let end;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2]);
+    if (suffixLength === 0) return { unsatisfiable: true };
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+  if (start >= size || start > end) return { unsatisfiable: true };
+  return { start, end };
+}
@@ -0,0 +1,101 @@
+// Persistent background job queue backed by SQLite. Jobs run one at a time inside this
+// process; a failed job is retried with exponential backoff until maxAttempts is reached.
+export function createJobQueue(db, { pollIntervalMs = 2000, maxAttempts = 5, retryBaseSeconds = 30 } = {}) {
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      run_after DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_jobs_pending ON jobs (status, run_after)').run();
+
+  // Jobs left running by a crash or restart go back in the queue
+  db.prepare("UPDATE jobs SET status = 'pending' WHERE status = 'running'").run();
+
+  const insertJob = db.prepare('INSERT INTO jobs (type, payload) VALUES (?, ?)');
+  const selectNextJob = db.prepare(`
+    SELECT * FROM jobs WHERE status = 'pending' AND run_after <= CURRENT_TIMESTAMP ORDER BY id LIMIT 1
+  `);
+  const markRunning = db.prepare(`
+    UPDATE jobs SET status = 'running', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `);
+  const markDone = db.prepare("UPDATE jobs SET status = 'done', last_error = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+  const markRetry = db.prepare(`
+    UPDATE jobs SET status = 'pending', last_error = ?, run_after = datetime('now', ?), updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  const markFailed = db.prepare("UPDATE jobs SET status = 'failed', last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+  const purgeFinished = db.prepare(`
+    DELETE FROM jobs WHERE status IN ('done', 'failed') AND updated_at < datetime('now', '-7 days')
+  `);
+
+  const handlers = new Map();
+  let timer = null;
+  let running = false;
+
+  const runNext = async () => {
+    const job = selectNextJob.get();
+    if (!job) return false;
+    const handler = handlers.get(job.type);
+    markRunning.run(job.id);
+    try {
+      if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+      await handler(JSON.parse(job.payload));
+      markDone.run(job.id);
+    } catch (e) {
+      const attempts = job.attempts + 1;
+      if (attempts >= maxAttempts) {
+        console.error(`Job ${job.id} (${job.type}) failed permanently:`, e);
+        markFailed.run(String(e.message || e), job.id);
+      } else {
+        console.warn(`Job ${job.id} (${job.type}) failed, retrying:`, e.message || e);
+        markRetry.run(String(e.message || e), `+${retryBaseSeconds * 2 ** (attempts - 1)} seconds`, job.id);
+      }
+    }
+    return true;
+  };
+
+  // Drain everything that is due, then wait for the next poll
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      while (await runNext()) { /* keep draining */ }
+      purgeFinished.run();
+    } catch (e) {
+      console.error('Job queue error:', e);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    register(type, handler) {
+      handlers.set(type, handler);
+    },
+
+    enqueue(type, payload) {
+      insertJob.run(type, JSON.stringify(payload));
+      if (timer) setImmediate(tick);
+    },
+
+    start() {
+      if (timer) return;
+      timer = setInterval(tick, pollIntervalMs);
+      timer.unref();
+      setImmediate(tick);
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,549 @@
+import { TOKEN_SCOPES, acceptsAccessTokens, requiredScope } from './accessTokens.js';
+import { ACTIVITY_ACTIONS } from './activity.js';
+import { WEBHOOK_EVENTS } from './webhooks.js';
+
+// OpenAPI 3.1 description of the REST API. The paths come from the routes registered on the
+// Express app, so every route is listed even before it is described here; ROUTE_DOCS adds each
+// one's summary, parameters and request and response shapes.
+
+const string = { type: 'string' };
+const integer = { type: 'integer' };
+const boolean = { type: 'boolean' };
+const nullable = (schema) => ({ ...schema, type: [schema.type, 'null'] });
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items) => ({ type: 'array', items });
+const object = (properties, required = Object.keys(properties)) => ({ type: 'object', properties, required });
+// Timestamps are SQLite's "YYYY-MM-DD HH:MM:SS" in UTC
+const timestamp = { type: 'string', description: 'UTC timestamp' };
+// Booleans stored in SQLite come back as 0 or 1
+const flag = { type: 'integer', enum: [0, 1] };
+
+const SCHEMAS = {
+  Error: object({ error: string, code: string }, ['error']),
+  Message: object({ message: string }),
+  Moved: object({ message: string, parent_id: nullable(integer) }),
+  PaginationInfo: object({
+    currentPage: integer,
+    totalItems: integer,
+    totalPages: integer,
+    itemsPerPage: integer,
+    hasNext: boolean,
+    hasPrev: boolean,
+  }),
+  Tag: object({ id: integer, name: string, color: { type: 'string', pattern: '^#[0-9a-f]{6}$' } }),
+  TagItem: { allOf: [ref('Tag'), object({ file_count: integer })] },
+  FileItem: object({
+    id: integer,
+    name: string,
+    size: { type: 'integer', description: 'Bytes as stored; vault files are a little larger than their plaintext' },
+    content_type: string,
+    created_at: timestamp,
+    parent_id: nullable(integer),
+    starred: flag,
+    trashed: flag,
+    thumbnail_key: nullable(string),
+    trashed_at: nullable(timestamp),
+    sha256: { ...nullable(string), description: 'SHA-256 of the current version; null until a resumable upload is hashed' },
+    description: nullable(string),
+    metadata: { type: 'object', additionalProperties: string, description: 'Custom key/value pairs' },
+    tags: { ...arrayOf(ref('Tag')), description: "The owner's tags, on files listed from the user's own drive" },
+    share_role: { type: 'string', enum: ['viewer', 'editor'], description: 'On files shared with the user' },
+    shared_by_email: nullable(string),
+    scan_status: { type: 'string', enum: ['pending', 'clean', 'quarantined', 'skipped'] },
+    scan_signature: nullable(string),
+    encryption: { ...nullable(string), description: 'JSON of the VaultEncryption of a vault file' },
+  }, ['id', 'name', 'size', 'content_type', 'created_at']),
+  FileDetails: {
+    allOf: [ref('FileItem'), object({
+      description: nullable(string),
+      owner_id: string,
+      access_role: { type: 'string', enum: ['owner', 'viewer', 'editor'] },
+    })],
+  },
+  FilesResponse: object({ files: arrayOf(ref('FileItem')), pagination: ref('PaginationInfo') }),
+  RecentResponse: object({
+    groups: arrayOf(object({ label: { type: 'string', enum: ['Today', 'This week', 'Earlier'] }, files: arrayOf(ref('FileItem')) })),
+    pagination: ref('PaginationInfo'),
+  }),
+  ContentSearchResponse: object({
+    results: arrayOf(object({ file: ref('FileItem'), snippet: arrayOf(object({ text: string, match: boolean })) })),
+    pagination: ref('PaginationInfo'),
+  }),
+  FolderItem: object({
+    id: integer,
+    name: string,
+    parent_id: nullable(integer),
+    created_at: timestamp,
+    trashed: flag,
+    trashed_at: nullable(timestamp),
+  }, ['id', 'name', 'parent_id', 'created_at']),
+  FolderChildrenResponse: object({
+    folder: { anyOf: [ref('FolderItem'), { type: 'null' }] },
+    path: arrayOf(object({ id: integer, name: string, parent_id: nullable(integer) })),
+    folders: arrayOf(ref('FolderItem')),
+    files: arrayOf(ref('FileItem')),
+    pagination: ref('PaginationInfo'),
+  }),
+  FileVersion: object({
+    id: integer,
+    file_id: integer,
+    version_number: integer,
+    size: integer,
+    content_type: string,
+    uploaded_by_email: nullable(string),
+    created_at: timestamp,
+    is_current: boolean,
+    sha256: nullable(string),
+    integrity: { type: ['string', 'null'], enum: ['ok', 'mismatch', 'missing', null] },
+    scan_status: { type: 'string', enum: ['pending', 'clean', 'quarantined', 'skipped'] },
+    scan_signature: nullable(string),
+    encryption: nullable(string),
+  }),
+  UploadSession: object({
+    upload_id: string,
+    name: string,
+    size: integer,
+    content_type: string,
+    parent_id: nullable(integer),
+    part_size: integer,
+    total_parts: integer,
+    uploaded_parts: arrayOf(integer),
+    uploaded_bytes: integer,
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  DownloadLink: object({ downloadUrl: string, fileName: string, contentType: string }),
+  ArchiveLink: object({ downloadUrl: string, expiresAt: string }),
+  BatchResponse: object({
+    action: string,
+    results: arrayOf(object({ id: integer, ok: boolean, error: string }, ['id', 'ok'])),
+    succeeded: integer,
+    failed: integer,
+  }),
+  FileShare: object({
+    id: integer,
+    file_id: integer,
+    grantee_email: string,
+    role: { type: 'string', enum: ['viewer', 'editor'] },
+    shared_by_email: nullable(string),
+    created_at: timestamp,
+  }),
+  ShareLink: object({
+    id: integer,
+    file_id: integer,
+    token: string,
+    url: string,
+    expires_at: nullable(string),
+    has_password: boolean,
+    max_downloads: nullable(integer),
+    download_count: integer,
+    created_at: timestamp,
+  }),
+  PublicShareInfo: object({
+    name: string,
+    size: integer,
+    content_type: string,
+    expires_at: nullable(string),
+    requires_password: boolean,
+  }),
+  ActivityEntry: object({
+    id: integer,
+    actor_id: nullable(string),
+    actor_email: nullable(string),
+    action: { type: 'string', enum: ACTIVITY_ACTIONS },
+    target_type: { type: 'string', enum: ['file', 'folder'] },
+    target_id: integer,
+    target_name: nullable(string),
+    owner_id: nullable(string),
+    details: { type: ['object', 'null'] },
+    created_at: timestamp,
+  }),
+  ActivityResponse: object({ activities: arrayOf(ref('ActivityEntry')), pagination: ref('PaginationInfo') }),
+  StorageUsage: object({
+    quota: nullable(integer),
+    used: integer,
+    families: { type: 'object', additionalProperties: object({ bytes: integer, files: integer }) },
+    versions: object({ bytes: integer }),
+    trash: object({ bytes: integer, files: integer, retentionDays: integer }),
+    uploads: object({ bytes: integer }),
+  }),
+  VaultSettings: object({ kdf_salt: string, iterations: integer, check_iv: string, check: string, created_at: timestamp }, [
+    'kdf_salt', 'iterations', 'check_iv', 'check',
+  ]),
+  VaultEncryption: object({
+    v: { type: 'integer', const: 1 },
+    cipher: { type: 'string', const: 'AES-256-GCM' },
+    kdf: { type: 'string', const: 'PBKDF2-SHA256' },
+    kdf_salt: string,
+    iterations: integer,
+    file_salt: string,
+    nonce: string,
+    chunk_size: integer,
+    plaintext_size: integer,
+    content_type: string,
+  }),
+  AccessToken: object({
+    id: integer,
+    name: string,
+    token_hint: { type: 'string', description: 'Last four characters of the token' },
+    scopes: arrayOf({ type: 'string', enum: TOKEN_SCOPES }),
+    expires_at: nullable(timestamp),
+    last_used_at: nullable(timestamp),
+    created_at: timestamp,
+  }),
+  Webhook: object({
+    id: integer,
+    url: string,
+    events: {
+      ...arrayOf({ type: 'string', enum: WEBHOOK_EVENTS }),
+      description: 'file.uploaded is sent for new uploads, new versions and copies',
+    },
+    description: nullable(string),
+    active: boolean,
+    secret_hint: { type: 'string', description: 'Last four characters of the signing secret' },
+    last_status: { type: ['string', 'null'], enum: ['pending', 'succeeded', 'failed', null] },
+    last_delivery_at: nullable(timestamp),
+    created_at: timestamp,
+  }),
+  WebhookWithSecret: {
+    allOf: [ref('Webhook'), object({ secret: { type: 'string', description: 'Shown only when it is set' } })],
+  },
+  WebhookDelivery: object({
+    id: integer,
+    webhook_id: integer,
+    event: { type: 'string', enum: [...WEBHOOK_EVENTS, 'ping'] },
+    payload: object({ id: string, event: string, created_at: string, data: { type: 'object' } }),
+    status: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+    attempts: integer,
+    response_status: nullable(integer),
+    response_body: nullable(string),
+    last_error: nullable(string),
+    duration_ms: nullable(integer),
+    redelivery_of: nullable(integer),
+    next_attempt_at: timestamp,
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  NewAccessToken: {
+    allOf: [ref('AccessToken'), object({ token: { type: 'string', description: 'The secret; shown only this once' } })],
+  },
+};
+
+const fileListQuery = [
+  ['page', integer],
+  ['limit', integer, 'Up to 100'],
+  ['q', string, 'Words in the file name'],
+  ['section', { type: 'string', enum: ['drive', 'starred', 'trashed', 'all'] }],
+  ['type', string, 'Content-type family, as in GET /api/usage'],
+  ['tag', string, 'Comma-separated tag ids; files must carry all of them'],
+  ['min_size', integer],
+  ['max_size', integer],
+  ['created_after', { type: 'string', format: 'date-time' }],
+  ['created_before', { type: 'string', format: 'date-time' }],
+  ['sort', { type: 'string', enum: ['name', 'size', 'created_at', 'content_type'] }],
+  ['order', { type: 'string', enum: ['asc', 'desc'] }],
+];
+
+const activityQuery = [
+  ['page', integer],
+  ['limit', integer, 'Up to 200'],
+  ['action', { type: 'string', enum: ACTIVITY_ACTIONS }],
+  ['actor', string, "Actor's email"],
+  ['since', { type: 'string', format: 'date-time' }],
+  ['until', { type: 'string', format: 'date-time' }],
+];
+
+const uploadForm = (description) => object({
+  file: { type: 'string', format: 'binary', description },
+  parent_id: integer,
+  relative_path: { type: 'string', description: 'Path inside an uploaded directory; its folders are created under parent_id' },
+  encryption: { type: 'string', description: 'JSON of the VaultEncryption when the file is vault ciphertext' },
+}, ['file']);
+
+// Each operation: tag, summary, and optionally query ([name, schema, description]), body (JSON
+// schema), form (multipart schema), response (schema, or a content type for raw bodies), status,
+// pathTypes for path parameters that aren't the usual type, and public for routes that need no sign-in
+const ROUTE_DOCS = {
+  'GET /api/health': { tag: 'System', summary: 'Health check', public: true, response: object({ status: string }, []) },
+  'GET /api/openapi.json': { tag: 'System', summary: 'This document', public: true, response: { type: 'object' } },
+  'GET /api/storage/local': {
+    tag: 'System', summary: 'Object from local storage, through a signed download link', public: true,
+    query: [['key', string], ['expires', integer], ['signature', string]], response: 'application/octet-stream',
+  },
+  'GET /api/archives/{token}': { tag: 'Files', summary: 'ZIP of the files behind an archive link', public: true, response: 'application/zip' },
+  'GET /api/public/shares/{token}': { tag: 'Public links', summary: 'What a public link shares', public: true, response: ref('PublicShareInfo') },
+  'GET /api/public/shares/{token}/download': {
+    tag: 'Public links', summary: 'Download through a public link (redirects to the file)', public: true, status: 302,
+  },
+  'POST /api/public/shares/{token}/download': {
+    tag: 'Public links', summary: 'Download through a password-protected public link (a single-use URL)', public: true,
+    body: object({ password: string }, []), response: ref('DownloadLink'),
+  },
+  'GET /api/public/share-downloads/{token}': {
+    tag: 'Public links', summary: 'The file behind a single-use public link download URL', public: true, response: 'application/octet-stream',
+  },
+  'GET /api/events': { tag: 'Account', summary: 'Server-sent events for changes to files the user can see', response: 'text/event-stream' },
+  'GET /api/vault': { tag: 'Account', summary: "The user's vault settings", response: object({ vault: { anyOf: [ref('VaultSettings'), { type: 'null' }] } }) },
+  'PUT /api/vault': {
+    tag: 'Account', summary: "Set up the user's vault", status: 201,
+    body: object({ kdf_salt: string, iterations: integer, check_iv: string, check: string }), response: object({ vault: ref('VaultSettings') }),
+  },
+  'GET /api/tokens': { tag: 'Account', summary: "The user's personal access tokens", response: object({ tokens: arrayOf(ref('AccessToken')) }) },
+  'POST /api/tokens': {
+    tag: 'Account', summary: 'Create a personal access token', status: 201,
+    body: object({
+      name: string,
+      scopes: arrayOf({ type: 'string', enum: TOKEN_SCOPES }),
+      expires_in_days: { type: ['integer', 'null'], minimum: 1, maximum: 365, description: 'null for a token that never expires' },
+    }, ['name', 'scopes']),
+    response: ref('NewAccessToken'),
+  },
+  'DELETE /api/tokens/{id}': { tag: 'Account', summary: 'Revoke a personal access token', response: ref('Message') },
+  'GET /api/webhooks': { tag: 'Webhooks', summary: "The user's webhooks", response: object({ webhooks: arrayOf(ref('Webhook')) }) },
+  'POST /api/webhooks': {
+    tag: 'Webhooks', summary: 'Subscribe a URL to file events', status: 201,
+    body: object({
+      url: string,
+      events: arrayOf({ type: 'string', enum: WEBHOOK_EVENTS }),
+      description: nullable(string),
+      secret: { type: 'string', description: 'Generated when left out' },
+    }, ['url', 'events']),
+    response: ref('WebhookWithSecret'),
+  },
+  'PATCH /api/webhooks/{id}': {
+    tag: 'Webhooks', summary: 'Change or pause a webhook',
+    body: object({
+      url: string,
+      events: arrayOf({ type: 'string', enum: WEBHOOK_EVENTS }),
+      description: nullable(string),
+      active: boolean,
+      secret: string,
+      rotate_secret: boolean,
+    }, []),
+    response: ref('WebhookWithSecret'),
+  },
+  'DELETE /api/webhooks/{id}': { tag: 'Webhooks', summary: 'Delete a webhook and its delivery log', response: ref('Message') },
+  'POST /api/webhooks/{id}/ping': { tag: 'Webhooks', summary: 'Queue a ping delivery', status: 201, response: ref('WebhookDelivery') },
+  'GET /api/webhooks/{id}/deliveries': {
+    tag: 'Webhooks', summary: "A webhook's delivery log, newest first", query: [['page', integer], ['limit', integer, 'Up to 100']],
+    response: object({ deliveries: arrayOf(ref('WebhookDelivery')), pagination: ref('PaginationInfo') }),
+  },
+  'POST /api/webhooks/{id}/deliveries/{deliveryId}/redeliver': {
+    tag: 'Webhooks', summary: "Send a delivery's payload again", status: 201, response: ref('WebhookDelivery'),
+  },
+  'GET /api/usage': { tag: 'Account', summary: 'Storage used against the quota', response: ref('StorageUsage') },
+  'GET /api/files': { tag: 'Files', summary: 'List files', query: fileListQuery, response: ref('FilesResponse') },
+  'POST /api/files': {
+    tag: 'Files', summary: 'Upload a file (up to the single-request limit; larger files use /api/uploads)', status: 201,
+    form: uploadForm('The file'), response: ref('FileItem'),
+  },
+  'GET /api/files/recent': {
+    tag: 'Files', summary: 'Files the user opened, downloaded or changed lately',
+    query: [
+      ['page', integer], ['limit', integer, 'Up to 100'], ['q', string], ['type', string],
+      ['tz_offset', integer, 'Minutes behind UTC, for grouping'],
+    ],
+    response: ref('RecentResponse'),
+  },
+  'GET /api/files/shared': { tag: 'Sharing', summary: 'Files shared with the user', query: [['page', integer], ['limit', integer]], response: ref('FilesResponse') },
+  'GET /api/files/by-hash/{sha256}': {
+    tag: 'Files', summary: "The user's files with a version whose content has this SHA-256",
+    response: object({ sha256: string, files: arrayOf(ref('FileItem')) }),
+  },
+  'POST /api/files/batch': {
+    tag: 'Files', summary: 'Apply an action to many files (action delete needs the delete scope)',
+    body: object({
+      action: { type: 'string', enum: ['star', 'unstar', 'trash', 'restore', 'delete', 'tag', 'untag'] },
+      ids: arrayOf(integer),
+      tag_id: integer,
+    }, ['action', 'ids']),
+    response: ref('BatchResponse'),
+  },
+  'POST /api/files/archive': {
+    tag: 'Files', summary: 'Prepare a ZIP download of several files', status: 201,
+    body: object({ ids: arrayOf(integer) }), response: ref('ArchiveLink'),
+  },
+  'GET /api/files/{id}': { tag: 'Files', summary: 'File details', response: ref('FileDetails') },
+  'PATCH /api/files/{id}': {
+    tag: 'Files', summary: "Rename a file or change its description and metadata",
+    body: object({ name: string, description: nullable(string), metadata: { type: ['object', 'null'], additionalProperties: string } }, []),
+    response: ref('FileDetails'),
+  },
+  'DELETE /api/files/{id}': { tag: 'Files', summary: 'Delete a file for good', response: ref('Message') },
+  'GET /api/files/{id}/download': {
+    tag: 'Files', summary: 'Signed download link for the current version', query: [['purpose', { type: 'string', enum: ['preview'] }]],
+    response: ref('DownloadLink'),
+  },
+  'GET /api/files/{id}/preview': {
+    tag: 'Files', summary: 'Content of the current version (or one version), with Range support',
+    query: [['version', integer, 'Version id'], ['purpose', { type: 'string', enum: ['download'] }]],
+    response: 'application/octet-stream',
+  },
+  'GET /api/files/{id}/thumbnail': { tag: 'Files', summary: 'Thumbnail image', response: 'image/webp' },
+  'POST /api/files/{id}/star': { tag: 'Files', summary: 'Star a file', response: ref('Message') },
+  'POST /api/files/{id}/unstar': { tag: 'Files', summary: 'Unstar a file', response: ref('Message') },
+  'POST /api/files/{id}/trash': { tag: 'Files', summary: 'Move a file to trash', response: ref('Message') },
+  'POST /api/files/{id}/restore': { tag: 'Files', summary: 'Restore a file from trash', response: ref('Message') },
+  'POST /api/files/{id}/move': {
+    tag: 'Files', summary: 'Move a file to another folder', body: object({ parent_id: nullable(integer) }), response: ref('Moved'),
+  },
+  'POST /api/files/{id}/copy': {
+    tag: 'Files', summary: 'Copy a file', status: 201,
+    body: object({ name: string, parent_id: nullable(integer) }, []), response: ref('FileDetails'),
+  },
+  'GET /api/files/{id}/activity': { tag: 'Activity', summary: "A file's activity", query: activityQuery, response: ref('ActivityResponse') },
+  'GET /api/files/{id}/versions': { tag: 'Versions', summary: "A file's versions, newest first", response: object({ versions: arrayOf(ref('FileVersion')) }) },
+  'POST /api/files/{id}/versions': {
+    tag: 'Versions', summary: 'Upload a new version', status: 201,
+    form: object({ file: { type: 'string', format: 'binary' }, encryption: string }, ['file']), response: ref('FileVersion'),
+  },
+  'GET /api/files/{id}/versions/{versionId}/download': {
+    tag: 'Versions', summary: 'Signed download link for a version',
+    response: { allOf: [ref('DownloadLink'), object({ version: integer })] },
+  },
+  'POST /api/files/{id}/versions/{versionId}/restore': {
+    tag: 'Versions', summary: 'Make a version the current one', response: object({ message: string, version: ref('FileVersion') }),
+  },
+  'GET /api/files/{id}/shares': {
+    tag: 'Sharing', summary: "A file's shares and public links", response: object({ shares: arrayOf(ref('FileShare')), links: arrayOf(ref('ShareLink')) }),
+  },
+  'POST /api/files/{id}/shares': {
+    tag: 'Sharing', summary: 'Share a file with someone', status: 201,
+    body: object({ email: string, role: { type: 'string', enum: ['viewer', 'editor'] } }), response: ref('FileShare'),
+  },
+  'DELETE /api/files/{id}/shares/{shareId}': { tag: 'Sharing', summary: 'Stop sharing a file with someone', response: ref('Message') },
+  'POST /api/files/{id}/links': {
+    tag: 'Public links', summary: 'Create a public link', status: 201,
+    body: object({ expires_in_hours: nullable(integer), password: nullable(string), max_downloads: nullable(integer) }, []),
+    response: ref('ShareLink'),
+  },
+  'DELETE /api/files/{id}/links/{linkId}': { tag: 'Public links', summary: 'Delete a public link', response: ref('Message') },
+  'POST /api/files/{id}/tags': {
+    tag: 'Tags', summary: 'Tag a file', status: 201, body: object({ tag_id: integer }), response: object({ tags: arrayOf(ref('Tag')) }),
+  },
+  'DELETE /api/files/{id}/tags/{tagId}': { tag: 'Tags', summary: 'Remove a tag from a file', response: object({ tags: arrayOf(ref('Tag')) }) },
+  'POST /api/uploads': {
+    tag: 'Uploads', summary: 'Start a resumable upload', status: 201,
+    body: object({
+      name: string,
+      size: integer,
+      content_type: string,
+      parent_id: nullable(integer),
+      relative_path: string,
+      encryption: ref('VaultEncryption'),
+    }, ['name', 'size']),
+    response: ref('UploadSession'),
+  },
+  'GET /api/uploads/{uploadId}': { tag: 'Uploads', summary: 'Progress of a resumable upload', response: ref('UploadSession') },
+  'PUT /api/uploads/{uploadId}/parts/{partNumber}': {
+    tag: 'Uploads', summary: 'Upload one part as an application/octet-stream body',
+    body: { type: 'string', format: 'binary', contentMediaType: 'application/octet-stream' },
+    response: object({ part_number: integer, size: integer }),
+  },
+  'POST /api/uploads/{uploadId}/complete': { tag: 'Uploads', summary: 'Finish a resumable upload', status: 201, response: ref('FileItem') },
+  'DELETE /api/uploads/{uploadId}': { tag: 'Uploads', summary: 'Abandon a resumable upload', response: ref('Message') },
+  'GET /api/search': {
+    tag: 'Files', summary: 'Search inside documents', query: [['q', string], ['type', string], ['page', integer], ['limit', integer]],
+    response: ref('ContentSearchResponse'),
+  },
+  'GET /api/activity': {
+    tag: 'Activity', summary: "Activity across the user's drive",
+    query: [...activityQuery, ['target_type', { type: 'string', enum: ['file', 'folder'] }], ['file_id', integer]],
+    response: ref('ActivityResponse'),
+  },
+  'GET /api/tags': { tag: 'Tags', summary: "The user's tags", response: object({ tags: arrayOf(ref('TagItem')) }) },
+  'POST /api/tags': { tag: 'Tags', summary: 'Create a tag', status: 201, body: object({ name: string, color: string }), response: ref('TagItem') },
+  'PATCH /api/tags/{id}': { tag: 'Tags', summary: 'Rename or recolour a tag', body: object({ name: string, color: string }, []), response: ref('Tag') },
+  'DELETE /api/tags/{id}': { tag: 'Tags', summary: 'Delete a tag', response: ref('Message') },
+  'GET /api/folders': { tag: 'Folders', summary: "All the user's folders", response: object({ folders: arrayOf(ref('FolderItem')) }) },
+  'POST /api/folders': {
+    tag: 'Folders', summary: 'Create a folder', status: 201, body: object({ name: string, parent_id: nullable(integer) }, ['name']),
+    response: ref('FolderItem'),
+  },
+  'GET /api/folders/{id}/children': {
+    tag: 'Folders', summary: "A folder's subfolders and files (id root for the drive root)", query: fileListQuery,
+    pathTypes: { id: string },
+    response: ref('FolderChildrenResponse'),
+  },
+  'PUT /api/folders/{id}': { tag: 'Folders', summary: 'Rename a folder', body: object({ name: string }), response: ref('FolderItem') },
+  'POST /api/folders/{id}/move': {
+    tag: 'Folders', summary: 'Move a folder', body: object({ parent_id: nullable(integer) }), response: ref('Moved'),
+  },
+  'POST /api/folders/{id}/trash': { tag: 'Folders', summary: 'Move a folder and its contents to trash', response: ref('Message') },
+  'POST /api/folders/{id}/restore': { tag: 'Folders', summary: 'Restore a folder and its contents', response: ref('Message') },
+  'DELETE /api/folders/{id}': {
+    tag: 'Folders', summary: 'Delete a folder and its contents for good', response: object({ message: string, deletedFiles: integer }),
+  },
+  'DELETE /api/trash': {
+    tag: 'Files',
+    summary: 'Empty trash; items that could not be deleted stay in trash and are counted in failed',
+    response: object({ message: string, deletedFiles: integer, deletedFolders: integer, failed: integer }),
+  },
+};
+
+// Route parameters that aren't numeric ids
+const STRING_PARAMS = ['token', 'uploadId', 'sha256'];
+
+const jsonContent = (schema) => ({ 'application/json': { schema } });
+
+const describeOperation = (method, path, doc) => {
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name, in: 'path', required: true, schema: doc.pathTypes?.[name] ?? (STRING_PARAMS.includes(name) ? string : integer),
+  }));
+  const queryParams = (doc.query || []).map(([name, schema, description]) => ({ name, in: 'query', schema, description }));
+  const status = String(doc.status || 200);
+  const response = typeof doc.response === 'string'
+    ? { description: 'OK', content: { [doc.response]: { schema: { type: 'string', format: 'binary' } } } }
+    : { description: doc.status === 302 ? 'Redirect' : 'OK', ...(doc.response && { content: jsonContent(doc.response) }) };
+
+  const operation = {
+    tags: [doc.tag],
+    summary: doc.summary,
+    parameters: [...pathParams, ...queryParams],
+    responses: { [status]: response, default: { description: 'Error', content: jsonContent(ref('Error')) } },
+  };
+  if (doc.body) {
+    operation.requestBody = doc.body.format === 'binary'
+      ? { required: true, content: { 'application/octet-stream': { schema: doc.body } } }
+      : { required: true, content: jsonContent(doc.body) };
+  }
+  if (doc.form) operation.requestBody = { required: true, content: { 'multipart/form-data': { schema: doc.form } } };
+  if (doc.public) operation.security = [];
+
+  const apiPath = path.replace(/^\/api/, '').replace(/\{(\w+)\}/g, ':$1');
+  if (!doc.public && acceptsAccessTokens(apiPath)) operation['x-token-scope'] = requiredScope(method.toUpperCase(), apiPath);
+  return operation;
+};
+
+// The routes an Express app has registered, as [method, path] pairs
+const registeredRoutes = (app) => app.router.stack
+  .filter(layer => layer.route)
+  .flatMap(layer => Object.keys(layer.route.methods).map(method => [method, layer.route.path]));
+
+export function buildOpenApiDocument(app, { version }) {
+  const paths = {};
+  for (const [method, expressPath] of registeredRoutes(app)) {
+    if (!expressPath.startsWith('/api/')) continue;
+    const path = expressPath.replace(/:(\w+)/g, '{$1}');
+    const doc = ROUTE_DOCS[`${method.toUpperCase()} ${path}`] || { tag: 'Other', summary: `${method.toUpperCase()} ${path}` };
+    paths[path] = { ...paths[path], [method]: describeOperation(method, path, doc) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Drive API',
+      version,
+      description: 'Every route except the public ones needs an Authorization: Bearer header with either a browser '
+        + 'session token or a personal access token (created under Settings). Access tokens work on the /api/files, '
+        + '/api/folders and /api/uploads routes; x-token-scope names the scope each of those needs.',
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: SCHEMAS,
+    },
+  };
+}
@@ -0,0 +1,40 @@
+const UNITS = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3, TB: 1024 ** 4 };
+
+// "15GB", "500 MB", "1048576" -> bytes; "0", "unlimited" or "none" -> null (no limit)
+export function parseByteSize(value) {
+  const text = String(value).trim().toUpperCase();
+  if (['0', 'UNLIMITED', 'NONE'].includes(text)) return null;
+  const match = /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/.exec(text);
+  if (!match) throw new Error(`Invalid byte size: ${value}`);
+  return Math.round(parseFloat(match[1]) * UNITS[match[2] || 'B']);
+}
+
+export function formatByteSize(bytes) {
+  const [unit, factor] = Object.entries(UNITS).reverse().find(([, f]) => bytes >= f) || ['B', 1];
+  return `${+(bytes / factor).toFixed(1)} ${unit}`;
+}
+
+// Per-user storage quotas. DEFAULT_QUOTA applies to everyone (15GB unless set);
+// USER_QUOTAS overrides it by email, e.g. "alice@example.com=100GB,bob@example.com=unlimited".
+export function createQuotaPolicyFromEnv(env = process.env) {
+  const defaultQuota = parseByteSize(env.DEFAULT_QUOTA || '15GB');
+  const overrides = new Map(
+    (env.USER_QUOTAS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.lastIndexOf('=');
+        if (separator === -1) throw new Error(`Invalid USER_QUOTAS entry: ${entry}`);
+        return [entry.slice(0, separator).trim().toLowerCase(), parseByteSize(entry.slice(separator + 1))];
+      })
+  );
+
+  return {
+    // Quota in bytes for the given email, or null for unlimited
+    quotaFor(email) {
+      const key = (email || '').toLowerCase();
+      return overrides.has(key) ? overrides.get(key) : defaultQuota;
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+
+// SHA-256 (hex) and length of everything a stream yields
+const hashStream = async (stream) => {
+  const hash = createHash('sha256');
+  let size = 0;
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+  return { sha256: hash.digest('hex'), size };
+};
+
+const isNotFound = (e) => e.code === 'ENOENT' || e.name === 'NoSuchKey' || e.name === 'NotFound' || e.$metadata?.httpStatusCode === 404;
+
+// Content-addressed deduplication on top of a storage driver. Callers keep writing and reading
+// their own keys; each key is a reference to a blob (one stored object per distinct SHA-256), so
+// identical uploads share one object and deleting a key only deletes the object once no other
+// key refers to it. Objects written any other way (put, multipart uploads before register) are
+// plain driver objects until register() hashes them.
+export function createDedupStorage(driver, db) {
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS storage_blobs (
+      sha256 TEXT PRIMARY KEY,
+      object_key TEXT NOT NULL UNIQUE,
+      size INTEGER NOT NULL,
+      ref_count INTEGER NOT NULL DEFAULT 1,
+      status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'mismatch', 'missing')),
+      verified_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS storage_refs (
+      key TEXT PRIMARY KEY,
+      sha256 TEXT NOT NULL REFERENCES storage_blobs(sha256)
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_storage_refs_sha256 ON storage_refs (sha256)').run();
+
+  const getBlob = db.prepare('SELECT * FROM storage_blobs WHERE sha256 = ?');
+  const getBlobForKey = db.prepare(`
+    SELECT storage_blobs.* FROM storage_refs JOIN storage_blobs USING (sha256) WHERE storage_refs.key = ?
+  `);
+  const getBlobByObjectKey = db.prepare('SELECT * FROM storage_blobs WHERE object_key = ?');
+  const insertBlob = db.prepare('INSERT INTO storage_blobs (sha256, object_key, size) VALUES (?, ?, ?)');
+  const insertRef = db.prepare('INSERT INTO storage_refs (key, sha256) VALUES (?, ?)');
+  const deleteRef = db.prepare('DELETE FROM storage_refs WHERE key = ?');
+  const deleteBlob = db.prepare('DELETE FROM storage_blobs WHERE sha256 = ?');
+  const changeRefCount = db.prepare('UPDATE storage_blobs SET ref_count = ref_count + ? WHERE sha256 = ?');
+  const selectBlobsToVerify = db.prepare(`
+    SELECT * FROM storage_blobs
+    WHERE verified_at IS NULL OR verified_at < datetime('now', ?)
+    ORDER BY verified_at IS NOT NULL, verified_at
+    LIMIT ?
+  `);
+  const replaceBlobObject = db.prepare(`
+    UPDATE storage_blobs SET object_key = ?, status = 'ok', verified_at = CURRENT_TIMESTAMP WHERE sha256 = ?
+  `);
+  const setBlobStatus = db.prepare('UPDATE storage_blobs SET status = ?, verified_at = CURRENT_TIMESTAMP WHERE sha256 = ?');
+
+  // Points key at the blob for sha256. storedKey is where this content was just written (or null if
+  // it wasn't): it becomes the blob's object when the blob is new or its object failed verification.
+  // Returns the object key that now holds the content and the one (if any) to delete.
+  const attach = db.transaction((key, sha256, storedKey, size) => {
+    const existing = getBlob.get(sha256);
+    if (!existing) {
+      insertBlob.run(sha256, storedKey, size);
+      insertRef.run(key, sha256);
+      return { objectKey: storedKey, discardKey: null };
+    }
+    insertRef.run(key, sha256);
+    changeRefCount.run(1, sha256);
+    if (existing.status !== 'ok' && storedKey) {
+      replaceBlobObject.run(storedKey, sha256);
+      return { objectKey: storedKey, discardKey: existing.object_key };
+    }
+    return { objectKey: existing.object_key, discardKey: storedKey };
+  });
+
+  // Drops key's reference; returns the object key to delete, or null while other keys still use it.
+  // A key without a reference is a plain object, unless another key's blob lives there (the key it
+  // was first uploaded under, deleted a second time).
+  const release = db.transaction((key) => {
+    const blob = getBlobForKey.get(key);
+    if (!blob) return getBlobByObjectKey.get(key) ? null : key;
+    deleteRef.run(key);
+    if (blob.ref_count > 1) {
+      changeRefCount.run(-1, blob.sha256);
+      return null;
+    }
+    deleteBlob.run(blob.sha256);
+    return blob.object_key;
+  });
+
+  const resolveKey = (key) => getBlobForKey.get(key)?.object_key ?? key;
+
+  // Hashes an object that was written straight to the driver (a completed multipart upload, or
+  // one stored before deduplication) and folds it into an existing blob when the content matches
+  const register = async (key) => {
+    const blob = getBlobForKey.get(key);
+    if (blob) return { sha256: blob.sha256, deduplicated: false };
+    const { stream } = await driver.getStream(key);
+    const { sha256, size } = await hashStream(stream);
+    const { objectKey, discardKey } = attach(key, sha256, key, size);
+    if (discardKey) await driver.delete(discardKey);
+    return { sha256, deduplicated: objectKey !== key };
+  };
+
+  return {
+    name: driver.name,
+
+    // Uploads a file from disk unless identical content is already stored; resolves with its SHA-256
+    async putFile(key, filePath, opts) {
+      const { sha256, size } = await hashStream(createReadStream(filePath));
+      if (getBlob.get(sha256)?.status === 'ok') {
+        attach(key, sha256, null, size);
+        return { sha256, deduplicated: true };
+      }
+      await driver.putFile(key, filePath, opts);
+      // An identical upload may have finished while this one was in flight
+      const { objectKey, discardKey } = attach(key, sha256, key, size);
+      if (discardKey) await driver.delete(discardKey);
+      return { sha256, deduplicated: objectKey !== key };
+    },
+
+    put: (key, body, opts) => driver.put(key, body, opts),
+
+    stat: (key) => driver.stat(resolveKey(key)),
+
+    getStream: (key, range) => driver.getStream(resolveKey(key), range),
+
+    getDownloadUrl: (key, opts) => driver.getDownloadUrl(resolveKey(key), opts),
+
+    async delete(key) {
+      const objectKey = release(key);
+      if (objectKey) await driver.delete(objectKey);
+    },
+
+    register,
+
+    // Makes key another reference to sourceKey's content without storing it again; resolves with its SHA-256
+    async copy(sourceKey, key) {
+      const { sha256 } = await register(sourceKey);
+      attach(key, sha256, null, getBlob.get(sha256).size);
+      return { sha256 };
+    },
+
+    // 'ok', 'mismatch' or 'missing' as of the last verification, or null for an unknown hash
+    integrityOf: (sha256) => getBlob.get(sha256)?.status ?? null,
+
+    // Re-hashes up to `limit` blobs not checked in the last `maxAgeDays` days and records whether
+    // each still matches its SHA-256. Resolves with the number checked and the ones that failed.
+    async verify({ limit = 100, maxAgeDays = 30 } = {}) {
+      const blobs = selectBlobsToVerify.all(`-${maxAgeDays} days`, limit);
+      const failures = [];
+      for (const blob of blobs) {
+        let status;
+        try {
+          const { stream } = await driver.getStream(blob.object_key);
+          const { sha256 } = await hashStream(stream);
+          status = sha256 === blob.sha256 ? 'ok' : 'mismatch';
+        } catch (e) {
+          if (!isNotFound(e)) throw e;
+          status = 'missing';
+        }
+        setBlobStatus.run(status, blob.sha256);
+        if (status !== 'ok') failures.push({ sha256: blob.sha256, objectKey: blob.object_key, status });
+      }
+      return { checked: blobs.length, failures };
+    },
+
+    createMultipartUpload: (key, opts) => driver.createMultipartUpload(key, opts),
+    uploadPart: (key, uploadId, partNumber, body) => driver.uploadPart(key, uploadId, partNumber, body),
+    completeMultipartUpload: (key, uploadId, parts) => driver.completeMultipartUpload(key, uploadId, parts),
+    abortMultipartUpload: (key, uploadId) => driver.abortMultipartUpload(key, uploadId),
+    verifyDownload: driver.verifyDownload,
+  };
+}
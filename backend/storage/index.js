@@ -0,0 +1,41 @@
+import { randomBytes } from 'node:crypto';
+import { createS3Storage } from './s3.js';
+import { createLocalStorage } from './local.js';
+
+// Storage drivers share one interface:
+//   putFile(key, path, opts), put(key, body, opts), stat(key) -> { size },
+//   getStream(key, { start, end }), delete(key),
+//   getDownloadUrl(key, { fileName, contentType, expiresIn }),
+//   createMultipartUpload / uploadPart / completeMultipartUpload / abortMultipartUpload.
+// The local driver also has verifyDownload(query) for its signed download route.
+// app.js wraps the driver with storage/dedup.js, which shares one object between identical uploads
+// (and adds copy(sourceKey, key), which stores nothing new).
+
+// STORAGE_DRIVER picks the driver: "s3" (default) or "local"
+export function createStorageFromEnv(env = process.env, { baseDir = process.cwd() } = {}) {
+  const driver = env.STORAGE_DRIVER || 's3';
+
+  if (driver === 's3') {
+    return createS3Storage({
+      bucket: env.S3_BUCKET,
+      region: env.AWS_REGION,
+      accessKeyId: env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+    });
+  }
+
+  if (driver === 'local') {
+    let signingSecret = env.STORAGE_SIGNING_SECRET;
+    if (!signingSecret) {
+      // Links signed with a per-process secret stop working after a restart
+      console.warn('STORAGE_SIGNING_SECRET is not set; using a random secret for this process');
+      signingSecret = randomBytes(32).toString('hex');
+    }
+    return createLocalStorage({
+      rootDir: env.LOCAL_STORAGE_PATH || `${baseDir}/data/storage`,
+      signingSecret,
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+}
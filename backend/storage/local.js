@@ -0,0 +1,130 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { copyFile, mkdir, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
+
+// Local-disk storage driver. Objects live under rootDir by key; downloads go through
+// an HMAC-signed, expiring backend route (publicPath) instead of a presigned S3 URL.
+export function createLocalStorage({ rootDir, signingSecret, publicPath = '/api/storage/local' }) {
+  const root = resolve(rootDir);
+  const multipartRoot = join(root, '.multipart');
+
+  // Keys are relative paths; refuse anything that would escape the storage root
+  const resolveKey = (key) => {
+    const fullPath = resolve(root, key);
+    if (!fullPath.startsWith(root + sep) || fullPath.startsWith(multipartRoot + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  const resolveUploadDir = (uploadId) => {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) throw new Error(`Invalid upload id: ${uploadId}`);
+    return join(multipartRoot, uploadId);
+  };
+
+  const sign = ({ key, name, type, expires }) =>
+    createHmac('sha256', signingSecret).update([key, name, type, expires].join('\n')).digest('base64url');
+
+  const writeBody = async (fullPath, body) => {
+    await mkdir(dirname(fullPath), { recursive: true });
+    if (Buffer.isBuffer(body) || typeof body === 'string') {
+      await writeFile(fullPath, body);
+    } else {
+      await pipeline(body instanceof Readable ? body : Readable.from(body), createWriteStream(fullPath));
+    }
+  };
+
+  return {
+    name: `local (${root})`,
+
+    async putFile(key, filePath) {
+      const fullPath = resolveKey(key);
+      await mkdir(dirname(fullPath), { recursive: true });
+      await copyFile(filePath, fullPath);
+    },
+
+    async put(key, body) {
+      await writeBody(resolveKey(key), body);
+    },
+
+    async stat(key) {
+      const { size } = await stat(resolveKey(key));
+      return { size };
+    },
+
+    // start/end (inclusive) select a byte range; omit them for the whole object
+    async getStream(key, { start, end } = {}) {
+      const fullPath = resolveKey(key);
+      const { size } = await stat(fullPath);
+      if (start === undefined) return { stream: createReadStream(fullPath), contentLength: size, contentType: undefined };
+      const last = Math.min(end ?? size - 1, size - 1);
+      return { stream: createReadStream(fullPath, { start, end: last }), contentLength: last - start + 1, contentType: undefined };
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+
+    async getDownloadUrl(key, { fileName = '', contentType = '', expiresIn = 3600 } = {}) {
+      const params = { key, name: fileName, type: contentType, expires: String(Math.floor(Date.now() / 1000) + expiresIn) };
+      return `${publicPath}?${new URLSearchParams({ ...params, sig: sign(params) })}`;
+    },
+
+    // Checks a signed download URL's query; returns the parameters when valid, otherwise null
+    verifyDownload(query) {
+      const params = {
+        key: String(query.key ?? ''),
+        name: String(query.name ?? ''),
+        type: String(query.type ?? ''),
+        expires: String(query.expires ?? ''),
+      };
+      if (!params.key || !(parseInt(params.expires) > Date.now() / 1000)) return null;
+      const expected = Buffer.from(sign(params));
+      const actual = Buffer.from(String(query.sig ?? ''));
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+      return params;
+    },
+
+    async createMultipartUpload() {
+      const uploadId = randomUUID();
+      await mkdir(resolveUploadDir(uploadId), { recursive: true });
+      return uploadId;
+    },
+
+    async uploadPart(key, uploadId, partNumber, body) {
+      await writeFile(join(resolveUploadDir(uploadId), String(partNumber)), body);
+      return `"${createHash('md5').update(body).digest('hex')}"`;
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const uploadDir = resolveUploadDir(uploadId);
+      const available = new Set(await readdir(uploadDir));
+      const fullPath = resolveKey(key);
+      await mkdir(dirname(fullPath), { recursive: true });
+      const output = createWriteStream(fullPath);
+      let complete = false;
+      try {
+        for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+          if (!available.has(String(part.partNumber))) throw new Error(`Missing part ${part.partNumber}`);
+          await pipeline(createReadStream(join(uploadDir, String(part.partNumber))), output, { end: false });
+        }
+        await new Promise((resolveEnd, reject) => output.end(error => (error ? reject(error) : resolveEnd())));
+        complete = true;
+      } finally {
+        // A failed copy leaves no half-written object behind; the parts stay for a retry
+        if (!complete) {
+          output.destroy();
+          await rm(fullPath, { force: true });
+        }
+      }
+      await rm(uploadDir, { recursive: true, force: true });
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await rm(resolveUploadDir(uploadId), { recursive: true, force: true });
+    },
+  };
+}
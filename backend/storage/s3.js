@@ -0,0 +1,93 @@
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createReadStream } from 'node:fs';
+
+// S3 storage driver; downloads are presigned S3 URLs
+export function createS3Storage({ bucket, region, accessKeyId, secretAccessKey }) {
+  const s3Client = new S3Client({
+    region,
+    credentials: accessKeyId ? { accessKeyId, secretAccessKey } : undefined,
+  });
+
+  return {
+    name: `s3 (${bucket})`,
+
+    // Streams a local file (e.g. a multer temp file) into the bucket
+    async putFile(key, filePath, { contentType, metadata } = {}) {
+      await new Upload({
+        client: s3Client,
+        params: { Bucket: bucket, Key: key, Body: createReadStream(filePath), ContentType: contentType, Metadata: metadata },
+      }).done();
+    },
+
+    async put(key, body, { contentType, metadata } = {}) {
+      await new Upload({
+        client: s3Client,
+        params: { Bucket: bucket, Key: key, Body: body, ContentType: contentType, Metadata: metadata },
+      }).done();
+    },
+
+    async stat(key) {
+      const response = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return { size: response.ContentLength };
+    },
+
+    // start/end (inclusive) select a byte range; omit them for the whole object
+    async getStream(key, { start, end } = {}) {
+      const range = start === undefined ? undefined : `bytes=${start}-${end ?? ''}`;
+      const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key, Range: range }));
+      return { stream: response.Body, contentLength: response.ContentLength, contentType: response.ContentType };
+    },
+
+    async delete(key) {
+      await s3Client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+
+    // contentType overrides the object's own: a deduplicated object keeps its first uploader's type
+    getDownloadUrl(key, { fileName, contentType, expiresIn = 3600 } = {}) {
+      return getSignedUrl(s3Client, new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ResponseContentDisposition: fileName ? `inline; filename*=UTF-8''${encodeURIComponent(fileName)}` : undefined,
+        ResponseContentType: contentType || undefined,
+      }), { expiresIn });
+    },
+
+    async createMultipartUpload(key, { contentType, metadata } = {}) {
+      const { UploadId } = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: bucket, Key: key, ContentType: contentType, Metadata: metadata,
+      }));
+      return UploadId;
+    },
+
+    async uploadPart(key, uploadId, partNumber, body) {
+      const { ETag } = await s3Client.send(new UploadPartCommand({
+        Bucket: bucket, Key: key, UploadId: uploadId, PartNumber: partNumber, Body: body,
+      }));
+      return ETag;
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      await s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })) },
+      }));
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await s3Client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: uploadId }));
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptsAccessTokens, requiredScope } from '../accessTokens.js';
+
+describe('access token policy', () => {
+  test('reaches the file, folder and upload routes only', () => {
+    for (const path of ['/files', '/files/12/content', '/folders', '/folders/root/children', '/uploads/abc/complete']) {
+      assert.equal(acceptsAccessTokens(path), true, path);
+    }
+    for (const path of ['/tokens', '/webhooks', '/tags', '/filesystem', '/activity']) {
+      assert.equal(acceptsAccessTokens(path), false, path);
+    }
+  });
+
+  test('deleting a file or folder for good needs the delete scope', () => {
+    assert.equal(requiredScope('DELETE', '/files/12'), 'delete');
+    assert.equal(requiredScope('DELETE', '/folders/3'), 'delete');
+    assert.equal(requiredScope('POST', '/files/batch', { action: 'delete' }), 'delete');
+    assert.equal(requiredScope('POST', '/folders/3/trash'), 'write');
+    assert.equal(requiredScope('GET', '/folders/3/children'), 'read');
+  });
+});
@@ -0,0 +1,65 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalVerifier, signLocalToken } from '../auth.js';
+import { startServer } from './server.js';
+
+const alice = { uid: 'alice', email: 'alice@example.com' };
+
+describe('local verifier', () => {
+  const verify = createLocalVerifier('secret');
+
+  test('accepts a token it signed', async () => {
+    assert.deepEqual(await verify(signLocalToken('secret', alice)), alice);
+  });
+
+  test('rejects an expired token', async () => {
+    await assert.rejects(verify(signLocalToken('secret', alice, -60)), /expired/);
+  });
+
+  test('rejects a token signed with another secret', async () => {
+    await assert.rejects(verify(signLocalToken('other', alice)), /signature/);
+  });
+
+  test('rejects a malformed token', async () => {
+    await assert.rejects(verify('not-a-token'), /Malformed/);
+  });
+
+  test('needs a secret', () => {
+    assert.throws(() => createLocalVerifier(''), /AUTH_LOCAL_SECRET/);
+  });
+});
+
+describe('authenticated routes', () => {
+  let server;
+  const listFiles = (token) =>
+    fetch(`${server.url}/api/files`, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+
+  before(async () => {
+    server = await startServer({ ALLOWED_EMAILS: 'alice@example.com' });
+  });
+
+  after(() => server?.stop());
+
+  test('let a signed-in user in', async () => {
+    const response = await listFiles(server.token(alice));
+    assert.equal(response.status, 200);
+    assert.deepEqual((await response.json()).files, []);
+  });
+
+  test('need a token', async () => {
+    assert.equal((await listFiles()).status, 401);
+  });
+
+  test('refuse an expired token', async () => {
+    assert.equal((await listFiles(server.token(alice, -60))).status, 401);
+  });
+
+  test('refuse a token with a bad signature', async () => {
+    assert.equal((await listFiles(signLocalToken('wrong-secret', alice))).status, 401);
+  });
+
+  test('refuse an email that is not on the allowed list', async () => {
+    const response = await listFiles(server.token({ uid: 'mallory', email: 'mallory@example.com' }));
+    assert.equal(response.status, 403);
+  });
+});
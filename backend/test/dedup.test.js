@@ -0,0 +1,84 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { createDedupStorage } from '../storage/dedup.js';
+import { createLocalStorage } from '../storage/local.js';
+
+describe('deduplicated storage', () => {
+  let dir;
+  let db;
+  let storage;
+
+  const source = async (name, content) => {
+    const path = join(dir, name);
+    await writeFile(path, content);
+    return path;
+  };
+
+  // Objects actually stored by the driver
+  const storedObjects = async () => (await readdir(join(dir, 'objects'), { recursive: true, withFileTypes: true }))
+    .filter(entry => entry.isFile() && !entry.parentPath.includes('.multipart'))
+    .map(entry => entry.name)
+    .sort();
+
+  const read = async (key) => {
+    const { stream } = await storage.getStream(key);
+    let text = '';
+    for await (const chunk of stream) text += chunk;
+    return text;
+  };
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drive-dedup-'));
+    db = new Database(':memory:');
+    storage = createDedupStorage(createLocalStorage({ rootDir: join(dir, 'objects'), signingSecret: 'secret' }), db);
+  });
+
+  after(async () => {
+    db?.close();
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  test('identical uploads share one object until the last reference goes', async () => {
+    const first = await storage.putFile('first.txt', await source('a', 'same content'));
+    const second = await storage.putFile('second.txt', await source('b', 'same content'));
+    assert.equal(first.deduplicated, false);
+    assert.equal(second.deduplicated, true);
+    assert.equal(second.sha256, first.sha256);
+    assert.deepEqual(await storedObjects(), ['first.txt']);
+
+    // The object was stored under the first key, and the second still needs it
+    await storage.delete('first.txt');
+    assert.deepEqual(await storedObjects(), ['first.txt']);
+    assert.equal(await read('second.txt'), 'same content');
+
+    await storage.delete('second.txt');
+    assert.deepEqual(await storedObjects(), []);
+    assert.equal(storage.integrityOf(first.sha256), null);
+  });
+
+  test('a copy is another reference to the same object', async () => {
+    await storage.putFile('original.txt', await source('c', 'copied content'));
+    await storage.copy('original.txt', 'copy.txt');
+    assert.deepEqual(await storedObjects(), ['original.txt']);
+
+    await storage.delete('original.txt');
+    assert.equal(await read('copy.txt'), 'copied content');
+
+    await storage.delete('copy.txt');
+    assert.deepEqual(await storedObjects(), []);
+  });
+
+  test('different content is stored separately', async () => {
+    await storage.putFile('one.txt', await source('d', 'one'));
+    await storage.putFile('two.txt', await source('e', 'two'));
+    assert.deepEqual(await storedObjects(), ['one.txt', 'two.txt']);
+    await storage.delete('one.txt');
+    assert.deepEqual(await storedObjects(), ['two.txt']);
+    assert.equal(await read('two.txt'), 'two');
+    await storage.delete('two.txt');
+  });
+});
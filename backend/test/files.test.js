@@ -0,0 +1,67 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { api, request, startServer, uploadForm } from './server.js';
+
+const BOB = { uid: 'bob', email: 'bob@example.com' };
+
+describe('file rows', () => {
+  let server;
+  let file;
+  // Every file row leaves out the storage key and carries metadata as an object
+  const assertFormatted = (row, where) => {
+    assert.equal(row.s3_key, undefined, `${where} has s3_key`);
+    assert.deepEqual(row.metadata, { project: 'apollo' }, `${where} metadata`);
+  };
+
+  before(async () => {
+    server = await startServer();
+    const uploaded = await api(server, 'POST', '/files', uploadForm('first draft', 'notes.txt'));
+    assert.equal(uploaded.s3_key, undefined);
+    assert.deepEqual(uploaded.metadata, {});
+    file = await api(server, 'PATCH', `/files/${uploaded.id}`, { metadata: { project: 'apollo' } });
+    await api(server, 'POST', `/files/${file.id}/shares`, { email: BOB.email, role: 'viewer' });
+  });
+
+  after(() => server?.stop());
+
+  test('lists format their rows', async () => {
+    assertFormatted(file, 'PATCH /files/:id');
+    assertFormatted((await api(server, 'GET', '/files')).files[0], 'GET /files');
+    assertFormatted((await api(server, 'GET', '/files/recent')).groups[0].files[0], 'GET /files/recent');
+    const sha256 = createHash('sha256').update('first draft').digest('hex');
+    assertFormatted((await api(server, 'GET', `/files/by-hash/${sha256}`)).files[0], 'GET /files/by-hash');
+    assertFormatted((await api(server, 'GET', '/files/shared', undefined, BOB)).files[0], 'GET /files/shared');
+  });
+
+  test('list paging is clamped', async () => {
+    const { files, pagination } = await api(server, 'GET', '/files?limit=-1&page=-2');
+    assert.equal(pagination.itemsPerPage, 1);
+    assert.equal(pagination.currentPage, 1);
+    assert.equal(files.length, 1);
+    assert.equal((await api(server, 'GET', '/files?limit=1000')).pagination.itemsPerPage, 100);
+  });
+
+  test('versions leave out the storage key', async () => {
+    const version = await api(server, 'POST', `/files/${file.id}/versions`, uploadForm('second draft', 'notes.txt'));
+    assert.equal(version.s3_key, undefined);
+    const { versions } = await api(server, 'GET', `/files/${file.id}/versions`);
+    assert.deepEqual(versions.map(item => [item.version_number, item.is_current, item.s3_key]), [[2, true, undefined], [1, false, undefined]]);
+  });
+
+  test('uploads with a taken name get the next free one', async () => {
+    const again = await api(server, 'POST', '/files', uploadForm('another draft', 'notes.txt'));
+    assert.equal(again.name, 'notes (2).txt');
+  });
+
+  test('moving onto a taken name is refused with a suggestion', async () => {
+    const folder = await api(server, 'POST', '/folders', { name: 'drafts' });
+    await api(server, 'POST', '/files', uploadForm('folder draft', 'notes.txt', { parent_id: folder.id }));
+    const response = await request(server, 'POST', `/files/${file.id}/move`, { parent_id: folder.id });
+    assert.equal(response.status, 409);
+    const body = await response.json();
+    assert.equal(body.code, 'NAME_CONFLICT');
+    assert.equal(body.suggestion, 'notes (2).txt');
+    assert.equal((await api(server, 'GET', `/files/${file.id}`)).parent_id, null);
+  });
+});
@@ -0,0 +1,101 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { api, backendDir, startServer, uploadForm } from './server.js';
+
+describe('folder trash', () => {
+  let server;
+  const upload = (name, parentId) => api(server, 'POST', '/files', uploadForm(name, name, { parent_id: parentId }));
+
+  const folderTrashed = async (folderId) => (await api(server, 'GET', '/folders')).folders.find(folder => folder.id === folderId).trashed;
+  const fileTrashed = async (fileId) => (await api(server, 'GET', `/files/${fileId}`)).trashed;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server?.stop());
+
+  test('restoring a folder leaves items trashed on their own in the trash', async () => {
+    const parent = await api(server, 'POST', '/folders', { name: 'Projects' });
+    const child = await api(server, 'POST', '/folders', { name: 'Old', parent_id: parent.id });
+    const kept = await upload('kept.txt', parent.id);
+    const discarded = await upload('discarded.txt', parent.id);
+    const nested = await upload('nested.txt', child.id);
+
+    await api(server, 'POST', `/files/${discarded.id}/trash`);
+    await api(server, 'POST', `/folders/${child.id}/trash`);
+    await api(server, 'POST', `/folders/${parent.id}/trash`);
+    assert.equal(await fileTrashed(kept.id), 1);
+
+    await api(server, 'POST', `/folders/${parent.id}/restore`);
+    assert.equal(await folderTrashed(parent.id), 0);
+    assert.equal(await fileTrashed(kept.id), 0);
+    assert.equal(await fileTrashed(discarded.id), 1);
+    assert.equal(await folderTrashed(child.id), 1);
+    assert.equal(await fileTrashed(nested.id), 1);
+
+    // The subfolder still brings back what it took with it
+    await api(server, 'POST', `/folders/${child.id}/restore`);
+    assert.equal(await folderTrashed(child.id), 0);
+    assert.equal(await fileTrashed(nested.id), 0);
+    assert.equal(await fileTrashed(discarded.id), 1);
+  });
+});
+
+describe('folder trash from before trashed_with', () => {
+  const databasePath = `./data/legacy-trash-${process.pid}.db`;
+  let server;
+
+  const upload = (name, parentId) => api(server, 'POST', '/files', uploadForm(name, name, { parent_id: parentId }));
+  const folderTrashed = async (folderId) => (await api(server, 'GET', '/folders')).folders.find(folder => folder.id === folderId).trashed;
+  const fileTrashed = async (fileId) => (await api(server, 'GET', `/files/${fileId}`)).trashed;
+
+  after(async () => {
+    await server?.stop();
+    for (const suffix of ['', '-wal', '-shm']) await rm(join(backendDir, `${databasePath}${suffix}`), { force: true });
+  });
+
+  test('restoring a folder leaves items trashed on their own before it in the trash', async () => {
+    server = await startServer({ DATABASE_PATH: databasePath });
+    const parent = await api(server, 'POST', '/folders', { name: 'Projects' });
+    const child = await api(server, 'POST', '/folders', { name: 'Old', parent_id: parent.id });
+    const sibling = await api(server, 'POST', '/folders', { name: 'Current', parent_id: parent.id });
+    const kept = await upload('kept.txt', parent.id);
+    const discarded = await upload('discarded.txt', parent.id);
+    const nested = await upload('nested.txt', child.id);
+    const current = await upload('current.txt', sibling.id);
+    await api(server, 'POST', `/files/${discarded.id}/trash`);
+    await api(server, 'POST', `/folders/${child.id}/trash`);
+    await api(server, 'POST', `/folders/${parent.id}/trash`);
+    await server.stop();
+
+    // What the same trash looked like before trashed_with: only the times tell the trashes apart
+    const db = new Database(join(backendDir, databasePath));
+    const setTrashedAt = (table, id, time) => db.prepare(`UPDATE ${table} SET trashed_at = ? WHERE id = ?`).run(time, id);
+    setTrashedAt('files', discarded.id, '2024-01-01 09:00:00');
+    setTrashedAt('folders', child.id, '2024-01-02 09:00:00');
+    setTrashedAt('files', nested.id, '2024-01-02 09:00:00');
+    for (const folder of [parent, sibling]) setTrashedAt('folders', folder.id, '2024-01-03 09:00:00');
+    for (const file of [kept, current]) setTrashedAt('files', file.id, '2024-01-03 09:00:01');
+    db.prepare('ALTER TABLE files DROP COLUMN trashed_with').run();
+    db.prepare('ALTER TABLE folders DROP COLUMN trashed_with').run();
+    db.close();
+
+    // Retention is off so the old trash isn't purged at startup
+    server = await startServer({ DATABASE_PATH: databasePath, TRASH_RETENTION_DAYS: '0' });
+    await api(server, 'POST', `/folders/${parent.id}/restore`);
+    assert.equal(await folderTrashed(sibling.id), 0);
+    assert.equal(await fileTrashed(kept.id), 0);
+    assert.equal(await fileTrashed(current.id), 0);
+    assert.equal(await fileTrashed(discarded.id), 1);
+    assert.equal(await folderTrashed(child.id), 1);
+    assert.equal(await fileTrashed(nested.id), 1);
+
+    await api(server, 'POST', `/folders/${child.id}/restore`);
+    assert.equal(await fileTrashed(nested.id), 0);
+    assert.equal(await fileTrashed(discarded.id), 1);
+  });
+});
@@ -0,0 +1,39 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLocalStorage } from '../storage/local.js';
+
+describe('local storage', () => {
+  let dir;
+  let storage;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drive-local-'));
+    storage = createLocalStorage({ rootDir: dir, signingSecret: 'secret' });
+  });
+
+  after(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  test('completing an upload with a missing part leaves no object behind', async () => {
+    const uploadId = await storage.createMultipartUpload('files/partial');
+    const etag = await storage.uploadPart('files/partial', uploadId, 1, Buffer.from('first part'));
+    await assert.rejects(
+      storage.completeMultipartUpload('files/partial', uploadId, [{ partNumber: 1, etag }, { partNumber: 2, etag }]),
+      /Missing part 2/
+    );
+    assert.equal(existsSync(join(dir, 'files/partial')), false);
+
+    // The uploaded part is kept, so the upload can still be finished
+    await storage.uploadPart('files/partial', uploadId, 2, Buffer.from(', second part'));
+    await storage.completeMultipartUpload('files/partial', uploadId, [{ partNumber: 1, etag }, { partNumber: 2, etag }]);
+    const { stream } = await storage.getStream('files/partial');
+    let text = '';
+    for await (const chunk of stream) text += chunk;
+    assert.equal(text, 'first part, second part');
+  });
+});
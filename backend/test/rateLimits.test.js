@@ -0,0 +1,39 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer } from './server.js';
+
+describe('rate limits', () => {
+  let server;
+
+  const statuses = async (count, path, headers = {}) => {
+    const results = [];
+    for (let i = 0; i < count; i++) results.push((await fetch(`${server.url}/api${path}`, { headers })).status);
+    return results;
+  };
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server?.stop());
+
+  test('signed-in reads are not held to the anonymous budget', async () => {
+    const results = await statuses(150, '/files', { Authorization: `Bearer ${server.token()}` });
+    assert.deepEqual(new Set(results), new Set([200]));
+  });
+
+  test('the upload limit only applies to upload routes', async () => {
+    const results = await statuses(120, '/tags', { Authorization: `Bearer ${server.token({ uid: 'bob', email: 'bob@example.com' })}` });
+    assert.deepEqual(new Set(results), new Set([200]));
+  });
+
+  // Runs last, as it uses up the address's budget
+  test('requests without a token or with a refused one share a budget per address', async () => {
+    const refused = await statuses(50, '/files', { Authorization: 'Bearer not-a-token' });
+    assert.deepEqual(new Set(refused), new Set([401]));
+    // Starting the server already polled /api/health a few times
+    const results = await statuses(51, '/health');
+    assert.equal(results[0], 200);
+    assert.equal(results.at(-1), 429);
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createS3Storage } from '../storage/s3.js';
+
+describe('s3 storage', () => {
+  const storage = createS3Storage({ bucket: 'drive', region: 'us-east-1', accessKeyId: 'key', secretAccessKey: 'secret' });
+
+  test('download URLs carry the requested content type', async () => {
+    const url = new URL(await storage.getDownloadUrl('files/shared', { fileName: 'notes.txt', contentType: 'text/plain' }));
+    assert.equal(url.searchParams.get('response-content-type'), 'text/plain');
+    assert.equal(url.searchParams.get('response-content-disposition'), "inline; filename*=UTF-8''notes.txt");
+  });
+});
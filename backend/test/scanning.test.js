@@ -0,0 +1,71 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer } from './server.js';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+describe('upload checks', () => {
+  let server;
+  const api = (path, init = {}) =>
+    fetch(`${server.url}/api${path}`, { ...init, headers: { Authorization: `Bearer ${server.token()}`, ...init.headers } });
+
+  const upload = (content, type, name) => {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type }), name);
+    return api('/files', { method: 'POST', body: form });
+  };
+
+  // The scan runs as a background job; wait for it to settle
+  const scanned = async (fileId) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const file = await (await api(`/files/${fileId}`)).json();
+      if (file.scan_status !== 'pending') return file;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`File ${fileId} was never scanned`);
+  };
+
+  before(async () => {
+    server = await startServer({ SCANNER: 'fake' });
+  });
+
+  after(() => server?.stop());
+
+  test('rejects content that does not match its declared image type', async () => {
+    const response = await upload('just some text', 'image/png', 'photo.png');
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'CONTENT_TYPE_MISMATCH');
+    assert.deepEqual((await (await api('/files')).json()).files, []);
+  });
+
+  test('rejects a program labelled as text', async () => {
+    const elf = Buffer.concat([Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1]), Buffer.alloc(64)]);
+    const response = await upload(elf, 'text/plain', 'notes.txt');
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'CONTENT_TYPE_MISMATCH');
+  });
+
+  test('makes a clean upload available once it is scanned', async () => {
+    const response = await upload('hello', 'text/plain', 'hello.txt');
+    assert.equal(response.status, 201);
+    const file = await scanned((await response.json()).id);
+    assert.equal(file.scan_status, 'clean');
+    const download = await api(`/files/${file.id}/preview?purpose=download`);
+    assert.equal(download.status, 200);
+    assert.equal(await download.text(), 'hello');
+  });
+
+  test('quarantines an infected upload and refuses to serve it', async () => {
+    const response = await upload(EICAR, 'text/plain', 'eicar.txt');
+    assert.equal(response.status, 201);
+    const file = await scanned((await response.json()).id);
+    assert.equal(file.scan_status, 'quarantined');
+    assert.equal(file.scan_signature, 'Eicar-Test-Signature');
+
+    for (const path of [`/files/${file.id}/preview?purpose=download`, `/files/${file.id}/download`]) {
+      const blocked = await api(path);
+      assert.equal(blocked.status, 409, path);
+      assert.equal((await blocked.json()).code, 'QUARANTINED', path);
+    }
+  });
+});
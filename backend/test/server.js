@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { createServer } from 'node:net';
+import { rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { signLocalToken } from '../auth.js';
+
+// Runs app.js in a child process against its own database and local storage directory, with the
+// local auth provider, so tests can talk to it over HTTP
+
+export const backendDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+export const AUTH_SECRET = 'test-secret';
+
+const freePort = async () => {
+  const server = createServer().listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address();
+  server.close();
+  return port;
+};
+
+export async function startServer(env = {}) {
+  const port = await freePort();
+  const name = `test-${process.pid}-${port}`;
+  const dataDir = join(backendDir, 'data');
+  const child = spawn(process.execPath, ['app.js'], {
+    cwd: backendDir,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      AUTH_PROVIDER: 'local',
+      AUTH_LOCAL_SECRET: AUTH_SECRET,
+      STORAGE_DRIVER: 'local',
+      LOCAL_STORAGE_PATH: join(dataDir, name),
+      DATABASE_PATH: `./data/${name}.db`,
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout.on('data', chunk => { output += chunk; });
+  child.stderr.on('data', chunk => { output += chunk; });
+
+  const url = `http://127.0.0.1:${port}`;
+  for (let attempt = 0; ; attempt++) {
+    if (child.exitCode !== null) throw new Error(`Backend exited during startup:\n${output}`);
+    const ready = await fetch(`${url}/api/health`).then(response => response.ok, () => false);
+    if (ready) break;
+    if (attempt >= 100) {
+      child.kill();
+      throw new Error(`Backend did not start:\n${output}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  return {
+    url,
+    // A bearer token for a user, valid for an hour unless expiresInSeconds says otherwise
+    token: (user = { uid: 'alice', email: 'alice@example.com' }, expiresInSeconds) =>
+      signLocalToken(AUTH_SECRET, user, expiresInSeconds),
+    output: () => output,
+    async stop() {
+      if (child.exitCode === null) {
+        child.kill('SIGTERM');
+        await once(child, 'exit');
+      }
+      await rm(join(dataDir, name), { recursive: true, force: true });
+      for (const suffix of ['', '-wal', '-shm']) await rm(join(dataDir, `${name}.db${suffix}`), { force: true });
+    },
+  };
+}
+
+// Calls the API as a user (alice unless given), sending FormData as is and anything else as JSON
+export const request = (server, method, path, body, user) => fetch(`${server.url}/api${path}`, {
+  method,
+  headers: {
+    Authorization: `Bearer ${server.token(user)}`,
+    ...(body && !(body instanceof FormData) && { 'Content-Type': 'application/json' }),
+  },
+  body: body instanceof FormData ? body : body && JSON.stringify(body),
+});
+
+// Like request, for calls that must succeed; resolves to the response body
+export async function api(server, method, path, body, user) {
+  const response = await request(server, method, path, body, user);
+  assert.ok(response.ok, `${method} ${path} failed with ${response.status}`);
+  return response.json();
+}
+
+// A form for POST /files or a new version, holding one text file and any other fields
+export function uploadForm(content, name, fields = {}) {
+  const form = new FormData();
+  form.append('file', new Blob([content], { type: 'text/plain' }), name);
+  for (const [key, value] of Object.entries(fields)) form.append(key, String(value));
+  return form;
+}
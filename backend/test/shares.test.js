@@ -0,0 +1,46 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { api, startServer, uploadForm } from './server.js';
+
+describe('public link downloads', () => {
+  let server;
+
+  const fetchPublic = (path, init) => fetch(`${server.url}${path}`, { redirect: 'manual', ...init });
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server?.stop());
+
+  test('hand out a URL that serves the file once', async () => {
+    const file = await api(server, 'POST', '/files', uploadForm('shared notes', 'notes.txt'));
+    const link = await api(server, 'POST', `/files/${file.id}/links`, { max_downloads: 1 });
+
+    const redirect = await fetchPublic(link.url);
+    assert.equal(redirect.status, 302);
+    const downloadUrl = redirect.headers.get('location');
+    const download = await fetchPublic(downloadUrl);
+    assert.equal(download.status, 200);
+    assert.match(download.headers.get('content-disposition'), /^attachment/);
+    assert.equal(await download.text(), 'shared notes');
+
+    assert.equal((await fetchPublic(downloadUrl)).status, 404);
+    assert.equal((await fetchPublic(link.url)).status, 410);
+  });
+
+  test('check the password before handing out a URL', async () => {
+    const file = await api(server, 'POST', '/files', uploadForm('secret notes', 'secret.txt'));
+    const link = await api(server, 'POST', `/files/${file.id}/links`, { password: 'hunter2' });
+    const post = (password) => fetchPublic(link.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+
+    assert.equal((await post('wrong')).status, 403);
+    const { downloadUrl } = await (await post('hunter2')).json();
+    assert.equal(await (await fetchPublic(downloadUrl)).text(), 'secret notes');
+    assert.equal((await fetchPublic(downloadUrl)).status, 404);
+  });
+});
@@ -0,0 +1,27 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { request, startServer } from './server.js';
+
+describe('resumable uploads', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server?.stop());
+
+  test('refuse a name with slashes', async () => {
+    for (const name of ['/../../thumbnails/12.webp', 'reports/q3.txt', 'a\\b.txt']) {
+      const response = await request(server, 'POST', '/uploads', { name, size: 10, content_type: 'text/plain' });
+      assert.equal(response.status, 400, name);
+      assert.equal((await response.json()).error, 'File name cannot contain slashes');
+    }
+  });
+
+  test('start with a plain name', async () => {
+    const response = await request(server, 'POST', '/uploads', { name: 'notes.txt', size: 10, content_type: 'text/plain' });
+    assert.equal(response.status, 201);
+    assert.equal((await response.json()).name, 'notes.txt');
+  });
+});
@@ -0,0 +1,110 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { once } from 'node:events';
+import { parseWebhookRequest, signPayload } from '../webhooks.js';
+import { api, request, startServer, uploadForm } from './server.js';
+
+describe('webhook requests', () => {
+  test('refuse localhost and private addresses', () => {
+    for (const url of ['http://localhost:8080/', 'http://127.0.0.1/', 'http://[::1]/', 'http://10.0.0.5/',
+      'http://192.168.1.1/', 'http://169.254.169.254/latest/meta-data', 'http://[::ffff:127.0.0.1]/', 'http://[fd00::1]/']) {
+      assert.equal(parseWebhookRequest({ url, events: ['file.uploaded'] }).error, 'url must point to a public host', url);
+    }
+    assert.ok(parseWebhookRequest({ url: 'https://hooks.example.com/drive', events: ['file.uploaded'] }).webhook);
+  });
+
+  test('allow private addresses when told to', () => {
+    assert.ok(parseWebhookRequest({ url: 'http://127.0.0.1:9000/', events: ['file.uploaded'] }, { allowPrivateHosts: true }).webhook);
+  });
+
+  test('clear the description with null', () => {
+    assert.deepEqual(parseWebhookRequest({ description: null }, { partial: true }), { webhook: { description: null } });
+  });
+});
+
+describe('webhook deliveries', () => {
+  let server;
+  let receiver;
+  const received = [];
+  // Requests to /stuck are never answered until the test is over
+  const stuck = [];
+
+  const uploadsOf = (fileId) => received
+    .filter(delivery => delivery.headers['x-webhook-event'] === 'file.uploaded')
+    .map(delivery => JSON.parse(delivery.body).data.file)
+    .filter(file => file.id === fileId);
+
+  const waitFor = async (check) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const value = check();
+      if (value) return value;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error('Timed out waiting for a delivery');
+  };
+
+  before(async () => {
+    receiver = createServer((req, res) => {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        if (req.url === '/stuck') return stuck.push(res);
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString() });
+        res.end('ok');
+      });
+    }).listen(0, '127.0.0.1');
+    await once(receiver, 'listening');
+    server = await startServer({ WEBHOOK_ALLOW_PRIVATE_HOSTS: 'true' });
+  });
+
+  after(async () => {
+    stuck.forEach(res => res.end());
+    receiver?.close();
+    await server?.stop();
+  });
+
+  test('a stuck receiver does not hold up other webhooks', async () => {
+    const base = `http://127.0.0.1:${receiver.address().port}`;
+    const slow = await request(server, 'POST', '/webhooks', { url: `${base}/stuck`, events: ['file.uploaded'] });
+    const fast = await request(server, 'POST', '/webhooks', { url: `${base}/hook`, events: ['file.uploaded'], description: 'Fast' });
+    assert.equal(slow.status, 201);
+    assert.equal(fast.status, 201);
+    const { id: slowId } = await slow.json();
+    const { secret } = await fast.json();
+
+    // Holds the stuck webhook's single delivery slot before the upload
+    await api(server, 'POST', `/webhooks/${slowId}/ping`);
+    await waitFor(() => stuck.length === 1);
+
+    const upload = await request(server, 'POST', '/files', uploadForm('hello', 'hello.txt'));
+    assert.equal(upload.status, 201);
+
+    const delivery = await waitFor(() => received.find(entry => entry.headers['x-webhook-event'] === 'file.uploaded'));
+    const payload = JSON.parse(delivery.body);
+    assert.equal(payload.data.file.name, 'hello.txt');
+    assert.equal(delivery.headers['x-webhook-signature'],
+      signPayload(secret, delivery.headers['x-webhook-timestamp'], delivery.body));
+  });
+
+  test('new versions and copies are uploads too', async () => {
+    const file = await api(server, 'POST', '/files', uploadForm('one', 'report.txt'));
+    await waitFor(() => uploadsOf(file.id).length === 1);
+
+    assert.equal((await request(server, 'POST', `/files/${file.id}/versions`, uploadForm('one, revised', 'report.txt'))).status, 201);
+    const [, revised] = await waitFor(() => uploadsOf(file.id).length === 2 && uploadsOf(file.id));
+    assert.equal(revised.size, 'one, revised'.length);
+
+    const response = await request(server, 'POST', `/files/${file.id}/copy`, {});
+    assert.equal(response.status, 201);
+    const copy = await response.json();
+    const [copied] = await waitFor(() => uploadsOf(copy.id).length === 1 && uploadsOf(copy.id));
+    assert.equal(copied.name, copy.name);
+  });
+
+  test('a description can be cleared', async () => {
+    const created = await api(server, 'POST', '/webhooks', { url: 'https://hooks.example.com/a', events: ['file.deleted'], description: 'Old' });
+    const updated = await api(server, 'PATCH', `/webhooks/${created.id}`, { description: null });
+    assert.equal(updated.description, null);
+  });
+});
@@ -0,0 +1,32 @@
+import { runWorker } from './workers/index.js';
+
+// Content types whose text gets extracted and indexed for content search
+const TEXT_BEARING_TYPES = /^(text\/.*|application\/(json|pdf|xml|x-yaml|x-ndjson))$/i;
+
+export const MAX_EXTRACT_BYTES = 50 * 1024 * 1024;
+export const MAX_INDEXED_CHARS = 1024 * 1024;
+const EXTRACT_TIMEOUT_MS = 60 * 1000;
+
+export const isTextBearing = (contentType) => TEXT_BEARING_TYPES.test((contentType || '').split(';')[0].trim());
+
+// Reads at most maxBytes from a stream; truncated tells whether anything was left over
+export async function readStreamPrefix(stream, maxBytes) {
+  const chunks = [];
+  let length = 0;
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+    length += chunk.length;
+    if (length >= maxBytes) {
+      stream.destroy();
+      return { buffer: Buffer.concat(chunks).subarray(0, maxBytes), truncated: true };
+    }
+  }
+  return { buffer: Buffer.concat(chunks), truncated: false };
+}
+
+// Extracts plain text in a worker thread, giving up after EXTRACT_TIMEOUT_MS
+export const extractText = (buffer, contentType) => runWorker('extractText.js', {
+  data: new Uint8Array(buffer),
+  contentType: contentType.split(';')[0].trim(),
+  maxChars: MAX_INDEXED_CHARS,
+}, { timeoutMs: EXTRACT_TIMEOUT_MS });
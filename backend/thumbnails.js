@@ -0,0 +1,25 @@
+import { runWorker } from './workers/index.js';
+
+// Raster formats sharp decodes out of the box, plus PDFs (first page). SVG is left out on purpose:
+// rendering untrusted SVG pulls in a much larger attack surface than the thumbnail is worth.
+const THUMBNAIL_TYPES = /^(image\/(jpeg|png|gif|webp|avif|tiff)|application\/pdf)$/i;
+
+export const THUMBNAIL_SIZE = 320;
+export const THUMBNAIL_CONTENT_TYPE = 'image/webp';
+export const MAX_THUMBNAIL_SOURCE_BYTES = 50 * 1024 * 1024;
+const THUMBNAIL_TIMEOUT_MS = 60 * 1000;
+
+export const canThumbnail = (contentType) => THUMBNAIL_TYPES.test((contentType || '').split(';')[0].trim());
+
+// Storage key for a revision's thumbnail; it sits next to the original under thumbnails/
+export const thumbnailKeyFor = (s3Key) => `thumbnails/${s3Key}.webp`;
+
+// Renders a WebP thumbnail in a worker thread and resolves with its bytes
+export const renderThumbnail = async (buffer, contentType) => {
+  const data = await runWorker('renderThumbnail.js', {
+    data: new Uint8Array(buffer),
+    contentType: contentType.split(';')[0].trim().toLowerCase(),
+    size: THUMBNAIL_SIZE,
+  }, { timeoutMs: THUMBNAIL_TIMEOUT_MS });
+  return Buffer.from(data);
+};
@@ -0,0 +1,76 @@
+// Client-side encrypted ("vault") files. Browsers encrypt vault files before uploading them; the
+// server stores the ciphertext and the parameters the owner's browser needs to decrypt it, never the
+// key. Keys come from the owner's passphrase: PBKDF2 gives a master key, and HKDF with a per-file
+// salt turns that into the file's AES-256-GCM key. The plaintext is encrypted in chunks of
+// chunk_size bytes, each carrying its own 16-byte authentication tag.
+
+export const VAULT_CIPHER = 'AES-256-GCM';
+export const VAULT_KDF = 'PBKDF2-SHA256';
+
+const TAG_BYTES = 16;
+const MIN_ITERATIONS = 100000;
+const MAX_ITERATIONS = 10000000;
+const MIN_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const CONTENT_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+
+// Whether value is base64 for exactly `bytes` bytes (any length when bytes is omitted)
+const isBase64 = (value, bytes) => {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) return false;
+  return bytes === undefined || Buffer.from(value, 'base64').length === bytes;
+};
+
+const isIterationCount = (value) => Number.isInteger(value) && value >= MIN_ITERATIONS && value <= MAX_ITERATIONS;
+
+// Stored size of a vault file: its plaintext plus one tag per chunk (an empty file is one empty chunk)
+export const encryptedSize = (plaintextSize, chunkSize) =>
+  plaintextSize + TAG_BYTES * Math.max(1, Math.ceil(plaintextSize / chunkSize));
+
+// Encryption parameters sent with a vault upload (an object, or JSON text from a form field) for
+// content of `size` bytes. Returns { encryption } as stored (JSON text) or { error }.
+export function parseEncryption(raw, size) {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: 'encryption must be a JSON object' };
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'encryption must be a JSON object' };
+
+  const { v, cipher, kdf, kdf_salt, iterations, file_salt, nonce, chunk_size, plaintext_size, content_type } = value;
+  if (v !== 1) return { error: 'Unsupported encryption version' };
+  if (cipher !== VAULT_CIPHER || kdf !== VAULT_KDF) return { error: `Vault files must use ${VAULT_CIPHER} with ${VAULT_KDF}` };
+  if (!isBase64(kdf_salt, 16) || !isBase64(file_salt, 16)) return { error: 'kdf_salt and file_salt must be 16 bytes of base64' };
+  if (!isIterationCount(iterations)) return { error: `iterations must be between ${MIN_ITERATIONS} and ${MAX_ITERATIONS}` };
+  if (!isBase64(nonce, 8)) return { error: 'nonce must be 8 bytes of base64' };
+  if (!Number.isInteger(chunk_size) || chunk_size < MIN_CHUNK_SIZE || chunk_size > MAX_CHUNK_SIZE) {
+    return { error: `chunk_size must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes` };
+  }
+  if (!Number.isInteger(plaintext_size) || plaintext_size < 0) return { error: 'plaintext_size must be a non-negative integer' };
+  if (typeof content_type !== 'string' || content_type.length > 255 || !CONTENT_TYPE.test(content_type)) {
+    return { error: 'content_type must be a MIME type' };
+  }
+  if (encryptedSize(plaintext_size, chunk_size) !== size) {
+    return { error: 'The encrypted size does not match plaintext_size and chunk_size' };
+  }
+
+  return {
+    encryption: JSON.stringify({
+      v, cipher, kdf, kdf_salt, iterations, file_salt, nonce, chunk_size, plaintext_size, content_type: content_type.toLowerCase(),
+    }),
+  };
+}
+
+// A user's vault settings from a request body: the PBKDF2 salt and iteration count, and a known
+// value encrypted under the master key (check, with its 12-byte IV) that lets the browser tell a
+// wrong passphrase from a right one. Returns { vault } or { error }.
+export function parseVaultSettings(body) {
+  const { kdf_salt, iterations, check_iv, check } = body || {};
+  if (!isBase64(kdf_salt, 16)) return { error: 'kdf_salt must be 16 bytes of base64' };
+  if (!isIterationCount(iterations)) return { error: `iterations must be between ${MIN_ITERATIONS} and ${MAX_ITERATIONS}` };
+  if (!isBase64(check_iv, 12)) return { error: 'check_iv must be 12 bytes of base64' };
+  if (!isBase64(check) || check.length > 256) return { error: 'check must be base64' };
+  return { vault: { kdf_salt, iterations, check_iv, check } };
+}
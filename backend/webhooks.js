@@ -0,0 +1,402 @@
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+// File events a webhook can subscribe to; ping is sent on request to test a receiver.
+// file.uploaded covers every write of new content: uploads, new versions and copies.
+export const WEBHOOK_EVENTS = ['file.uploaded', 'file.trashed', 'file.restored', 'file.deleted'];
+
+const MAX_WEBHOOKS_PER_USER = 20;
+const MIN_SECRET_LENGTH = 16;
+const REQUEST_TIMEOUT_MS = 10000;
+// Deliveries sent at once, each to a different webhook
+const MAX_CONCURRENT_DELIVERIES = 4;
+// What is kept of a receiver's response, for the delivery log
+const MAX_RESPONSE_CHARS = 1000;
+
+const generateSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// Addresses a webhook may not reach: loopback, private networks, link-local (cloud metadata
+// services), carrier-grade NAT, multicast and reserved ranges. BlockList checks IPv4-mapped IPv6
+// addresses against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4'));
+[['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]
+  .forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+const isPrivateAddress = (address) => PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Whether a URL's host is obviously internal without a DNS lookup: localhost or a private address
+const isPrivateHost = (url) => {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return isIP(host) !== 0 && isPrivateAddress(host);
+};
+
+// Refuses a delivery URL whose host resolves to a private address. fetch resolves the name again,
+// so this narrows rather than closes the window for DNS rebinding; redirects aren't followed.
+const checkDeliveryHost = async (url) => {
+  const parsed = new URL(url);
+  if (isPrivateHost(parsed)) throw new Error(`${parsed.hostname} is a private address`);
+  const addresses = await lookup(parsed.hostname.replace(/^\[|\]$/g, ''), { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) throw new Error(`${parsed.hostname} resolves to a private address (${blocked.address})`);
+};
+
+// The file fields sent in payloads; storage keys and other internals stay out
+const payloadFile = (file) => ({
+  id: file.id,
+  name: file.name,
+  size: file.size,
+  content_type: file.content_type,
+  parent_id: file.parent_id ?? null,
+  sha256: file.sha256 ?? null,
+  created_at: file.created_at,
+  trashed_at: file.trashed_at ?? null,
+});
+
+// Validates a create (or, with partial, an update) request: { url, events, description, active }.
+// URLs on localhost or private addresses are refused unless allowPrivateHosts is set. Returns
+// { webhook } or { error }.
+export function parseWebhookRequest(body, { partial = false, allowPrivateHosts = false } = {}) {
+  const webhook = {};
+  if (!partial || body?.url !== undefined) {
+    let url;
+    try {
+      url = new URL(body?.url);
+    } catch {
+      return { error: 'url must be a valid URL' };
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return { error: 'url must be an http or https URL' };
+    if (!allowPrivateHosts && isPrivateHost(url)) return { error: 'url must point to a public host' };
+    webhook.url = url.toString();
+  }
+  if (!partial || body?.events !== undefined) {
+    const { events } = body ?? {};
+    if (!Array.isArray(events) || events.length === 0 || !events.every(event => WEBHOOK_EVENTS.includes(event))) {
+      return { error: `events must be a list of ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    webhook.events = WEBHOOK_EVENTS.filter(event => events.includes(event));
+  }
+  // null clears the description
+  if (body?.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== 'string' || body.description.length > 200)) {
+      return { error: 'description must be text of up to 200 characters' };
+    }
+    webhook.description = body.description?.trim() || null;
+  }
+  if (body?.active !== undefined) {
+    if (typeof body.active !== 'boolean') return { error: 'active must be true or false' };
+    webhook.active = body.active;
+  }
+  if (body?.secret !== undefined && body.secret !== null) {
+    if (typeof body.secret !== 'string' || body.secret.length < MIN_SECRET_LENGTH) {
+      return { error: `secret must be at least ${MIN_SECRET_LENGTH} characters` };
+    }
+    webhook.secret = body.secret;
+  }
+  return { webhook };
+}
+
+// Signature of a delivery, sent as X-Webhook-Signature: the HMAC-SHA256 of "<timestamp>.<body>"
+// with the webhook's secret. Receivers recompute it, and check the timestamp is recent to refuse
+// replays.
+export const signPayload = (secret, timestamp, body) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Outgoing webhooks: users subscribe URLs to events on the files they own. Each event becomes a
+// row in webhook_deliveries, which is both the delivery queue and the log. Each webhook's deliveries
+// are POSTed in order, one at a time, while up to concurrency webhooks are served at once, so a slow
+// receiver only holds up its own queue. A failed delivery is retried with exponential backoff until
+// maxAttempts, and any delivery can be sent again later as a new one.
+export function createWebhooks(db, {
+  pollIntervalMs = 2000,
+  maxAttempts = 6,
+  retryBaseSeconds = 30,
+  retentionDays = 30,
+  concurrency = MAX_CONCURRENT_DELIVERIES,
+  allowPrivateHosts = false,
+} = {}) {
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      owner_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      events TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      description TEXT,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_webhooks_owner ON webhooks (owner_id)').run();
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      response_body TEXT,
+      last_error TEXT,
+      duration_ms INTEGER,
+      redelivery_of INTEGER,
+      next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id)').run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries (status, next_attempt_at)').run();
+
+  const insertWebhook = db.prepare(`
+    INSERT INTO webhooks (owner_id, url, events, secret, description) VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const getWebhookRow = db.prepare('SELECT * FROM webhooks WHERE id = ? AND owner_id = ?');
+
+  // Each webhook with its most recent delivery, for the settings list
+  const selectWebhooks = db.prepare(`
+    SELECT webhooks.*,
+      (SELECT status FROM webhook_deliveries WHERE webhook_id = webhooks.id ORDER BY id DESC LIMIT 1) AS last_status,
+      (SELECT created_at FROM webhook_deliveries WHERE webhook_id = webhooks.id ORDER BY id DESC LIMIT 1) AS last_delivery_at
+    FROM webhooks WHERE owner_id = ? ORDER BY created_at, id
+  `);
+
+  const countWebhooks = db.prepare('SELECT COUNT(*) AS count FROM webhooks WHERE owner_id = ?');
+
+  const updateWebhook = db.prepare(`
+    UPDATE webhooks SET url = ?, events = ?, secret = ?, description = ?, active = ? WHERE id = ? AND owner_id = ?
+  `);
+
+  const selectSubscribers = db.prepare('SELECT id FROM webhooks WHERE owner_id = ? AND active = 1 AND instr(events, ?) > 0');
+
+  const deleteWebhookRow = db.prepare('DELETE FROM webhooks WHERE id = ? AND owner_id = ?');
+
+  const deleteWebhookDeliveries = db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?');
+
+  const insertDelivery = db.prepare(`
+    INSERT INTO webhook_deliveries (webhook_id, event, payload, redelivery_of) VALUES (?, ?, ?, ?)
+  `);
+
+  const getDelivery = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?');
+
+  const selectDeliveries = db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ? OFFSET ?');
+
+  const countDeliveries = db.prepare('SELECT COUNT(*) AS count FROM webhook_deliveries WHERE webhook_id = ?');
+
+  // The oldest due delivery of each active webhook; deliveries of paused webhooks wait until the
+  // webhook is turned back on
+  const selectDueDeliveries = db.prepare(`
+    SELECT webhook_deliveries.*, webhooks.url, webhooks.secret FROM webhook_deliveries
+    JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+    WHERE webhooks.active = 1 AND webhook_deliveries.id = (
+      SELECT MIN(due.id) FROM webhook_deliveries due
+      WHERE due.webhook_id = webhooks.id AND due.status = 'pending' AND due.next_attempt_at <= CURRENT_TIMESTAMP
+    )
+    ORDER BY webhook_deliveries.id
+  `);
+
+  const recordAttempt = db.prepare(`
+    UPDATE webhook_deliveries SET status = ?, attempts = attempts + 1, response_status = ?, response_body = ?,
+      last_error = ?, duration_ms = ?, next_attempt_at = datetime('now', ?), updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+
+  const purgeOldDeliveries = db.prepare(`
+    DELETE FROM webhook_deliveries WHERE status != 'pending' AND updated_at < datetime('now', ?)
+  `);
+
+  const removeWebhook = db.transaction((webhookId, ownerId) => {
+    if (deleteWebhookRow.run(webhookId, ownerId).changes === 0) return false;
+    deleteWebhookDeliveries.run(webhookId);
+    return true;
+  });
+
+  // The secret is shown when a webhook is created or given a new one; lists show its end only
+  const formatWebhook = ({ owner_id: _ownerId, secret, ...row }) => ({
+    ...row,
+    events: row.events.split(','),
+    active: !!row.active,
+    secret_hint: secret.slice(-4),
+  });
+
+  const formatDelivery = ({ url: _url, secret: _secret, ...row }) => ({ ...row, payload: JSON.parse(row.payload) });
+
+  const enqueue = (webhookId, event, data) => {
+    const payload = JSON.stringify({ id: randomUUID(), event, created_at: new Date().toISOString(), data });
+    return insertDelivery.run(webhookId, event, payload, null).lastInsertRowid;
+  };
+
+  const attempt = async (delivery) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    let responseStatus = null;
+    let responseBody = null;
+    let error = null;
+    try {
+      if (!allowPrivateHosts) await checkDeliveryHost(delivery.url);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Drive-Webhooks/1',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signPayload(delivery.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_CHARS);
+      if (!response.ok) error = `Receiver responded with ${response.status}`;
+    } catch (e) {
+      error = e.name === 'TimeoutError' ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds` : String(e.cause?.message || e.message || e);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const status = !error ? 'succeeded' : attempts >= maxAttempts ? 'failed' : 'pending';
+    const retryIn = status === 'pending' ? `+${retryBaseSeconds * 2 ** (attempts - 1)} seconds` : '+0 seconds';
+    recordAttempt.run(status, responseStatus, responseBody, error, Date.now() - started, retryIn, delivery.id);
+    if (status === 'failed') console.warn(`Webhook delivery ${delivery.id} to ${delivery.url} failed permanently: ${error}`);
+  };
+
+  let timer = null;
+  // Ids of the webhooks with a delivery on its way
+  const sending = new Set();
+
+  // Starts the due deliveries of webhooks that have none on its way, up to concurrency; each one
+  // that finishes looks for more
+  const tick = () => {
+    if (!timer) return;
+    try {
+      for (const delivery of selectDueDeliveries.all()) {
+        if (sending.size >= concurrency) break;
+        if (sending.has(delivery.webhook_id)) continue;
+        sending.add(delivery.webhook_id);
+        attempt(delivery)
+          .catch(e => console.error('Webhook delivery error:', e))
+          .finally(() => {
+            sending.delete(delivery.webhook_id);
+            wake();
+          });
+      }
+    } catch (e) {
+      console.error('Webhook delivery error:', e);
+    }
+  };
+
+  const poll = () => {
+    try {
+      purgeOldDeliveries.run(`-${retentionDays} days`);
+    } catch (e) {
+      console.error('Webhook log cleanup error:', e);
+    }
+    tick();
+  };
+
+  const wake = () => {
+    if (timer) setImmediate(tick);
+  };
+
+  return {
+    list(ownerId) {
+      return selectWebhooks.all(ownerId).map(formatWebhook);
+    },
+
+    get(webhookId, ownerId) {
+      const row = getWebhookRow.get(webhookId, ownerId);
+      return row ? formatWebhook(row) : null;
+    },
+
+    // Takes a parsed create request; returns { webhook, secret } or { error }
+    create(ownerId, { url, events, description = null, secret = generateSecret() }) {
+      if (countWebhooks.get(ownerId).count >= MAX_WEBHOOKS_PER_USER) {
+        return { error: `You can have up to ${MAX_WEBHOOKS_PER_USER} webhooks` };
+      }
+      const result = insertWebhook.run(ownerId, url, events.join(','), secret, description);
+      return { webhook: this.get(result.lastInsertRowid, ownerId), secret };
+    },
+
+    // Applies a partial update; rotateSecret replaces the secret with a generated one. Returns
+    // { webhook, secret } (secret only when it changed), or null for an unknown webhook.
+    update(webhookId, ownerId, changes, { rotateSecret = false } = {}) {
+      const row = getWebhookRow.get(webhookId, ownerId);
+      if (!row) return null;
+      const secret = rotateSecret ? generateSecret() : changes.secret;
+      updateWebhook.run(
+        changes.url ?? row.url,
+        changes.events ? changes.events.join(',') : row.events,
+        secret ?? row.secret,
+        changes.description !== undefined ? changes.description : row.description,
+        changes.active !== undefined ? (changes.active ? 1 : 0) : row.active,
+        webhookId,
+        ownerId
+      );
+      if (changes.active) wake();
+      return { webhook: this.get(webhookId, ownerId), secret };
+    },
+
+    // Whether the user had a webhook with this id; its delivery log goes with it
+    remove(webhookId, ownerId) {
+      return removeWebhook(webhookId, ownerId);
+    },
+
+    // Queues a delivery of the event to each of the file owner's webhooks that subscribe to it
+    dispatch(event, file) {
+      const data = { file: payloadFile(file) };
+      let queued = 0;
+      for (const { id } of selectSubscribers.all(file.owner_id, event)) {
+        enqueue(id, event, data);
+        queued++;
+      }
+      if (queued) wake();
+    },
+
+    // Queues a ping to one webhook, whatever it subscribes to
+    ping(webhookId) {
+      const deliveryId = enqueue(webhookId, 'ping', {});
+      wake();
+      return formatDelivery(getDelivery.get(deliveryId, webhookId));
+    },
+
+    deliveries(webhookId, { page = 1, limit = 20 } = {}) {
+      const totalItems = countDeliveries.get(webhookId).count;
+      const totalPages = Math.ceil(totalItems / limit);
+      return {
+        deliveries: selectDeliveries.all(webhookId, limit, (page - 1) * limit).map(formatDelivery),
+        pagination: { currentPage: page, totalItems, totalPages, itemsPerPage: limit, hasNext: page < totalPages, hasPrev: page > 1 },
+      };
+    },
+
+    // Sends a delivery's payload again as a new delivery; receivers can tell it is the same
+    // event by the payload id. Returns the new delivery, or null for an unknown one.
+    redeliver(webhookId, deliveryId) {
+      const original = getDelivery.get(deliveryId, webhookId);
+      if (!original) return null;
+      const result = insertDelivery.run(webhookId, original.event, original.payload, original.id);
+      wake();
+      return formatDelivery(getDelivery.get(result.lastInsertRowid, webhookId));
+    },
+
+    start() {
+      if (timer) return;
+      timer = setInterval(poll, pollIntervalMs);
+      timer.unref();
+      setImmediate(poll);
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = null;
+    },
+  };
+}
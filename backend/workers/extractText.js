@@ -0,0 +1,24 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { PDFParse } from 'pdf-parse';
+
+// Runs in a worker thread so large or hostile PDFs can't stall the API's event loop.
+// workerData: { data: Uint8Array, contentType, maxChars }
+const { data, contentType, maxChars } = workerData;
+
+const extract = async () => {
+  if (contentType === 'application/pdf') {
+    const parser = new PDFParse({ data });
+    try {
+      const result = await parser.getText();
+      return result.text;
+    } finally {
+      await parser.destroy();
+    }
+  }
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('utf8');
+};
+
+// NUL can't be indexed and STX/ETX are reserved for snippet highlighting
+extract()
+  .then(text => parentPort.postMessage({ result: text.replace(/[\u0000\u0002\u0003]/g, '').slice(0, maxChars) }))
+  .catch(e => parentPort.postMessage({ error: e.message || String(e) }));
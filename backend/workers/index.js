@@ -0,0 +1,27 @@
+import { Worker } from 'node:worker_threads';
+
+// Runs one of the scripts in this directory in a worker thread and resolves with the value it
+// posts back ({ result } or { error }), terminating it if it runs past timeoutMs
+export function runWorker(script, workerData, { timeoutMs = 60 * 1000, transferList } = {}) {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL(`./${script}`, import.meta.url), {
+      workerData,
+      transferList,
+      resourceLimits: { maxOldGenerationSizeMb: 512 },
+    });
+    const timeout = setTimeout(() => {
+      worker.terminate();
+      reject(new Error(`${script} timed out`));
+    }, timeoutMs);
+    worker.once('message', (message) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      if (message.error) reject(new Error(message.error));
+      else resolve(message.result);
+    });
+    worker.once('error', (e) => {
+      clearTimeout(timeout);
+      reject(e);
+    });
+  });
+}
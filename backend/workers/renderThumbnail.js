@@ -0,0 +1,30 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import sharp from 'sharp';
+import { PDFParse } from 'pdf-parse';
+
+// Runs in a worker thread so decoding huge images or rendering PDFs can't stall the API.
+// workerData: { data: Uint8Array, contentType, size }
+const { data, contentType, size } = workerData;
+
+// PDFs are rendered to PNG (first page only, at twice the thumbnail width) before resizing
+const sourceImage = async () => {
+  if (contentType !== 'application/pdf') return data;
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getScreenshot({ partial: [1], desiredWidth: size * 2, imageDataUrl: false });
+    if (!result.pages.length) throw new Error('PDF has no pages');
+    return result.pages[0].data;
+  } finally {
+    await parser.destroy();
+  }
+};
+
+const render = async () => sharp(await sourceImage(), { animated: false })
+  .rotate()
+  .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+  .webp({ quality: 75 })
+  .toBuffer();
+
+render()
+  .then(buffer => parentPort.postMessage({ result: new Uint8Array(buffer) }))
+  .catch(e => parentPort.postMessage({ error: e.message || String(e) }));
@@ -0,0 +1,190 @@
+import { createWriteStream, openAsBlob } from 'node:fs'
+import { open, rename, stat, unlink } from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+import { Readable } from 'node:stream'
+import type { ReadableStream } from 'node:stream/web'
+import { pipeline } from 'node:stream/promises'
+import { contentTypeFor } from './contentTypes.js'
+import type { FileItem, FileVersion, FilesResponse, Section, UploadSession } from './types.js'
+
+// Files up to this size go up in a single request; larger ones use the resumable protocol, as in
+// the web app
+export const SIMPLE_UPLOAD_LIMIT = 8 * 1024 * 1024
+
+const PAGE_SIZE = 100
+const PART_RETRIES = 3
+
+// An error response from the API, with its { error, code } body
+export class DriveApiError extends Error {
+  status: number
+  code?: string
+
+  constructor(message: string, status: number, code?: string) {
+    super(message)
+    this.name = 'DriveApiError'
+    this.status = status
+    this.code = code
+  }
+}
+
+export interface DriveClientOptions {
+  // Where the backend runs, e.g. http://localhost:5000
+  url: string
+  // A personal access token (or a browser session token)
+  token: string
+}
+
+interface RequestOptions {
+  query?: Record<string, string | number | undefined>
+  json?: unknown
+  body?: RequestInit['body']
+  headers?: Record<string, string>
+}
+
+export type DriveClient = ReturnType<typeof createDriveClient>
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Client for the /api/files, /api/folders and /api/uploads routes
+export function createDriveClient({ url, token }: DriveClientOptions) {
+  const baseUrl = url.replace(/\/+$/, '')
+
+  const send = async (method: string, path: string, { query, json, body, headers = {} }: RequestOptions = {}) => {
+    const target = new URL(`${baseUrl}/api${path}`)
+    for (const [name, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) target.searchParams.set(name, String(value))
+    }
+    let response: Response
+    try {
+      response = await fetch(target, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(json !== undefined && { 'Content-Type': 'application/json' }),
+          ...headers,
+        },
+        body: json !== undefined ? JSON.stringify(json) : body,
+      })
+    } catch (err) {
+      throw new Error(`Could not reach ${baseUrl}: ${err instanceof Error ? err.message : err}`)
+    }
+    if (!response.ok) {
+      // Prefer the backend's { error } message when there is one
+      const data = await response.json().catch(() => null) as { error?: string, code?: string } | null
+      throw new DriveApiError(data?.error ?? `${method} ${path} failed with ${response.status}`, response.status, data?.code)
+    }
+    return response
+  }
+
+  const request = async <T>(method: string, path: string, options?: RequestOptions) =>
+    (await send(method, path, options)).json() as Promise<T>
+
+  // Every file a paginated list route returns, fetched page by page
+  const listPages = async (path: string, query: RequestOptions['query'] = {}) => {
+    const files: FileItem[] = []
+    for (let page = 1; ; page++) {
+      const response = await request<FilesResponse>('GET', path, { query: { ...query, page, limit: PAGE_SIZE } })
+      files.push(...response.files)
+      if (!response.pagination.hasNext) return files
+    }
+  }
+
+  const uploadSimple = async (path: string, name: string, parentId: number | null) => {
+    const formData = new FormData()
+    formData.append('file', await openAsBlob(path, { type: contentTypeFor(name) }), name)
+    if (parentId !== null) formData.append('parent_id', String(parentId))
+    return request<FileItem>('POST', '/files', { body: formData })
+  }
+
+  // Creates an upload session and sends the file part by part; the session is abandoned on failure
+  const uploadResumable = async (path: string, name: string, parentId: number | null, size: number) => {
+    const session = await request<UploadSession>('POST', '/uploads', {
+      json: { name, size, content_type: contentTypeFor(name), parent_id: parentId },
+    })
+    const handle = await open(path, 'r')
+    try {
+      for (let part = 1; part <= session.total_parts; part++) {
+        const start = (part - 1) * session.part_size
+        const buffer = Buffer.alloc(Math.min(session.part_size, size - start))
+        await handle.read(buffer, 0, buffer.length, start)
+        for (let attempt = 1; ; attempt++) {
+          try {
+            await send('PUT', `/uploads/${session.upload_id}/parts/${part}`, {
+              body: buffer,
+              headers: { 'Content-Type': 'application/octet-stream' },
+            })
+            break
+          } catch (err) {
+            // Client errors won't go away on a retry
+            if (attempt >= PART_RETRIES || (err instanceof DriveApiError && err.status < 500)) throw err
+            await wait(1000 * attempt)
+          }
+        }
+      }
+      return await request<FileItem>('POST', `/uploads/${session.upload_id}/complete`)
+    } catch (err) {
+      await send('DELETE', `/uploads/${session.upload_id}`).catch(() => undefined)
+      throw err
+    } finally {
+      await handle.close()
+    }
+  }
+
+  return {
+    baseUrl,
+
+    // Every file in a section
+    listFiles({ section = 'drive', q }: { section?: Section, q?: string } = {}) {
+      return listPages('/files', { section, q })
+    },
+
+    // The files directly in a folder (null for the root), leaving out trashed ones
+    listFolder(folderId: number | null) {
+      return listPages(`/folders/${folderId ?? 'root'}/children`)
+    },
+
+    getFile(fileId: number) {
+      return request<FileItem>('GET', `/files/${fileId}`)
+    },
+
+    // Uploads a local file as a new drive file, under parentId (null for the root)
+    async uploadFile(path: string, { parentId = null, name = basename(path) }: { parentId?: number | null, name?: string } = {}) {
+      const { size } = await stat(path)
+      return size > SIMPLE_UPLOAD_LIMIT ? uploadResumable(path, name, parentId, size) : uploadSimple(path, name, parentId)
+    },
+
+    // Uploads a local file as the new current version of a drive file
+    async uploadVersion(fileId: number, path: string) {
+      const formData = new FormData()
+      formData.append('file', await openAsBlob(path, { type: contentTypeFor(path) }), basename(path))
+      return request<FileVersion>('POST', `/files/${fileId}/versions`, { body: formData })
+    },
+
+    // Saves a file's current content to dest. It is written next to dest first and renamed into
+    // place, so an interrupted download never leaves a partial file behind.
+    async download(fileId: number, dest: string) {
+      const response = await send('GET', `/files/${fileId}/preview`, { query: { purpose: 'download' } })
+      const partial = join(dirname(dest), `.${basename(dest)}.drive-download`)
+      try {
+        await pipeline(Readable.fromWeb(response.body as ReadableStream), createWriteStream(partial))
+        await rename(partial, dest)
+      } catch (err) {
+        await unlink(partial).catch(() => undefined)
+        throw err
+      }
+    },
+
+    trash(fileId: number) {
+      return request<{ message: string }>('POST', `/files/${fileId}/trash`)
+    },
+
+    restore(fileId: number) {
+      return request<{ message: string }>('POST', `/files/${fileId}/restore`)
+    },
+
+    // Deletes a file for good
+    remove(fileId: number) {
+      return request<{ message: string }>('DELETE', `/files/${fileId}`)
+    },
+  }
+}
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+import { stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { DriveApiError, createDriveClient } from './client.js'
+import type { DriveClient } from './client.js'
+import { STATE_FILE, syncDirectory } from './sync.js'
+import type { SyncReport } from './sync.js'
+import type { FileItem, Section } from './types.js'
+
+const USAGE = `Usage: drive <command> [options]
+
+Commands:
+  ls                       List files (--section, --folder, --query)
+  upload <path>...         Upload files (--folder)
+  download <id> [dest]     Download a file to dest (a file or directory; default: here)
+  trash <id>...            Move files to trash
+  restore <id>...          Restore files from trash
+  delete <id>...           Delete files for good
+  sync <dir>               Two-way sync of a directory's files with a drive folder
+                           (--folder, --prefer local|remote). Subdirectories and hidden
+                           files are skipped; state is kept in <dir>/${STATE_FILE}.
+
+Options:
+  --url <url>              Backend URL (env DRIVE_URL, default http://localhost:5000)
+  --token <token>          Personal access token (env DRIVE_TOKEN)
+  --folder <id|root>       Drive folder (default: all files for ls, the root otherwise)
+  --section <name>         drive, starred, trashed or all (ls; default drive)
+  -q, --query <text>       Filter by name (ls)
+  --prefer <side>          Settle sync conflicts in favour of local or remote
+  -n, --dry-run            Show what would be done without doing it
+  --json                   Print results as JSON
+  -h, --help               Show this help
+
+Exit status: 0 on success, 1 on errors, 2 on bad usage, 3 when sync left conflicts.`
+
+const SECTIONS: Section[] = ['drive', 'starred', 'trashed', 'all']
+
+const isSection = (value: string): value is Section => (SECTIONS as string[]).includes(value)
+
+// Bad arguments; reported with the usage and exit status 2
+class UsageError extends Error {}
+
+const formatSize = (bytes: number) => {
+  if (bytes === 0) return '0 B'
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1)
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${sizes[i]}`
+}
+
+const parseFileId = (value: string) => {
+  const id = Number(value)
+  if (!Number.isInteger(id) || id < 1) throw new UsageError(`Not a file id: ${value}`)
+  return id
+}
+
+// undefined when not given; null for the root
+const parseFolder = (value: string | undefined) => {
+  if (value === undefined) return undefined
+  return value === 'root' ? null : parseFileId(value)
+}
+
+const { values: options, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        url: { type: 'string' },
+        token: { type: 'string' },
+        folder: { type: 'string' },
+        section: { type: 'string' },
+        query: { type: 'string', short: 'q' },
+        prefer: { type: 'string' },
+        'dry-run': { type: 'boolean', short: 'n' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`)
+    process.exit(2)
+  }
+})()
+
+const dryRun = !!options['dry-run']
+
+const print = (json: unknown, text: string) => console.log(options.json ? JSON.stringify(json, null, 2) : text)
+
+// Runs an action on each file id; one failure doesn't stop the rest
+const eachFile = async (ids: string[], [verb, done]: [string, string], run: (id: number) => Promise<unknown>) => {
+  if (ids.length === 0) throw new UsageError(`Which files should I ${verb}?`)
+  const results = []
+  for (const id of ids.map(parseFileId)) {
+    try {
+      if (!dryRun) await run(id)
+      results.push({ id, ok: true })
+    } catch (err) {
+      results.push({ id, ok: false, error: (err as Error).message })
+      process.exitCode = 1
+    }
+  }
+  print({ dryRun, results }, results.map(result => result.ok
+    ? `${dryRun ? `Would ${verb}` : done} #${result.id}`
+    : `Failed to ${verb} #${result.id}: ${result.error}`).join('\n'))
+}
+
+const SYNC_VERBS: Record<string, string> = {
+  upload: 'upload',
+  'update-remote': 'upload new version of',
+  download: 'download',
+  'delete-local': 'delete local',
+  'trash-remote': 'trash on drive',
+  record: 'mark in sync',
+  forget: 'forget',
+}
+
+const describeSync = (report: SyncReport) => {
+  const lines = report.actions.map(action =>
+    `${action.status === 'failed' ? '✗' : report.dryRun ? '·' : '✓'} ${SYNC_VERBS[action.kind]} ${action.name} (${action.reason})`
+      + (action.error ? `: ${action.error}` : ''))
+  lines.push(...report.conflicts.map(issue => `! conflict ${issue.name} (${issue.reason}); use --prefer local or --prefer remote`))
+  lines.push(...report.skipped.map(issue => `- skip ${issue.name} (${issue.reason})`))
+  if (lines.length === 0) lines.push('Everything is in sync')
+  else if (report.dryRun) lines.push('Dry run: nothing was changed')
+  return lines.join('\n')
+}
+
+const commands: Record<string, (client: DriveClient, args: string[]) => Promise<void>> = {
+  async ls(client) {
+    const section = options.section ?? 'drive'
+    if (!isSection(section)) throw new UsageError(`--section must be one of ${SECTIONS.join(', ')}`)
+    const folderId = parseFolder(options.folder)
+    const files = (await client.listFiles({ section, q: options.query }))
+      .filter(file => folderId === undefined || file.parent_id === folderId)
+    print(files, files.length === 0 ? 'No files' : files.map(file =>
+      [String(file.id).padStart(6), formatSize(file.size).padStart(9), file.created_at.slice(0, 16), file.name].join('  ')).join('\n'))
+  },
+
+  async upload(client, paths) {
+    if (paths.length === 0) throw new UsageError('Which files should I upload?')
+    const parentId = parseFolder(options.folder) ?? null
+    const uploaded: (FileItem | { path: string })[] = []
+    for (const path of paths) {
+      try {
+        if (!(await stat(path)).isFile()) throw new Error('Not a file')
+        if (dryRun) {
+          uploaded.push({ path })
+          if (!options.json) console.log(`Would upload ${path}`)
+        } else {
+          const file = await client.uploadFile(path, { parentId })
+          uploaded.push(file)
+          if (!options.json) console.log(`Uploaded ${path} as #${file.id}`)
+        }
+      } catch (err) {
+        console.error(`Failed to upload ${path}: ${(err as Error).message}`)
+        process.exitCode = 1
+      }
+    }
+    if (options.json) console.log(JSON.stringify({ dryRun, files: uploaded }, null, 2))
+  },
+
+  async download(client, [id, dest]) {
+    if (!id) throw new UsageError('Which file should I download?')
+    const file = await client.getFile(parseFileId(id))
+    const target = !dest || (await stat(dest).catch(() => null))?.isDirectory() ? join(dest ?? '.', file.name) : dest
+    if (!dryRun) await client.download(file.id, target)
+    print({ dryRun, id: file.id, name: file.name, path: target }, `${dryRun ? 'Would download' : 'Downloaded'} ${file.name} to ${target}`)
+  },
+
+  trash: (client, ids) => eachFile(ids, ['trash', 'Trashed'], id => client.trash(id)),
+
+  restore: (client, ids) => eachFile(ids, ['restore', 'Restored'], id => client.restore(id)),
+
+  delete: (client, ids) => eachFile(ids, ['delete', 'Deleted'], id => client.remove(id)),
+
+  async sync(client, [dir]) {
+    if (!dir) throw new UsageError('Which directory should I sync?')
+    if (!(await stat(dir).catch(() => null))?.isDirectory()) throw new UsageError(`Not a directory: ${dir}`)
+    const { prefer } = options
+    if (prefer !== undefined && prefer !== 'local' && prefer !== 'remote') throw new UsageError('--prefer must be local or remote')
+    const report = await syncDirectory(client, { dir, folderId: parseFolder(options.folder) ?? null, dryRun, prefer })
+    print(report, describeSync(report))
+    if (report.actions.some(action => action.status === 'failed')) process.exitCode = 1
+    else if (report.conflicts.length > 0) process.exitCode = 3
+  },
+}
+
+const main = async () => {
+  const [command, ...args] = positionals
+  if (options.help || !command || command === 'help') {
+    console.log(USAGE)
+    return
+  }
+  const run = commands[command]
+  if (!run) throw new UsageError(`Unknown command: ${command}`)
+  const token = options.token ?? process.env.DRIVE_TOKEN
+  if (!token) throw new UsageError('Pass a personal access token with --token or DRIVE_TOKEN (create one under Access tokens in the web app)')
+  await run(createDriveClient({ url: options.url ?? process.env.DRIVE_URL ?? 'http://localhost:5000', token }), args)
+}
+
+main().catch(err => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`)
+    process.exitCode = 2
+    return
+  }
+  if (options.json) {
+    console.error(JSON.stringify({ error: err.message, ...(err instanceof DriveApiError && { status: err.status, code: err.code }) }))
+  } else {
+    console.error(`Error: ${err.message}`)
+  }
+  process.exitCode = 1
+})
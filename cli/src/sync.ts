@@ -0,0 +1,263 @@
+import { createHash } from 'node:crypto'
+import { createReadStream } from 'node:fs'
+import { readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { pipeline } from 'node:stream/promises'
+import type { DriveClient } from './client.js'
+import type { FileItem } from './types.js'
+
+// Two-way sync between a local directory and one drive folder. Files directly in the directory
+// are matched by name with the files directly in the folder; subdirectories and hidden files are
+// left alone. A state file in the directory records each file as it was after the last sync, so
+// a change on either side (local size or modification time, remote size or hash) can be told
+// apart from a change on both, which is a conflict.
+
+export const STATE_FILE = '.drive-sync.json'
+
+// Sync state of one file: how it looked on both sides when they last matched
+interface SyncedFile {
+  id: number
+  localSize: number
+  localMtimeMs: number
+  remoteSize: number
+  remoteSha256: string | null
+}
+
+interface SyncState {
+  version: 1
+  url: string
+  folderId: number | null
+  files: Record<string, SyncedFile>
+}
+
+interface LocalFile {
+  path: string
+  size: number
+  mtimeMs: number
+}
+
+export type SyncActionKind = 'upload' | 'update-remote' | 'download' | 'delete-local' | 'trash-remote' | 'record' | 'forget'
+
+export interface SyncAction {
+  kind: SyncActionKind
+  name: string
+  fileId?: number
+  reason: string
+  status: 'planned' | 'done' | 'failed'
+  error?: string
+}
+
+// An action as planned, with the local and drive files it works on
+type PlannedTarget =
+  | { kind: 'upload', local: LocalFile }
+  | { kind: 'update-remote', local: LocalFile, fileId: number }
+  | { kind: 'download', remote: FileItem, fileId: number }
+  | { kind: 'delete-local', fileId: number }
+  | { kind: 'trash-remote', fileId: number }
+  | { kind: 'record', local: LocalFile, remote: FileItem, fileId: number }
+  | { kind: 'forget' }
+
+// entry is the action as the report shows it
+type PlannedAction = PlannedTarget & { entry: SyncAction }
+
+export interface SyncIssue {
+  name: string
+  reason: string
+}
+
+export interface SyncReport {
+  dryRun: boolean
+  folderId: number | null
+  actions: SyncAction[]
+  conflicts: SyncIssue[]
+  skipped: SyncIssue[]
+}
+
+export interface SyncOptions {
+  dir: string
+  // Drive folder to sync with; null for the root
+  folderId: number | null
+  dryRun?: boolean
+  // Settles conflicts in favour of one side; without it they are reported and left alone
+  prefer?: 'local' | 'remote'
+}
+
+const isHidden = (name: string) => name.startsWith('.')
+
+const sha256Of = async (path: string) => {
+  const hash = createHash('sha256')
+  await pipeline(createReadStream(path), hash)
+  return hash.digest('hex')
+}
+
+const loadState = async (dir: string, url: string, folderId: number | null): Promise<SyncState> => {
+  let text: string
+  try {
+    text = await readFile(join(dir, STATE_FILE), 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, url, folderId, files: {} }
+    throw err
+  }
+  const state = JSON.parse(text) as SyncState
+  if (state.version !== 1) throw new Error(`${STATE_FILE} was written by a newer version of this tool`)
+  if (state.url !== url || state.folderId !== folderId) {
+    const folder = state.folderId === null ? 'the root' : `folder ${state.folderId}`
+    throw new Error(`This directory is synced with ${folder} on ${state.url}; remove ${STATE_FILE} to sync it elsewhere`)
+  }
+  return state
+}
+
+// Written to a temporary file and renamed, so an interrupted sync never leaves half a state file
+const saveState = async (dir: string, state: SyncState) => {
+  const path = join(dir, STATE_FILE)
+  await writeFile(`${path}.tmp`, `${JSON.stringify(state, null, 2)}\n`)
+  await rename(`${path}.tmp`, path)
+}
+
+const listLocalFiles = async (dir: string) => {
+  const files = new Map<string, LocalFile>()
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (!entry.isFile() || isHidden(entry.name)) continue
+    const path = join(dir, entry.name)
+    const { size, mtimeMs } = await stat(path)
+    files.set(entry.name, { path, size, mtimeMs })
+  }
+  return files
+}
+
+const listRemoteFiles = async (client: DriveClient, folderId: number | null) => {
+  const files = new Map<string, FileItem[]>()
+  for (const file of await client.listFolder(folderId)) {
+    if (isHidden(file.name) || file.name.includes('/')) continue
+    files.set(file.name, [...(files.get(file.name) ?? []), file])
+  }
+  return files
+}
+
+// Why a drive file can't take part in the sync, if it can't
+const unsyncableReason = (file: FileItem) => {
+  if (file.encryption) return 'is in the vault, which only the web app can decrypt'
+  if (file.scan_status === 'pending') return 'is still being scanned for malware'
+  if (file.scan_status === 'quarantined') return 'has been quarantined'
+  return null
+}
+
+const syncedFile = (local: LocalFile, remote: { id: number, size: number, sha256?: string | null }): SyncedFile => ({
+  id: remote.id,
+  localSize: local.size,
+  localMtimeMs: local.mtimeMs,
+  remoteSize: remote.size,
+  remoteSha256: remote.sha256 ?? null,
+})
+
+export async function syncDirectory(client: DriveClient, { dir, folderId, dryRun = false, prefer }: SyncOptions) {
+  const state = await loadState(dir, client.baseUrl, folderId)
+  const localFiles = await listLocalFiles(dir)
+  const remoteFiles = await listRemoteFiles(client, folderId)
+  const report: SyncReport = { dryRun, folderId, actions: [], conflicts: [], skipped: [] }
+  const planned: PlannedAction[] = []
+
+  const plan = (target: PlannedTarget, name: string, reason: string) => {
+    const entry: SyncAction = { kind: target.kind, name, fileId: 'fileId' in target ? target.fileId : undefined, reason, status: 'planned' }
+    report.actions.push(entry)
+    planned.push({ ...target, entry })
+  }
+
+  const names = new Set([...localFiles.keys(), ...remoteFiles.keys(), ...Object.keys(state.files)])
+  for (const name of [...names].sort()) {
+    const base = state.files[name]
+    const local = localFiles.get(name)
+    const remotes = remoteFiles.get(name) ?? []
+    if (remotes.length > 1) {
+      report.skipped.push({ name, reason: `${remotes.length} files on the drive have this name` })
+      continue
+    }
+    const remote = remotes[0]
+    const unsyncable = remote && unsyncableReason(remote)
+    if (unsyncable) {
+      report.skipped.push({ name, reason: `The drive file ${unsyncable}` })
+      continue
+    }
+
+    const localChanged = !!local && (!base || local.size !== base.localSize || local.mtimeMs !== base.localMtimeMs)
+    // Files uploaded in parts are hashed after the fact, so a missing hash on either side isn't a change
+    const remoteChanged = !!remote && (!base || remote.id !== base.id || remote.size !== base.remoteSize
+      || (!!remote.sha256 && !!base.remoteSha256 && remote.sha256 !== base.remoteSha256))
+
+    if (local && remote) {
+      if (base?.id === remote.id && !localChanged && !remoteChanged) continue
+      if (base?.id === remote.id && !remoteChanged) {
+        plan({ kind: 'update-remote', local, fileId: remote.id }, name, 'changed locally')
+      } else if (base?.id === remote.id && !localChanged) {
+        plan({ kind: 'download', remote, fileId: remote.id }, name, 'changed on the drive')
+      } else if (!base && local.size === remote.size && remote.sha256 && await sha256Of(local.path) === remote.sha256) {
+        plan({ kind: 'record', local, remote, fileId: remote.id }, name, 'already the same on both sides')
+      } else if (prefer === 'local') {
+        plan({ kind: 'update-remote', local, fileId: remote.id }, name, 'conflict, keeping the local file')
+      } else if (prefer === 'remote') {
+        plan({ kind: 'download', remote, fileId: remote.id }, name, 'conflict, keeping the drive file')
+      } else {
+        report.conflicts.push({ name, reason: base ? 'changed on both sides' : 'different files on both sides' })
+      }
+    } else if (local) {
+      if (base && !localChanged) plan({ kind: 'delete-local', fileId: base.id }, name, 'deleted or trashed on the drive')
+      else plan({ kind: 'upload', local }, name, base ? 'changed locally after it was removed from the drive' : 'new locally')
+    } else if (remote) {
+      if (base?.id === remote.id && !remoteChanged) plan({ kind: 'trash-remote', fileId: remote.id }, name, 'deleted locally')
+      else plan({ kind: 'download', remote, fileId: remote.id }, name, base ? 'changed on the drive after it was deleted locally' : 'new on the drive')
+    } else {
+      plan({ kind: 'forget' }, name, 'gone from both sides')
+    }
+  }
+
+  if (dryRun) return report
+
+  try {
+    for (const action of planned) {
+      const { name } = action.entry
+      const path = join(dir, name)
+      try {
+        switch (action.kind) {
+          case 'upload': {
+            const file = await client.uploadFile(path, { parentId: folderId, name })
+            action.entry.fileId = file.id
+            state.files[name] = syncedFile(action.local, file)
+            break
+          }
+          case 'update-remote': {
+            const version = await client.uploadVersion(action.fileId, path)
+            state.files[name] = syncedFile(action.local, { ...version, id: action.fileId })
+            break
+          }
+          case 'download': {
+            await client.download(action.fileId, path)
+            const { size, mtimeMs } = await stat(path)
+            state.files[name] = syncedFile({ path, size, mtimeMs }, action.remote)
+            break
+          }
+          case 'delete-local':
+            await unlink(path)
+            delete state.files[name]
+            break
+          case 'trash-remote':
+            await client.trash(action.fileId)
+            delete state.files[name]
+            break
+          case 'record':
+            state.files[name] = syncedFile(action.local, action.remote)
+            break
+          case 'forget':
+            delete state.files[name]
+            break
+        }
+        action.entry.status = 'done'
+      } catch (err) {
+        action.entry.status = 'failed'
+        action.entry.error = err instanceof Error ? err.message : String(err)
+      }
+    }
+  } finally {
+    await saveState(dir, state)
+  }
+  return report
+}
@@ -0,0 +1,50 @@
+// The parts of the API's responses the CLI uses; see GET /api/openapi.json for the full shapes
+
+export interface FileItem {
+  id: number
+  name: string
+  size: number
+  content_type: string
+  created_at: string
+  parent_id: number | null
+  starred: number
+  trashed: number
+  trashed_at?: string | null
+  sha256?: string | null
+  scan_status?: 'pending' | 'clean' | 'quarantined' | 'skipped'
+  encryption?: string | null
+}
+
+export interface PaginationInfo {
+  currentPage: number
+  totalItems: number
+  totalPages: number
+  itemsPerPage: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+// GET /api/files; GET /api/folders/:id/children returns the same along with the folder's subfolders
+export interface FilesResponse {
+  files: FileItem[]
+  pagination: PaginationInfo
+}
+
+export interface FileVersion {
+  id: number
+  file_id: number
+  version_number: number
+  size: number
+  content_type: string
+  sha256: string | null
+}
+
+export interface UploadSession {
+  upload_id: string
+  size: number
+  part_size: number
+  total_parts: number
+  uploaded_parts: number[]
+}
+
+export type Section = 'drive' | 'starred' | 'trashed' | 'all'
@@ -0,0 +1,145 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtemp, readFile, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { startServer } from '../../backend/test/server.js';
+
+// Runs `drive sync` from dist/ against a backend started with the local auth provider and local
+// storage, checking each step through the API
+
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+describe('drive sync', () => {
+  let server;
+  let token;
+  let dir;
+  let folderId;
+
+  const api = async (method, path, body) => {
+    const response = await fetch(`${server.url}/api${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${server.token()}`,
+        ...(body && !(body instanceof FormData) && { 'Content-Type': 'application/json' }),
+      },
+      body: body instanceof FormData ? body : body && JSON.stringify(body),
+    });
+    assert.ok(response.ok, `${method} ${path} failed with ${response.status}`);
+    return response;
+  };
+
+  const drive = async (...args) => {
+    const child = spawn(process.execPath, [cliPath, ...args], {
+      env: { ...process.env, DRIVE_URL: server.url, DRIVE_TOKEN: token },
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    const [code] = await once(child, 'exit');
+    return { code, stdout, stderr };
+  };
+
+  const sync = async (...args) => {
+    const result = await drive('sync', dir, '--folder', String(folderId), '--json', ...args);
+    return { code: result.code, report: JSON.parse(result.stdout), stderr: result.stderr };
+  };
+
+  const remoteFiles = async () => (await (await api('GET', `/folders/${folderId}/children`)).json()).files;
+
+  const remoteText = async (fileId) => (await api('GET', `/files/${fileId}/preview?purpose=download`)).text();
+
+  const actions = (report) => report.actions.map(action => `${action.kind} ${action.name}`).sort();
+
+  before(async () => {
+    server = await startServer();
+    token = (await (await api('POST', '/tokens', { name: 'cli test', scopes: ['read', 'write', 'delete'] })).json()).token;
+    folderId = (await (await api('POST', '/folders', { name: 'Synced' })).json()).id;
+    dir = await mkdtemp(join(tmpdir(), 'drive-sync-'));
+    await writeFile(join(dir, 'a.txt'), 'first');
+    await writeFile(join(dir, 'b.txt'), 'second');
+  });
+
+  after(async () => {
+    await server?.stop();
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  test('a dry run only plans', async () => {
+    const { code, report } = await sync('--dry-run');
+    assert.equal(code, 0);
+    assert.deepEqual(actions(report), ['upload a.txt', 'upload b.txt']);
+    assert.ok(report.actions.every(action => action.status === 'planned'));
+    assert.deepEqual(await remoteFiles(), []);
+    await assert.rejects(stat(join(dir, '.drive-sync.json')));
+  });
+
+  test('uploads new local files into the folder', async () => {
+    const { code, report } = await sync();
+    assert.equal(code, 0);
+    assert.deepEqual(actions(report), ['upload a.txt', 'upload b.txt']);
+    assert.deepEqual((await remoteFiles()).map(file => file.name).sort(), ['a.txt', 'b.txt']);
+    assert.deepEqual((await sync()).report.actions, []);
+  });
+
+  test('uploads a local change as a new version', async () => {
+    await writeFile(join(dir, 'a.txt'), 'first, edited');
+    const { code, report } = await sync();
+    assert.equal(code, 0);
+    assert.deepEqual(actions(report), ['update-remote a.txt']);
+    const file = (await remoteFiles()).find(item => item.name === 'a.txt');
+    assert.equal(await remoteText(file.id), 'first, edited');
+  });
+
+  test('trashes a file deleted locally', async () => {
+    const file = (await remoteFiles()).find(item => item.name === 'b.txt');
+    await unlink(join(dir, 'b.txt'));
+    const { code, report } = await sync();
+    assert.equal(code, 0);
+    assert.deepEqual(actions(report), ['trash-remote b.txt']);
+    const trashed = (await (await api('GET', '/files?section=trashed')).json()).files;
+    assert.deepEqual(trashed.map(item => item.id), [file.id]);
+  });
+
+  test('downloads a file new on the drive', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['from the web'], { type: 'text/plain' }), 'c.txt');
+    form.append('parent_id', String(folderId));
+    await api('POST', '/files', form);
+    const { code, report } = await sync();
+    assert.equal(code, 0);
+    assert.deepEqual(actions(report), ['download c.txt']);
+    assert.equal(await readFile(join(dir, 'c.txt'), 'utf8'), 'from the web');
+  });
+
+  test('reports a conflict and exits 3, then settles it with --prefer remote', async () => {
+    const file = (await remoteFiles()).find(item => item.name === 'a.txt');
+    await writeFile(join(dir, 'a.txt'), 'changed here');
+    const form = new FormData();
+    form.append('file', new Blob(['changed on the drive'], { type: 'text/plain' }), 'a.txt');
+    await api('POST', `/files/${file.id}/versions`, form);
+
+    const conflicted = await sync();
+    assert.equal(conflicted.code, 3);
+    assert.deepEqual(conflicted.report.conflicts.map(issue => issue.name), ['a.txt']);
+    assert.deepEqual(conflicted.report.actions, []);
+    assert.equal(await readFile(join(dir, 'a.txt'), 'utf8'), 'changed here');
+
+    const settled = await sync('--prefer', 'remote');
+    assert.equal(settled.code, 0);
+    assert.deepEqual(actions(settled.report), ['download a.txt']);
+    assert.equal(await readFile(join(dir, 'a.txt'), 'utf8'), 'changed on the drive');
+    assert.deepEqual((await sync()).report.actions, []);
+  });
+
+  test('fails with exit status 1 on a bad token', async () => {
+    token = 'drv_pat_not-a-real-token';
+    const { code, stderr } = await drive('ls');
+    assert.equal(code, 1);
+    assert.match(stderr, /Error:/);
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { auth } from './firebaseConfig'
 import {
   signInWithEmailAndPassword,
@@ -6,8 +6,58 @@ import {
   signOut
 } from 'firebase/auth'
 
-import axios from 'axios'
 import './App.css'
+import Sidebar from './components/Sidebar'
+import ShareDialog from './components/ShareDialog'
+import VersionHistory from './components/VersionHistory'
+import FileThumbnail from './components/FileThumbnail'
+import FilePreview from './components/FilePreview'
+import StorageOverview from './components/StorageOverview'
+import UploadQueue from './components/UploadQueue'
+import ActivityList from './components/ActivityList'
+import AccessTokens from './components/AccessTokens'
+import Webhooks from './components/Webhooks'
+import FileDetailsPanel from './components/FileDetailsPanel'
+import TagDialog from './components/TagDialog'
+import TagMenu from './components/TagMenu'
+import VaultDialog from './components/VaultDialog'
+import { formatFileSize, parseServerDate, purgeNotice } from './format'
+import axios from 'axios'
+import { api, apiErrorMessage } from './api'
+import {
+  listInterruptedUploads,
+  discardInterruptedUpload,
+  itemsFromFileList,
+  itemsFromDataTransfer,
+  type InterruptedUpload,
+  type UploadItem,
+} from './uploads'
+import { useUploadQueue } from './useUploadQueue'
+import { useFileEvents } from './useFileEvents'
+import { encryptionOf, fetchDecrypted, isVaultUnlocked, lockVault, saveBlob } from './vault'
+import type {
+  FileItem,
+  FolderItem,
+  PaginationInfo,
+  FilesResponse,
+  FoldersResponse,
+  FolderChildrenResponse,
+  ContentSearchResponse,
+  SnippetSegment,
+  StorageUsage,
+  BatchAction,
+  BatchResponse,
+  ArchiveLink,
+  EmptyTrashResponse,
+  NameConflictError,
+  Tag,
+  TagItem,
+  TagsResponse,
+  RecentFile,
+  RecentResponse,
+  FileEvent,
+  VaultSettings,
+} from './types'
 
 // Material UI imports
 import AppBar from '@mui/material/AppBar'
@@ -17,14 +67,21 @@ import Typography from '@mui/material/Typography'
 import InputBase from '@mui/material/InputBase'
 import Button from '@mui/material/Button'
 import Drawer from '@mui/material/Drawer'
-import List from '@mui/material/List'
-import ListItem from '@mui/material/ListItem'
-import ListItemText from '@mui/material/ListItemText'
+import Breadcrumbs from '@mui/material/Breadcrumbs'
+import Link from '@mui/material/Link'
+import MenuItem from '@mui/material/MenuItem'
+import Chip from '@mui/material/Chip'
+import Alert from '@mui/material/Alert'
 import Dialog from '@mui/material/Dialog'
 import DialogTitle from '@mui/material/DialogTitle'
 import DialogContent from '@mui/material/DialogContent'
 import DialogActions from '@mui/material/DialogActions'
 import TextField from '@mui/material/TextField'
+import Checkbox from '@mui/material/Checkbox'
+import Tabs from '@mui/material/Tabs'
+import Tab from '@mui/material/Tab'
+import Switch from '@mui/material/Switch'
+import FormControlLabel from '@mui/material/FormControlLabel'
 import AddIcon from '@mui/icons-material/Add'
 import SearchIcon from '@mui/icons-material/Search'
 import LogoutIcon from '@mui/icons-material/Logout'
@@ -33,6 +90,14 @@ import StarBorderIcon from '@mui/icons-material/StarBorder'
 import DeleteForeverIcon from '@mui/icons-material/DeleteForever'
 import RestoreFromTrashIcon from '@mui/icons-material/RestoreFromTrash'
 import DeleteIcon from '@mui/icons-material/Delete'
+import EditIcon from '@mui/icons-material/Edit'
+import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove'
+import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder'
+import ShareIcon from '@mui/icons-material/Share'
+import DownloadIcon from '@mui/icons-material/Download'
+import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined'
+import LocalOfferOutlinedIcon from '@mui/icons-material/LocalOfferOutlined'
+import LockIcon from '@mui/icons-material/Lock'
 import { styled, alpha } from '@mui/material/styles'
 
 // Styled search components
@@ -65,28 +130,23 @@ const StyledInputBase = styled(InputBase)(({ theme }) => ({
   },
 }))
 
-interface FileItem {
-  id: number
-  name: string
-  size: number
-  content_type: string
-  created_at: string
-  starred?: boolean
-  trashed?: boolean
-}
+// Comma-separated VITE_ALLOWED_EMAILS; empty lets any signed-in user through (the backend enforces its own list)
+const allowedEmails = (import.meta.env.VITE_ALLOWED_EMAILS ?? '')
+  .split(',')
+  .map(entry => entry.trim().toLowerCase())
+  .filter(Boolean)
 
-interface PaginationInfo {
-  currentPage: number
-  totalItems: number
-  totalPages: number
-  itemsPerPage: number
-  hasNext: boolean
-  hasPrev: boolean
-}
+const isAllowedEmail = (userEmail: string | null) =>
+  !!userEmail && (allowedEmails.length === 0 || allowedEmails.includes(userEmail.toLowerCase()))
 
-interface FilesResponse {
-  files: FileItem[]
-  pagination: PaginationInfo
+// Sections that show their own panel instead of the file list
+const SETTINGS_SECTIONS = ['Activity', 'Access tokens', 'Webhooks']
+
+// Item selected in the move dialog
+interface MoveTarget {
+  kind: 'file' | 'folder'
+  id: number
+  name: string
 }
 
 export default function App() {
@@ -98,34 +158,90 @@ export default function App() {
 
   // File data and UI states
   const [files, setFiles] = useState<FileItem[]>([])
+  // Recent section: which group (Today, This week, Earlier) each listed file falls in
+  const [recentGroups, setRecentGroups] = useState<Record<number, string>>({})
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
-  const [uploading, setUploading] = useState(false)
+  const [interruptedUploads, setInterruptedUploads] = useState<InterruptedUpload[]>(() => listInterruptedUploads())
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [dragOver, setDragOver] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [typeFilter, setTypeFilter] = useState('')
+  const [tagFilter, setTagFilter] = useState<number | null>(null)
+  const [sortField, setSortField] = useState('created_at')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [previewFile, setPreviewFile] = useState<FileItem | null>(null)
-  const [section, setSection] = useState('My Drive') // Sections: My Drive, Recent, Starred, Trash
+  const [previewTab, setPreviewTab] = useState<'preview' | 'activity'>('preview')
+  // Content search snippets for the current search, by file id
+  const [snippets, setSnippets] = useState<Record<number, SnippetSegment[]>>({})
+  const [section, setSection] = useState('My Drive') // Sections: My Drive, Shared with me, Recent, Starred, Trash, Tagged, Activity, Storage, Access tokens, Webhooks
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [shareFile, setShareFile] = useState<FileItem | null>(null)
+  const [detailsFile, setDetailsFile] = useState<FileItem | null>(null)
+  // Inline rename of a file card's name
+  const [renaming, setRenaming] = useState<{ id: number, name: string } | null>(null)
+  // Multi-select for batch actions; the anchor is the last file clicked, where shift-click ranges start
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null)
 
-  const api = axios.create({ baseURL: '/api', timeout: 30000 })
+  // Folder navigation states
+  const [folders, setFolders] = useState<FolderItem[]>([])
+  const [allFolders, setAllFolders] = useState<FolderItem[]>([])
+  const [tags, setTags] = useState<TagItem[]>([])
+  // Tag dialog (tag null creates one) and the tag checklist for one file or, with file null, the selection
+  const [tagDialog, setTagDialog] = useState<{ tag: TagItem | null } | null>(null)
+  const [tagMenu, setTagMenu] = useState<{ anchorEl: HTMLElement, file: FileItem | null } | null>(null)
+  const [currentFolderId, setCurrentFolderId] = useState<number | null>(null)
+  const [folderPath, setFolderPath] = useState<FolderChildrenResponse['path']>([])
+  const [folderDialog, setFolderDialog] = useState<{ folder: FolderItem | null, name: string } | null>(null)
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null)
+  const [moveDestination, setMoveDestination] = useState<number | 'root'>('root')
+  // Vault: settings once unlocked, whether new uploads are encrypted, and the action waiting on the
+  // passphrase dialog
+  const [vault, setVault] = useState<VaultSettings | null>(null)
+  const [vaultUploads, setVaultUploads] = useState(false)
+  const [vaultPrompt, setVaultPrompt] = useState<((settings: VaultSettings) => void) | null>(null)
 
   // Listen to Firebase Auth state changes
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, user => {
-      if (user && user.email === 'harvijayxsingh@gmail.com') {
+      if (user && isAllowedEmail(user.email)) {
         setUserEmail(user.email)
         setLoginOpen(false)
-        fetchFiles()
       } else {
         setUserEmail(null)
         setLoginOpen(true)
+        closeVault()
         signOut(auth)
       }
     })
     return unsubscribe
   }, [])
 
+  // Search runs on the server, so wait for typing to pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  // Reload whenever the user navigates to another section or folder, or changes search/filters
+  useEffect(() => {
+    if (userEmail && !SETTINGS_SECTIONS.includes(section)) fetchFiles()
+  }, [userEmail, section, currentFolderId, debouncedSearch, typeFilter, tagFilter, sortField, sortOrder])
+
+  // Each file opens on its preview
+  useEffect(() => {
+    setPreviewTab('preview')
+  }, [previewFile?.id])
+
+  // A selection only makes sense for the list it was made in
+  useEffect(() => {
+    setSelectedIds(new Set())
+    setSelectionAnchor(null)
+  }, [section, currentFolderId, debouncedSearch, typeFilter, tagFilter])
+
   // Login handler
   const handleLogin = () => {
     signInWithEmailAndPassword(auth, email.trim(), password)
@@ -137,14 +253,78 @@ export default function App() {
     signOut(auth).catch(console.error)
   }
 
-  // Fetch files from backend
+  // Runs an action that needs the vault key, asking for the passphrase first while the vault is locked
+  const requireVault = (action: (settings: VaultSettings) => void) => {
+    if (vault && isVaultUnlocked()) action(vault)
+    else setVaultPrompt(() => action)
+  }
+
+  // Forgets the passphrase; vault files can't be opened again until it is re-entered
+  const closeVault = () => {
+    lockVault()
+    setVault(null)
+    setVaultUploads(false)
+  }
+
+  // Query string for GET /api/files (and folder children): search, section, type filter and sort
+  const fileQueryParams = (page: number, apiSection?: string) => {
+    const params = new URLSearchParams({ page: String(page), limit: '100' })
+    if (apiSection) params.set('section', apiSection)
+    if (debouncedSearch) params.set('q', debouncedSearch)
+    if (typeFilter) params.set('type', typeFilter)
+    if (tagFilter !== null) params.set('tag', String(tagFilter))
+    // Storage is always largest first
+    params.set('sort', section === 'Storage' ? 'size' : sortField)
+    params.set('order', section === 'Storage' ? 'desc' : sortOrder)
+    return params.toString()
+  }
+
+  // Fetch files from backend; My Drive lists the current folder (or searches the whole drive),
+  // other sections list everything in that section
   const fetchFiles = async (page = 1) => {
     setLoading(true)
     setError(null)
+    setSnippets({})
+    fetchUsage()
+    fetchTags()
     try {
-      const response = await api.get<FilesResponse>(`/files?page=${page}&limit=100`)
-      setFiles(response.data.files)
-      setPagination(response.data.pagination)
+      const foldersResponse = await api.get<FoldersResponse>('/folders')
+      setAllFolders(foldersResponse.data.folders)
+      if (section === 'My Drive' && !debouncedSearch) {
+        const response = await api.get<FolderChildrenResponse>(`/folders/${currentFolderId ?? 'root'}/children?${fileQueryParams(page)}`)
+        setFolders(response.data.folders)
+        setFolderPath(response.data.path)
+        setFiles(response.data.files)
+        setPagination(response.data.pagination)
+      } else if (section === 'Recent') {
+        const params = new URLSearchParams({ page: String(page), limit: '100', tz_offset: String(new Date().getTimezoneOffset()) })
+        if (debouncedSearch) params.set('q', debouncedSearch)
+        if (typeFilter) params.set('type', typeFilter)
+        const response = await api.get<RecentResponse>(`/files/recent?${params}`)
+        setFolders([])
+        setFolderPath([])
+        setFiles(response.data.groups.flatMap(group => group.files))
+        setRecentGroups(Object.fromEntries(response.data.groups.flatMap(group => group.files.map(file => [file.id, group.label]))))
+        setPagination(response.data.pagination)
+      } else if (section === 'Shared with me') {
+        const response = await api.get<FilesResponse>(`/files/shared?page=${page}&limit=100`)
+        setFolders([])
+        setFolderPath([])
+        setFiles(response.data.files)
+        setPagination(response.data.pagination)
+      } else {
+        const apiSection = section === 'Starred' ? 'starred' : section === 'Trash' ? 'trashed' : 'drive'
+        const response = await api.get<FilesResponse>(`/files?${fileQueryParams(page, apiSection)}`)
+        // Trash shows the top-most trashed folders; their contents come back on restore
+        setFolders(section === 'Trash' && !debouncedSearch
+          ? foldersResponse.data.folders.filter(folder => folder.trashed &&
+            !foldersResponse.data.folders.some(parent => parent.id === folder.parent_id && parent.trashed))
+          : [])
+        setFolderPath([])
+        setFiles(response.data.files)
+        setPagination(response.data.pagination)
+        if (section === 'My Drive' && debouncedSearch) await fetchContentMatches(response.data.files)
+      }
     } catch (err) {
       setError('Failed to fetch files')
       console.error(err)
@@ -153,28 +333,128 @@ export default function App() {
     }
   }
 
-  // Upload file handler
-  const uploadFile = async (file: File) => {
-    setUploading(true)
-    setError(null)
-    const formData = new FormData()
-    formData.append('file', file)
-    try {
-      await api.post('/files', formData, { headers: { 'Content-Type': 'multipart/form-data' } })
-      await fetchFiles(pagination?.currentPage || 1)
-    } catch (err) {
-      setError('Failed to upload file')
-      console.error(err)
-    } finally {
-      setUploading(false)
+  // Storage meter and breakdown; refreshed along with the file list since most actions change it
+  const fetchUsage = () => {
+    api.get<StorageUsage>('/usage')
+      .then(response => setUsage(response.data))
+      .catch(console.error)
+  }
+
+  // Tags for the sidebar, filter and tag menus; file counts change with most actions too
+  const fetchTags = () => {
+    api.get<TagsResponse>('/tags')
+      .then(response => setTags(response.data.tags))
+      .catch(console.error)
+  }
+
+  // Adds documents whose text (not just name) matches the search, with a snippet for each hit
+  const fetchContentMatches = async (nameMatches: FileItem[]) => {
+    const params = new URLSearchParams({ q: debouncedSearch, limit: '50' })
+    if (typeFilter) params.set('type', typeFilter)
+    const response = await api.get<ContentSearchResponse>(`/search?${params}`)
+    setSnippets(Object.fromEntries(response.data.results.map(result => [result.file.id, result.snippet])))
+    const contentOnly = response.data.results
+      .map(result => result.file)
+      .filter(file => !nameMatches.some(match => match.id === file.id))
+    if (contentOnly.length > 0) setFiles([...nameMatches, ...contentOnly])
+  }
+
+  // Usage and tag counts follow file changes; a burst of events refreshes them once
+  const countsRefresh = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const scheduleCountsRefresh = () => {
+    clearTimeout(countsRefresh.current)
+    countsRefresh.current = setTimeout(() => {
+      fetchUsage()
+      fetchTags()
+    }, 1000)
+  }
+
+  // Whether a file, as it is now, belongs in the list being shown
+  const belongsInView = (file: FileItem) => {
+    if (section === 'Shared with me') return !!file.share_role && !file.trashed
+    if (section === 'Recent') return !file.trashed
+    if (file.share_role) return false
+    if (section === 'Trash') return !!file.trashed
+    if (file.trashed) return false
+    if (section === 'Starred' && !file.starred) return false
+    if (tagFilter !== null && !file.tags?.some(tag => tag.id === tagFilter)) return false
+    if (section === 'My Drive' && !debouncedSearch) return (file.parent_id ?? null) === currentFolderId
+    return true
+  }
+
+  // Orders files the way the server sorts the current section
+  const sortLikeServer = (list: FileItem[]) => {
+    const field = (section === 'Storage' ? 'size' : sortField) as 'created_at' | 'name' | 'size' | 'content_type'
+    const direction = section === 'Storage' || sortOrder === 'desc' ? -1 : 1
+    return [...list].sort((a, b) => {
+      const [x, y] = [a[field], b[field]]
+      const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))
+      return order * direction
+    })
+  }
+
+  // Applies a pushed file event to the list on screen instead of reloading it. New files are only
+  // added where no search or type filter narrows the list, since those are evaluated by the server.
+  const applyFileEvent = (event: FileEvent) => {
+    scheduleCountsRefresh()
+    if (event.type === 'file.deleted') {
+      setFiles(prev => prev.filter(file => file.id !== event.file.id))
+      if (previewFile?.id === event.file.id) setPreviewFile(null)
+      if (detailsFile?.id === event.file.id) setDetailsFile(null)
+      return
+    }
+    const changed = event.file
+    // The preview dialog follows the file too, e.g. once its malware scan finishes
+    if (previewFile?.id === changed.id) setPreviewFile({ ...previewFile, ...changed })
+    const visible = belongsInView(changed)
+    const canAdd = visible && !debouncedSearch && !typeFilter && section !== 'Recent'
+    const sorted = !debouncedSearch && section !== 'Recent' && section !== 'Shared with me'
+    setFiles(prev => {
+      const current = prev.find(file => file.id === changed.id)
+      if (!visible) return current ? prev.filter(file => file.id !== changed.id) : prev
+      if (!current && !canAdd) return prev
+      const next = current ? prev.map(file => file.id === changed.id ? { ...file, ...changed } : file) : [changed, ...prev]
+      if (!sorted) return next
+      const ordered = sortLikeServer(next)
+      // A new file that sorts past the end of this page belongs on a later one
+      return !current && pagination?.hasNext && ordered[ordered.length - 1].id === changed.id ? prev : ordered
+    })
+  }
+
+  const { connected } = useFileEvents(!!userEmail, applyFileEvent)
+
+  // While the event stream is up, a change made here comes back as an event like any other;
+  // without it the list has to be reloaded
+  const refreshFiles = async () => {
+    if (!connected) await fetchFiles(pagination?.currentPage || 1)
+  }
+
+  // Uploads run through a queue; large files are chunked and resume if the page reloads mid-upload.
+  // Errors are shown per file in the queue, so the list just refreshes once the queue drains.
+  // Folders created for directory uploads send no events, so those still reload the list.
+  const uploadCreatesFolders = useRef(false)
+  const uploadQueue = useUploadQueue(() => {
+    if (uploadCreatesFolders.current) {
+      uploadCreatesFolders.current = false
+      void fetchFiles(pagination?.currentPage || 1)
+    } else {
+      void refreshFiles()
     }
+    setInterruptedUploads(listInterruptedUploads())
+  })
+  const { uploading } = uploadQueue
+
+  // Files go into the folder being viewed; directories are recreated inside it
+  const queueUploads = (items: UploadItem[]) => {
+    if (items.some(item => item.relativePath)) uploadCreatesFolders.current = true
+    if (items.length > 0) uploadQueue.enqueue(items, section === 'My Drive' ? currentFolderId : null, vaultUploads && vault ? vault : undefined)
   }
 
   // Move file to trash (soft delete)
   const moveToTrash = async (fileId: number) => {
     try {
       await api.post(`/files/${fileId}/trash`)
-      await fetchFiles(pagination?.currentPage || 1)
+      await refreshFiles()
     } catch (err) {
       setError('Failed to move file to Trash')
       console.error(err)
@@ -185,7 +465,7 @@ export default function App() {
   const restoreFile = async (fileId: number) => {
     try {
       await api.post(`/files/${fileId}/restore`)
-      await fetchFiles(pagination?.currentPage || 1)
+      await refreshFiles()
     } catch (err) {
       setError('Failed to restore file')
       console.error(err)
@@ -197,20 +477,45 @@ export default function App() {
     if (!confirm('Permanently delete this file? This action cannot be undone.')) return
     try {
       await api.delete(`/files/${fileId}`)
-      await fetchFiles(pagination?.currentPage || 1)
+      await refreshFiles()
     } catch (err) {
       setError('Failed to permanently delete file')
       console.error(err)
     }
   }
 
-  // Download file handler
-  const downloadFile = async (fileId: number) => {
+  // Permanently delete everything in Trash
+  const emptyTrash = async () => {
+    if (!confirm('Permanently delete everything in Trash? This action cannot be undone.')) return
     try {
-      const response = await api.get(`/files/${fileId}/download`)
+      const { data } = await api.delete<EmptyTrashResponse>('/trash')
+      if (data.failed) setError(data.message)
+      await fetchFiles(1)
+    } catch (err) {
+      setError('Failed to empty trash')
+      console.error(err)
+    }
+  }
+
+  // Download file handler; vault files are fetched and decrypted here before they are saved
+  const downloadFile = async (file: FileItem) => {
+    const encryption = encryptionOf(file)
+    if (encryption) {
+      requireVault(() => {
+        fetchDecrypted(file.id, encryption, { purpose: 'download' })
+          .then(blob => saveBlob(blob, file.name))
+          .catch(err => {
+            setError(apiErrorMessage(err, err instanceof Error ? err.message : 'Failed to download file'))
+            console.error(err)
+          })
+      })
+      return
+    }
+    try {
+      const response = await api.get<{ downloadUrl: string }>(`/files/${file.id}/download`)
       window.open(response.data.downloadUrl, '_blank')
     } catch (err) {
-      setError('Failed to download file')
+      setError(apiErrorMessage(err, 'Failed to download file'))
       console.error(err)
     }
   }
@@ -223,19 +528,210 @@ export default function App() {
       } else {
         await api.post(`/files/${file.id}/star`)
       }
-      await fetchFiles(pagination?.currentPage || 1)
+      await refreshFiles()
     } catch (err) {
       setError('Failed to update star status')
       console.error(err)
     }
   }
 
+  // Toggle one file, or with shift held select every file between the anchor and this one
+  const toggleSelected = (fileId: number, extendRange: boolean) => {
+    const anchorIndex = filteredFiles.findIndex(file => file.id === selectionAnchor)
+    const index = filteredFiles.findIndex(file => file.id === fileId)
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (extendRange && anchorIndex !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+        filteredFiles.slice(from, to + 1).forEach(file => next.add(file.id))
+      } else if (next.has(fileId)) {
+        next.delete(fileId)
+      } else {
+        next.add(fileId)
+      }
+      return next
+    })
+    setSelectionAnchor(fileId)
+  }
+
+  // Apply an action to every selected file in one request; files that failed stay selected
+  // tagId goes with 'tag' and 'untag'
+  const runBatch = async (action: BatchAction, tagId?: number) => {
+    const ids = selectedFiles.map(file => file.id)
+    if (action === 'delete' && !confirm(`Permanently delete ${ids.length} file(s)? This action cannot be undone.`)) return
+    try {
+      const response = await api.post<BatchResponse>('/files/batch', { action, ids, tag_id: tagId })
+      const failures = response.data.results.filter(result => !result.ok)
+      setSelectedIds(new Set(failures.map(result => result.id)))
+      await refreshFiles()
+      if (failures.length > 0) {
+        setError(`${failures.length} of ${ids.length} files could not be updated: ${failures[0].error ?? 'unknown error'}`)
+      }
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to update the selected files'))
+      console.error(err)
+    }
+  }
+
+  // Download the selected files as one ZIP, streamed by the server
+  const downloadSelected = async () => {
+    try {
+      const response = await api.post<ArchiveLink>('/files/archive', { ids: selectedFiles.map(file => file.id) })
+      window.open(response.data.downloadUrl, '_blank')
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to download the selected files'))
+      console.error(err)
+    }
+  }
+
+  // Add or remove a tag on the file the tag menu was opened for, or on every selected file
+  const toggleTag = async (tag: Tag) => {
+    const file = tagMenu?.file
+    if (!file) {
+      setTagMenu(null)
+      await runBatch(selectedFiles.every(f => f.tags?.some(t => t.id === tag.id)) ? 'untag' : 'tag', tag.id)
+      return
+    }
+    const applied = file.tags?.some(t => t.id === tag.id)
+    try {
+      const response = applied
+        ? await api.delete<{ tags: Tag[] }>(`/files/${file.id}/tags/${tag.id}`)
+        : await api.post<{ tags: Tag[] }>(`/files/${file.id}/tags`, { tag_id: tag.id })
+      setTagMenu({ ...tagMenu, file: { ...file, tags: response.data.tags } })
+      await refreshFiles()
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to update tags'))
+      console.error(err)
+    }
+  }
+
+  const openTag = (tagId: number) => {
+    setSection('Tagged')
+    setTagFilter(tagId)
+    setSidebarOpen(false)
+  }
+
+  // Open a folder in My Drive (null is the drive root)
+  const openFolder = (folderId: number | null) => {
+    setTagFilter(null)
+    setSection('My Drive')
+    setCurrentFolderId(folderId)
+    setSidebarOpen(false)
+  }
+
+  // Create or rename a folder from the folder dialog
+  const saveFolder = async () => {
+    if (!folderDialog) return
+    try {
+      if (folderDialog.folder) {
+        await api.put(`/folders/${folderDialog.folder.id}`, { name: folderDialog.name })
+      } else {
+        await api.post('/folders', { name: folderDialog.name, parent_id: currentFolderId })
+      }
+      setFolderDialog(null)
+      await fetchFiles(pagination?.currentPage || 1)
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to save folder'))
+      console.error(err)
+    }
+  }
+
+  // Save an inline rename; on a name clash the field switches to the free name the server suggests
+  const renameFile = async () => {
+    if (!renaming) return
+    const file = files.find(f => f.id === renaming.id)
+    if (!file || renaming.name.trim() === file.name) {
+      setRenaming(null)
+      return
+    }
+    try {
+      await api.patch(`/files/${renaming.id}`, { name: renaming.name })
+      setRenaming(null)
+      await refreshFiles()
+    } catch (err) {
+      if (axios.isAxiosError<NameConflictError>(err) && err.response?.data?.code === 'NAME_CONFLICT') {
+        setRenaming({ id: renaming.id, name: err.response.data.suggestion })
+      }
+      setError(apiErrorMessage(err, 'Failed to rename file'))
+      console.error(err)
+    }
+  }
+
+  // Move folder (and its contents) to trash
+  const trashFolder = async (folderId: number) => {
+    try {
+      await api.post(`/folders/${folderId}/trash`)
+      await fetchFiles(pagination?.currentPage || 1)
+    } catch (err) {
+      setError('Failed to move folder to Trash')
+      console.error(err)
+    }
+  }
+
+  // Restore folder (and its contents) from trash
+  const restoreFolder = async (folderId: number) => {
+    try {
+      await api.post(`/folders/${folderId}/restore`)
+      await fetchFiles(pagination?.currentPage || 1)
+    } catch (err) {
+      setError('Failed to restore folder')
+      console.error(err)
+    }
+  }
+
+  // Permanently delete folder and everything inside it
+  const deleteFolderPermanently = async (folderId: number) => {
+    if (!confirm('Permanently delete this folder and everything in it? This action cannot be undone.')) return
+    try {
+      await api.delete(`/folders/${folderId}`)
+      await fetchFiles(pagination?.currentPage || 1)
+    } catch (err) {
+      setError('Failed to permanently delete folder')
+      console.error(err)
+    }
+  }
+
+  // Move a file or folder to the destination picked in the move dialog
+  const moveItem = async () => {
+    if (!moveTarget) return
+    const parentId = moveDestination === 'root' ? null : moveDestination
+    try {
+      await api.post(`/${moveTarget.kind === 'file' ? 'files' : 'folders'}/${moveTarget.id}/move`, { parent_id: parentId })
+      setMoveTarget(null)
+      // Folder moves send no events
+      await (moveTarget.kind === 'file' ? refreshFiles() : fetchFiles(pagination?.currentPage || 1))
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to move item'))
+      console.error(err)
+    }
+  }
+
+  // Folders a move target may be placed in, flattened depth-first with their depth for indentation
+  const moveDestinations = (() => {
+    const active = allFolders.filter(folder => !folder.trashed)
+    const result: { folder: FolderItem, depth: number }[] = []
+    const walk = (parentId: number | null, depth: number) => {
+      active.filter(folder => folder.parent_id === parentId).forEach(folder => {
+        // A folder cannot be moved into itself or any of its descendants
+        if (moveTarget?.kind === 'folder' && folder.id === moveTarget.id) return
+        result.push({ folder, depth })
+        walk(folder.id, depth + 1)
+      })
+    }
+    walk(null, 0)
+    return result
+  })()
+
   // Drag-and-drop handlers
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     setDragOver(false)
-    const file = event.dataTransfer.files[0]
-    if (file) uploadFile(file)
+    itemsFromDataTransfer(event.dataTransfer)
+      .then(queueUploads)
+      .catch(err => {
+        setError('Failed to read the dropped files')
+        console.error(err)
+      })
   }
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -245,39 +741,36 @@ export default function App() {
 
   const handleDragLeave = () => setDragOver(false)
 
-  // Utility for formatting file size
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
-
   // Utility for formatting date
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', {
     year: 'numeric', month: 'short', day: 'numeric',
     hour: '2-digit', minute: '2-digit'
   })
 
-  // Filter files by search term and current section
+  const recentActivityText = (file: RecentFile) => {
+    const verb = file.last_action === 'opened' ? 'Opened' : file.last_action === 'downloaded' ? 'Downloaded' : 'Modified'
+    return `${verb} ${formatDate(parseServerDate(file.last_activity_at).toISOString())}`
+  }
+
+  // Search, section and type filtering happen on the server; only view-specific tweaks remain here
   const filteredFiles = files.filter(file => {
-    const matchesSearch = file.name.toLowerCase().includes(searchTerm.toLowerCase())
-    
     switch (section) {
-      case 'My Drive':
-        return !file.trashed && matchesSearch
-      case 'Starred':
-        return !file.trashed && file.starred && matchesSearch
+      case 'Shared with me':
+        return file.name.toLowerCase().includes(debouncedSearch.toLowerCase())
       case 'Trash':
-        return file.trashed && matchesSearch
-      case 'Recent':
-        return !file.trashed && matchesSearch
+        // Files inside a trashed folder are listed under that folder instead (unless searching)
+        return !!debouncedSearch || !allFolders.some(folder => folder.id === file.parent_id && folder.trashed)
       default:
-        return false
+        return true
     }
   })
 
+  const isSearchResults = section === 'My Drive' && !!debouncedSearch
+
+  // Only files still in view count; anything that left the list after a refresh drops out
+  const selectedFiles = filteredFiles.filter(file => selectedIds.has(file.id))
+  const allSelected = filteredFiles.length > 0 && selectedFiles.length === filteredFiles.length
+
   if (loginOpen) {
     // Show login dialog until authenticated
     return (
@@ -322,26 +815,36 @@ export default function App() {
         </Toolbar>
       </AppBar>
 
-      {/* Hidden file input element */}
-      <input id="fileInput" type="file" hidden onChange={e => e.target.files && uploadFile(e.target.files[0])} />
+      {/* Hidden file and folder inputs */}
+      <input id="fileInput" type="file" multiple hidden
+        onChange={e => {
+          if (e.target.files) queueUploads(itemsFromFileList(e.target.files))
+          e.target.value = ''
+        }} />
+      <input id="folderInput" type="file" hidden ref={input => input?.setAttribute('webkitdirectory', '')}
+        onChange={e => {
+          if (e.target.files) queueUploads(itemsFromFileList(e.target.files))
+          e.target.value = ''
+        }} />
 
       {/* Sidebar navigation */}
       <Drawer open={sidebarOpen} onClose={() => setSidebarOpen(false)} variant="temporary">
-        <List>
-          {['My Drive', 'Recent', 'Starred', 'Trash'].map(txt => (
-            <ListItem
-              button
-              key={txt}
-              selected={section === txt}
-              onClick={() => {
-                setSection(txt)
-                setSidebarOpen(false)
-              }}
-            >
-              <ListItemText primary={txt} />
-            </ListItem>
-          ))}
-        </List>
+        <Sidebar
+          section={section}
+          setSection={txt => {
+            setSection(txt)
+            setTagFilter(null)
+            setSidebarOpen(false)
+          }}
+          folders={allFolders}
+          currentFolderId={currentFolderId}
+          onOpenFolder={openFolder}
+          usage={usage}
+          tags={tags}
+          currentTagId={tagFilter}
+          onOpenTag={openTag}
+          onEditTag={tag => setTagDialog({ tag })}
+        />
       </Drawer>
 
       {/* Main content with 85% file list and 15% drag & drop */}
@@ -357,57 +860,354 @@ export default function App() {
 
           <div className="files-section">
             <div className="section-header">
-              <Typography variant="h5" component="h2" sx={{ mb: 2, fontWeight: 600 }}>
-                {section} {section === 'Starred' && '⭐'} {section === 'Trash' && '🗑️'}
-              </Typography>
+              {isSearchResults ? (
+                <Typography variant="h5" component="h2" sx={{ mb: 2, fontWeight: 600 }}>
+                  Search results for “{debouncedSearch}”
+                </Typography>
+              ) : section === 'My Drive' && folderPath.length > 0 ? (
+                <Breadcrumbs aria-label="Folder path" sx={{ mb: 2 }}>
+                  <Link component="button" underline="hover" variant="h5" onClick={() => openFolder(null)}>
+                    My Drive
+                  </Link>
+                  {folderPath.map((crumb, index) => index === folderPath.length - 1 ? (
+                    <Typography key={crumb.id} variant="h5" component="h2" sx={{ fontWeight: 600 }}>
+                      {crumb.name}
+                    </Typography>
+                  ) : (
+                    <Link key={crumb.id} component="button" underline="hover" variant="h5" onClick={() => openFolder(crumb.id)}>
+                      {crumb.name}
+                    </Link>
+                  ))}
+                </Breadcrumbs>
+              ) : section === 'Tagged' ? (
+                <Typography variant="h5" component="h2" sx={{ mb: 2, fontWeight: 600 }}>
+                  🏷️ {tags.find(tag => tag.id === tagFilter)?.name ?? 'Tagged'}
+                </Typography>
+              ) : (
+                <Typography variant="h5" component="h2" sx={{ mb: 2, fontWeight: 600 }}>
+                  {section} {section === 'Starred' && '⭐'} {section === 'Trash' && '🗑️'}
+                </Typography>
+              )}
+              {section === 'Trash' && (filteredFiles.length > 0 || folders.length > 0) && (
+                <Button color="error" startIcon={<DeleteForeverIcon />} onClick={() => void emptyTrash()} sx={{ mb: 2 }}>
+                  Empty trash
+                </Button>
+              )}
+              {section === 'Trash' && !!usage?.trash.retentionDays && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Items in trash are deleted forever after {usage.trash.retentionDays} days.
+                </Typography>
+              )}
+              {section === 'My Drive' && !isSearchResults && (
+                <Button
+                  startIcon={<CreateNewFolderIcon />}
+                  onClick={() => setFolderDialog({ folder: null, name: '' })}
+                  sx={{ mb: 2 }}
+                >
+                  New folder
+                </Button>
+              )}
             </div>
 
-            {loading ? (
+            {section === 'Storage' && usage && (
+              <StorageOverview usage={usage} onOpenTrash={() => setSection('Trash')} />
+            )}
+
+            {/* Type filter and sort, applied by the server */}
+            {section !== 'Shared with me' && !SETTINGS_SECTIONS.includes(section) && (
+              <div className="filter-bar" style={{ display: 'flex', gap: 16, alignItems: 'flex-end', marginBottom: 16 }}>
+                <TextField
+                  select
+                  label="Type"
+                  variant="standard"
+                  value={typeFilter}
+                  onChange={e => setTypeFilter(e.target.value)}
+                  sx={{ minWidth: 140 }}
+                >
+                  <MenuItem value="">All types</MenuItem>
+                  <MenuItem value="image">Images</MenuItem>
+                  <MenuItem value="video">Videos</MenuItem>
+                  <MenuItem value="audio">Audio</MenuItem>
+                  <MenuItem value="document">Documents</MenuItem>
+                  <MenuItem value="text">Text</MenuItem>
+                  <MenuItem value="archive">Archives</MenuItem>
+                  <MenuItem value="other">Other</MenuItem>
+                </TextField>
+                {tags.length > 0 && section !== 'Recent' && (
+                  <TextField
+                    select
+                    label="Tag"
+                    variant="standard"
+                    value={tagFilter ?? ''}
+                    onChange={e => setTagFilter(e.target.value === '' ? null : Number(e.target.value))}
+                    sx={{ minWidth: 140 }}
+                  >
+                    <MenuItem value="">Any tag</MenuItem>
+                    {tags.map(tag => <MenuItem key={tag.id} value={tag.id}>{tag.name}</MenuItem>)}
+                  </TextField>
+                )}
+                {section !== 'Recent' && section !== 'Storage' && (
+                  <>
+                    <TextField
+                      select
+                      label="Sort by"
+                      variant="standard"
+                      value={sortField}
+                      onChange={e => setSortField(e.target.value)}
+                      sx={{ minWidth: 140 }}
+                    >
+                      <MenuItem value="created_at">Date added</MenuItem>
+                      <MenuItem value="name">Name</MenuItem>
+                      <MenuItem value="size">Size</MenuItem>
+                      <MenuItem value="content_type">Type</MenuItem>
+                    </TextField>
+                    <Button size="small" onClick={() => setSortOrder(order => order === 'asc' ? 'desc' : 'asc')}>
+                      {sortOrder === 'asc' ? '↑ Ascending' : '↓ Descending'}
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Batch actions for the selected files */}
+            {selectedFiles.length > 0 && (
+              <div className="selection-bar" role="toolbar" aria-label="Selected files">
+                <Checkbox
+                  checked={allSelected}
+                  indeterminate={!allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(filteredFiles.map(file => file.id)))}
+                  inputProps={{ 'aria-label': allSelected ? 'Clear selection' : 'Select all files' }}
+                />
+                <Typography sx={{ mr: 1 }}>{selectedFiles.length} selected</Typography>
+                {section === 'Trash' ? (
+                  <>
+                    <Button size="small" color="success" startIcon={<RestoreFromTrashIcon />} onClick={() => void runBatch('restore')}>
+                      Restore
+                    </Button>
+                    <Button size="small" color="error" startIcon={<DeleteForeverIcon />} onClick={() => void runBatch('delete')}>
+                      Delete forever
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {section !== 'Shared with me' && (
+                      <>
+                        <Button size="small" startIcon={<StarIcon />} onClick={() => void runBatch('star')}>Star</Button>
+                        <Button size="small" startIcon={<StarBorderIcon />} onClick={() => void runBatch('unstar')}>Unstar</Button>
+                        <Button size="small" startIcon={<LocalOfferOutlinedIcon />}
+                          onClick={e => setTagMenu({ anchorEl: e.currentTarget, file: null })}>
+                          Tag
+                        </Button>
+                        <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => void runBatch('trash')}>
+                          Move to Trash
+                        </Button>
+                      </>
+                    )}
+                    <Button size="small" startIcon={<DownloadIcon />} onClick={() => void downloadSelected()}>Download ZIP</Button>
+                  </>
+                )}
+                <Button size="small" onClick={() => setSelectedIds(new Set())} sx={{ ml: 'auto' }}>Clear</Button>
+              </div>
+            )}
+
+            {section === 'Activity' ? (
+              <ActivityList />
+            ) : section === 'Access tokens' ? (
+              <AccessTokens />
+            ) : section === 'Webhooks' ? (
+              <Webhooks />
+            ) : loading ? (
               <div className="loading">
                 <div className="spinner" />
                 <p>Loading files...</p>
               </div>
-            ) : filteredFiles.length === 0 ? (
+            ) : filteredFiles.length === 0 && folders.length === 0 ? (
               <div className="empty-state">
                 <div className="empty-icon">
-                  {section === 'Starred' ? '⭐' : section === 'Trash' ? '🗑️' : '📄'}
+                  {section === 'Starred' ? '⭐' : section === 'Trash' ? '🗑️' : section === 'Shared with me' ? '👥' : '📄'}
                 </div>
-                <p>No files found in {section}</p>
+                <p>
+                  {debouncedSearch || typeFilter || (tagFilter !== null && section !== 'Tagged')
+                    ? 'No files match your search'
+                    : section === 'Tagged' ? 'No files have this tag' : `No files found in ${section}`}
+                </p>
                 {section === 'Starred' && <p>Star files to see them here</p>}
                 {section === 'Trash' && <p>Deleted files will appear here</p>}
+                {section === 'Shared with me' && <p>Files others share with you will appear here</p>}
               </div>
             ) : (
               <div className="files-grid" role="list" aria-label={`${section} files list`}>
-                {filteredFiles.map(file => (
-                  <div key={file.id} className="file-card" role="listitem">
+                {folders.map(folder => (
+                  <div key={`folder-${folder.id}`} className="file-card folder-card" role="listitem">
+                    <div
+                      onClick={() => { if (!folder.trashed) openFolder(folder.id) }}
+                      style={{ cursor: folder.trashed ? 'default' : 'pointer', fontSize: '2rem' }}
+                      aria-label={`Open folder ${folder.name}`}
+                      tabIndex={0}
+                      onKeyPress={e => { if ((e.key === 'Enter' || e.key === ' ') && !folder.trashed) openFolder(folder.id) }}
+                      role="button"
+                    >
+                      📂
+                    </div>
+
+                    <div className="file-info">
+                      <h3 className="file-name" title={folder.name}>{folder.name}</h3>
+                      <p className="file-details">
+                        Folder • {formatDate(folder.created_at)}
+                        {folder.trashed && <span style={{ color: '#ff6b6b', marginLeft: 8 }}>• In Trash</span>}
+                        {section === 'Trash' && purgeNotice(folder.trashed_at, usage?.trash.retentionDays) && (
+                          <span style={{ marginLeft: 8 }}>• {purgeNotice(folder.trashed_at, usage?.trash.retentionDays)}</span>
+                        )}
+                      </p>
+                    </div>
+
+                    <div className="file-actions" style={{ whiteSpace: 'nowrap' }}>
+                      {section === 'Trash' ? (
+                        <>
+                          <IconButton aria-label="Restore folder" onClick={() => void restoreFolder(folder.id)} size="small" color="success" title="Restore Folder">
+                            <RestoreFromTrashIcon />
+                          </IconButton>
+                          <IconButton aria-label="Delete folder permanently" onClick={() => void deleteFolderPermanently(folder.id)} size="small" color="error" title="Delete Permanently">
+                            <DeleteForeverIcon />
+                          </IconButton>
+                        </>
+                      ) : (
+                        <>
+                          <IconButton aria-label="Rename folder" onClick={() => setFolderDialog({ folder, name: folder.name })} size="small" title="Rename">
+                            <EditIcon />
+                          </IconButton>
+                          <IconButton
+                            aria-label="Move folder"
+                            onClick={() => {
+                              setMoveTarget({ kind: 'folder', id: folder.id, name: folder.name })
+                              setMoveDestination(folder.parent_id ?? 'root')
+                            }}
+                            size="small"
+                            title="Move"
+                          >
+                            <DriveFileMoveIcon />
+                          </IconButton>
+                          <IconButton aria-label="Move folder to Trash" onClick={() => void trashFolder(folder.id)} size="small" color="error" title="Move to Trash">
+                            <DeleteIcon />
+                          </IconButton>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {filteredFiles.flatMap((file, index) => [
+                  // Recent is grouped by when files were last used; each group starts with a heading
+                  section === 'Recent' && recentGroups[file.id] !== recentGroups[filteredFiles[index - 1]?.id] && (
+                    <h3 key={`group-${recentGroups[file.id]}`} className="files-group-header">{recentGroups[file.id]}</h3>
+                  ),
+                  <div key={file.id} className={selectedIds.has(file.id) ? 'file-card selected' : 'file-card'} role="listitem">
+                    <Checkbox
+                      checked={selectedIds.has(file.id)}
+                      onChange={e => toggleSelected(file.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                      inputProps={{ 'aria-label': `Select ${file.name}` }}
+                      size="small"
+                      sx={{ p: 0.5, mr: -1 }}
+                    />
                     <div
                       onClick={() => setPreviewFile(file)}
-                      style={{ cursor: 'pointer', fontSize: '2rem' }}
+                      style={{ cursor: 'pointer' }}
                       aria-label={`Preview ${file.name}`}
                       tabIndex={0}
                       onKeyPress={e => { if (e.key === 'Enter' || e.key === ' ') setPreviewFile(file) }}
                       role="button"
                     >
-                      {file.content_type.startsWith('image/')
-                        ? '🖼️'
-                        : file.content_type.startsWith('video/')
-                          ? '🎥'
-                          : file.content_type.startsWith('audio/')
-                            ? '🎵'
-                            : file.content_type.includes('pdf')
-                              ? '📄'
-                              : '📁'}
+                      <FileThumbnail file={file} />
                     </div>
 
                     <div className="file-info">
-                      <h3 className="file-name" title={file.name}>
-                        {file.name}
-                        {file.starred && <StarIcon sx={{ ml: 1, fontSize: '1rem', color: '#ffd700' }} />}
-                      </h3>
+                      {renaming?.id === file.id ? (
+                        <TextField
+                          value={renaming.name}
+                          onChange={e => setRenaming({ id: file.id, name: e.target.value })}
+                          onKeyDown={e => {
+                            // Saving happens on blur, so Enter doesn't save twice
+                            if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+                            if (e.key === 'Escape') setRenaming(null)
+                          }}
+                          onBlur={() => void renameFile()}
+                          autoFocus
+                          size="small"
+                          variant="standard"
+                          fullWidth
+                          slotProps={{ htmlInput: { 'aria-label': `New name for ${file.name}`, maxLength: 255 } }}
+                        />
+                      ) : (
+                        <h3
+                          className="file-name"
+                          title={file.name}
+                          onDoubleClick={() => {
+                            if (section !== 'Trash' && file.share_role !== 'viewer') setRenaming({ id: file.id, name: file.name })
+                          }}
+                        >
+                          {file.name}
+                          {file.starred && <StarIcon sx={{ ml: 1, fontSize: '1rem', color: '#ffd700' }} />}
+                        </h3>
+                      )}
                       <p className="file-details">
-                        {formatFileSize(file.size)} • {formatDate(file.created_at)}
+                        {formatFileSize(file.size)} • {section === 'Recent'
+                          ? recentActivityText(file as RecentFile)
+                          : formatDate(file.created_at)}
                         {file.trashed && <span style={{ color: '#ff6b6b', marginLeft: 8 }}>• In Trash</span>}
+                        {section === 'Trash' && purgeNotice(file.trashed_at, usage?.trash.retentionDays) && (
+                          <span style={{ marginLeft: 8 }}>• {purgeNotice(file.trashed_at, usage?.trash.retentionDays)}</span>
+                        )}
+                        {file.share_role && (
+                          <span style={{ marginLeft: 8 }}>
+                            • {file.share_role === 'editor' ? 'Editor' : 'Viewer'}{file.shared_by_email && `, shared by ${file.shared_by_email}`}
+                          </span>
+                        )}
                       </p>
+                      {(file.encryption || file.scan_status === 'pending' || file.scan_status === 'quarantined') && (
+                        <div className="file-tags">
+                          {file.encryption && (
+                            <Chip
+                              icon={<LockIcon />}
+                              label="Vault"
+                              size="small"
+                              color="secondary"
+                              title="Encrypted in your browser; only your vault passphrase can open it"
+                              sx={{ mr: 0.5, mb: 0.5, height: 20, fontSize: 11, '& .MuiChip-icon': { fontSize: 12 } }}
+                            />
+                          )}
+                          {file.scan_status === 'pending' && (
+                            <Chip label="Scanning…" size="small" sx={{ mr: 0.5, mb: 0.5, height: 20, fontSize: 11 }} />
+                          )}
+                          {file.scan_status === 'quarantined' && (
+                            <Chip
+                              label="Quarantined"
+                              size="small"
+                              color="error"
+                              title={file.scan_signature ? `Malware detected: ${file.scan_signature}` : 'Malware detected'}
+                              sx={{ mr: 0.5, mb: 0.5, height: 20, fontSize: 11 }}
+                            />
+                          )}
+                        </div>
+                      )}
+                      {file.tags && file.tags.length > 0 && (
+                        <div className="file-tags">
+                          {file.tags.map(tag => (
+                            <Chip
+                              key={tag.id}
+                              label={tag.name}
+                              size="small"
+                              onClick={() => openTag(tag.id)}
+                              sx={{ bgcolor: tag.color, color: '#fff', mr: 0.5, mb: 0.5, height: 20, fontSize: 11 }}
+                            />
+                          ))}
+                        </div>
+                      )}
+                      {isSearchResults && snippets[file.id] && (
+                        <p className="file-snippet" onClick={() => setPreviewFile(file)}>
+                          {snippets[file.id].map((segment, index) => segment.match
+                            ? <mark key={index}>{segment.text}</mark>
+                            : <span key={index}>{segment.text}</span>)}
+                        </p>
+                      )}
                     </div>
 
                     <div className="file-actions" style={{ whiteSpace: 'nowrap' }}>
@@ -423,8 +1223,59 @@ export default function App() {
                         </IconButton>
                       )}
 
+                      {/* Details panel - description and metadata */}
+                      <IconButton aria-label="File details" onClick={() => setDetailsFile(file)} size="small" title="Details">
+                        <InfoOutlinedIcon />
+                      </IconButton>
+
+                      {/* Rename button - owners and editors */}
+                      {section !== 'Trash' && file.share_role !== 'viewer' && (
+                        <IconButton
+                          aria-label="Rename file"
+                          onClick={() => setRenaming({ id: file.id, name: file.name })}
+                          size="small"
+                          title="Rename"
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      )}
+
+                      {/* Tag menu - own files outside Trash */}
+                      {section !== 'Trash' && section !== 'Shared with me' && (
+                        <IconButton
+                          aria-label="Tag file"
+                          onClick={e => setTagMenu({ anchorEl: e.currentTarget, file })}
+                          size="small"
+                          title="Tags"
+                        >
+                          <LocalOfferOutlinedIcon />
+                        </IconButton>
+                      )}
+
+                      {/* Share button - owners and editors; vault files can't be opened by anyone else */}
+                      {section !== 'Trash' && file.share_role !== 'viewer' && !file.encryption && (
+                        <IconButton aria-label="Share file" onClick={() => setShareFile(file)} size="small" title="Share">
+                          <ShareIcon />
+                        </IconButton>
+                      )}
+
+                      {/* Move button - show outside Trash, owner only */}
+                      {section !== 'Trash' && section !== 'Shared with me' && (
+                        <IconButton
+                          aria-label="Move file"
+                          onClick={() => {
+                            setMoveTarget({ kind: 'file', id: file.id, name: file.name })
+                            setMoveDestination(file.parent_id ?? 'root')
+                          }}
+                          size="small"
+                          title="Move"
+                        >
+                          <DriveFileMoveIcon />
+                        </IconButton>
+                      )}
+
                       {/* Move to Trash button - show in My Drive, Recent, and Starred */}
-                      {section !== 'Trash' && (
+                      {section !== 'Trash' && section !== 'Shared with me' && (
                         <IconButton 
                           aria-label="Move to Trash" 
                           onClick={() => moveToTrash(file.id)} 
@@ -463,15 +1314,16 @@ export default function App() {
                       {/* Download button - available in all sections */}
                       <Button 
                         size="small" 
-                        onClick={() => downloadFile(file.id)} 
+                        onClick={() => void downloadFile(file)} 
                         aria-label={`Download ${file.name}`} 
+                        disabled={file.scan_status === 'pending' || file.scan_status === 'quarantined'}
                         sx={{ minWidth: '70px', ml: 1 }}
                       >
                         Download
                       </Button>
                     </div>
                   </div>
-                ))}
+                ])}
               </div>
             )}
           </div>
@@ -503,37 +1355,174 @@ export default function App() {
           aria-label="File upload area"
         >
           <div className="upload-content" style={{ padding: 20, textAlign: 'center' }}>
-            {uploading ? (
-              <div className="upload-progress">
-                <div className="spinner" />
-                <p>Uploading file...</p>
-              </div>
-            ) : (
-              <>
-                <div className="upload-icon" style={{ fontSize: '3rem' }}>📁</div>
-                <p>Drag and drop files here or</p>
-                <label
-                  htmlFor="fileInput"
-                  style={{
-                    backgroundColor: '#667eea',
-                    color: 'white',
-                    padding: '10px 20px',
-                    borderRadius: 8,
-                    cursor: 'pointer',
-                    fontWeight: 600,
-                    display: 'inline-block',
-                    marginTop: 4,
+            {uploadQueue.uploads.length > 0 && (
+              <UploadQueue
+                uploads={uploadQueue.uploads}
+                onCancel={uploadQueue.cancel}
+                onRetry={uploadQueue.retry}
+                onCancelAll={uploadQueue.cancelAll}
+                onClearFinished={uploadQueue.clearFinished}
+              />
+            )}
+            <div className="upload-icon" style={{ fontSize: '3rem' }}>📁</div>
+            <p>Drag and drop files or folders here or</p>
+            <label
+              htmlFor="fileInput"
+              style={{
+                backgroundColor: '#667eea',
+                color: 'white',
+                padding: '10px 20px',
+                borderRadius: 8,
+                cursor: 'pointer',
+                fontWeight: 600,
+                display: 'inline-block',
+                marginTop: 4,
+              }}
+            >
+              Choose Files
+            </label>
+            <div>
+              <Button size="small" onClick={() => document.getElementById('folderInput')?.click()} sx={{ mt: 1 }}>
+                Upload a folder
+              </Button>
+            </div>
+            <p style={{ marginTop: 8, fontSize: 12, color: '#666' }}>Large files upload in chunks and can resume</p>
+            <FormControlLabel
+              label={<span style={{ fontSize: 13 }}>🔒 Encrypt in vault</span>}
+              control={
+                <Switch
+                  size="small"
+                  checked={vaultUploads}
+                  onChange={e => {
+                    if (!e.target.checked) setVaultUploads(false)
+                    else requireVault(() => setVaultUploads(true))
                   }}
-                >
-                  Choose File
-                </label>
-                <p style={{ marginTop: 8, fontSize: 12, color: '#666' }}>Maximum file size: 100MB</p>
-              </>
+                />
+              }
+            />
+            {vault && (
+              <div>
+                <Button size="small" startIcon={<LockIcon />} onClick={closeVault}>Lock vault</Button>
+              </div>
+            )}
+            {interruptedUploads.length > 0 && (
+              <div style={{ marginTop: 12, fontSize: 12, textAlign: 'left' }}>
+                <p style={{ fontWeight: 600, margin: '0 0 4px' }}>Interrupted uploads</p>
+                <p style={{ margin: '0 0 4px', color: '#666' }}>Choose the same file again to resume.</p>
+                {interruptedUploads.map(upload => (
+                  <div key={upload.key} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={upload.name}>
+                      {upload.name}
+                    </span>
+                    <button
+                      aria-label={`Discard upload of ${upload.name}`}
+                      onClick={() => void discardInterruptedUpload(upload).then(() => setInterruptedUploads(listInterruptedUploads()))}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
             )}
           </div>
         </div>
       </div>
 
+      {/* File details side panel */}
+      <Drawer anchor="right" open={!!detailsFile} onClose={() => setDetailsFile(null)}>
+        {detailsFile && (
+          <FileDetailsPanel
+            file={detailsFile}
+            onClose={() => setDetailsFile(null)}
+            onChanged={() => void refreshFiles()}
+          />
+        )}
+      </Drawer>
+
+      {/* Tag checklist for a file or the selection, and the tag editor */}
+      <TagMenu
+        anchorEl={tagMenu?.anchorEl ?? null}
+        tags={tags}
+        isApplied={tag => tagMenu?.file
+          ? !!tagMenu.file.tags?.some(t => t.id === tag.id)
+          : selectedFiles.length > 0 && selectedFiles.every(f => f.tags?.some(t => t.id === tag.id))}
+        onToggle={tag => void toggleTag(tag)}
+        onNewTag={() => setTagDialog({ tag: null })}
+        onClose={() => setTagMenu(null)}
+      />
+      <TagDialog
+        open={!!tagDialog}
+        tag={tagDialog?.tag ?? null}
+        onClose={() => setTagDialog(null)}
+        onSaved={() => {
+          fetchTags()
+          void fetchFiles(pagination?.currentPage || 1)
+        }}
+      />
+
+      <VaultDialog
+        open={!!vaultPrompt}
+        onClose={() => setVaultPrompt(null)}
+        onUnlocked={settings => {
+          setVault(settings)
+          setVaultPrompt(null)
+          vaultPrompt?.(settings)
+        }}
+      />
+
+      {/* Sharing dialog */}
+      <ShareDialog file={shareFile} onClose={() => setShareFile(null)} />
+
+      {/* Create / rename folder dialog */}
+      <Dialog open={!!folderDialog} onClose={() => setFolderDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{folderDialog?.folder ? 'Rename folder' : 'New folder'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Folder name"
+            fullWidth
+            variant="standard"
+            value={folderDialog?.name ?? ''}
+            onChange={e => setFolderDialog(prev => prev && { ...prev, name: e.target.value })}
+            onKeyDown={e => { if (e.key === 'Enter') void saveFolder() }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFolderDialog(null)}>Cancel</Button>
+          <Button onClick={() => void saveFolder()} variant="contained" disabled={!folderDialog?.name.trim()}>
+            {folderDialog?.folder ? 'Rename' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Move file / folder dialog */}
+      <Dialog open={!!moveTarget} onClose={() => setMoveTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Move "{moveTarget?.name}"</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            margin="dense"
+            label="Destination"
+            fullWidth
+            variant="standard"
+            value={moveDestination}
+            onChange={e => setMoveDestination(e.target.value === 'root' ? 'root' : Number(e.target.value))}
+          >
+            <MenuItem value="root">My Drive</MenuItem>
+            {moveDestinations.map(({ folder, depth }) => (
+              <MenuItem key={folder.id} value={folder.id} sx={{ pl: 2 + depth * 2 }}>
+                📂 {folder.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMoveTarget(null)}>Cancel</Button>
+          <Button onClick={() => void moveItem()} variant="contained">Move</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Preview dialog */}
       <Dialog open={!!previewFile} onClose={() => setPreviewFile(null)} maxWidth="lg" fullWidth>
         <DialogTitle>
@@ -546,29 +1535,35 @@ export default function App() {
             ✕
           </IconButton>
         </DialogTitle>
+        <Tabs value={previewTab} onChange={(_, tab: 'preview' | 'activity') => setPreviewTab(tab)} sx={{ px: 3 }}>
+          <Tab value="preview" label="Preview" />
+          <Tab value="activity" label="Activity" />
+        </Tabs>
         <DialogContent dividers sx={{ textAlign: 'center' }}>
-          {previewFile && previewFile.content_type.startsWith('image/') ? (
-            <img
-              src={`/api/files/${previewFile.id}/download`}
-              alt={previewFile.name}
-              style={{ maxWidth: '100%', maxHeight: '80vh' }}
-            />
-          ) : previewFile && previewFile.content_type === 'application/pdf' ? (
-            <iframe
-              src={`/api/files/${previewFile.id}/download`}
-              width="100%"
-              height="600px"
-              title={previewFile.name}
-              style={{ border: 'none' }}
-            />
-          ) : previewFile ? (
+          {previewFile && previewTab === 'preview' && (
             <>
-              <p>No preview available.</p>
-              <Button variant="contained" href={`/api/files/${previewFile.id}/download`} download>
-                Download File
-              </Button>
+              {previewFile.scan_status === 'pending' || previewFile.scan_status === 'quarantined' ? (
+                <Alert severity={previewFile.scan_status === 'quarantined' ? 'error' : 'info'} sx={{ textAlign: 'left' }}>
+                  {previewFile.scan_status === 'quarantined'
+                    ? `This file has been quarantined${previewFile.scan_signature ? ` (${previewFile.scan_signature})` : ''} and can't be opened or downloaded.`
+                    : 'This file is being scanned for malware. It can be opened once the scan finishes.'}
+                </Alert>
+              ) : previewFile.encryption && !vault ? (
+                <Alert
+                  severity="info"
+                  icon={<LockIcon />}
+                  sx={{ textAlign: 'left' }}
+                  action={<Button color="inherit" size="small" onClick={() => requireVault(() => {})}>Unlock</Button>}
+                >
+                  This file is encrypted in your vault. Unlock the vault to preview it.
+                </Alert>
+              ) : (
+                <FilePreview file={previewFile} onDownload={() => void downloadFile(previewFile)} />
+              )}
+              <VersionHistory file={previewFile} onChanged={() => void refreshFiles()} requireVault={requireVault} />
             </>
-          ) : null}
+          )}
+          {previewFile && previewTab === 'activity' && <ActivityList fileId={previewFile.id} />}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,17 @@
+import axios from 'axios'
+import { auth } from './firebaseConfig'
+
+// Backend client; every request carries the signed-in user's Firebase ID token
+export const api = axios.create({ baseURL: '/api', timeout: 30000 })
+
+api.interceptors.request.use(async config => {
+  const token = await auth.currentUser?.getIdToken()
+  if (token) config.headers.Authorization = `Bearer ${token}`
+  return config
+})
+
+// Prefer the backend's { error } message when there is one
+export const apiErrorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError<{ error?: string }>(err) && err.response?.data?.error
+    ? err.response.data.error
+    : fallback
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Alert from '@mui/material/Alert';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { api, apiErrorMessage } from '../api';
+import { parseServerDate } from '../format';
+import type { AccessToken, NewAccessToken, TokenScope } from '../types';
+
+const SCOPE_LABELS: Record<TokenScope, string> = {
+  read: 'Read (list and download)',
+  write: 'Write (upload, edit, move, trash)',
+  delete: 'Delete forever',
+};
+
+// '' is a token that never expires
+const EXPIRY_OPTIONS = [
+  { days: '7', label: '7 days' },
+  { days: '30', label: '30 days' },
+  { days: '90', label: '90 days' },
+  { days: '365', label: '1 year' },
+  { days: '', label: 'Never' },
+];
+
+const describe = (token: AccessToken) => [
+  `${token.scopes.join(', ')} · …${token.token_hint}`,
+  token.expires_at ? `expires ${parseServerDate(token.expires_at).toLocaleDateString()}` : 'never expires',
+  token.last_used_at ? `last used ${parseServerDate(token.last_used_at).toLocaleString()}` : 'never used',
+].join(' · ');
+
+// Personal access tokens for scripts using the REST API: create, list and revoke
+export default function AccessTokens() {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['read']);
+  const [expiryDays, setExpiryDays] = useState('30');
+  const [creating, setCreating] = useState(false);
+  // The secret of the token just created, which the server won't show again
+  const [created, setCreated] = useState<NewAccessToken | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await api.get<{ tokens: AccessToken[] }>('/tokens');
+      setTokens(response.data.tokens);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load access tokens'));
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    void fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: TokenScope) =>
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+
+  const createToken = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await api.post<NewAccessToken>('/tokens', {
+        name: name.trim(),
+        scopes,
+        expires_in_days: expiryDays ? Number(expiryDays) : null,
+      });
+      setCreated(response.data);
+      setName('');
+      await fetchTokens();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to create access token'));
+      console.error(err);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeToken = async (token: AccessToken) => {
+    if (!window.confirm(`Revoke “${token.name}”? Scripts using it will stop working.`)) return;
+    try {
+      await api.delete(`/tokens/${token.id}`);
+      if (created?.id === token.id) setCreated(null);
+      await fetchTokens();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to revoke access token'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <div style={{ textAlign: 'left', maxWidth: 720 }}>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>
+        Scripts can call the <code>/api/files</code>, <code>/api/folders</code> and <code>/api/uploads</code> routes with a token
+        as <code>Authorization: Bearer &lt;token&gt;</code>. The routes are described
+        in <a href="/api/openapi.json" target="_blank" rel="noreferrer">the OpenAPI document</a>.
+      </Typography>
+      {error && <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      {created && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCreated(null)}
+          action={
+            <IconButton aria-label="Copy token" title="Copy token" color="inherit" size="small"
+              onClick={() => { navigator.clipboard.writeText(created.token).catch(console.error); }}>
+              <ContentCopyIcon fontSize="small" />
+            </IconButton>
+          }>
+          Copy “{created.name}” now; it won't be shown again.
+          <Typography component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 0.5 }}>{created.token}</Typography>
+        </Alert>
+      )}
+
+      <div className="filter-bar" style={{ display: 'flex', gap: 16, alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: 8 }}>
+        <TextField label="Token name" variant="standard" value={name}
+          onChange={e => setName(e.target.value)} sx={{ minWidth: 220 }} />
+        <TextField select label="Expires" variant="standard" value={expiryDays}
+          onChange={e => setExpiryDays(e.target.value)} sx={{ minWidth: 120 }}>
+          {EXPIRY_OPTIONS.map(option => <MenuItem key={option.label} value={option.days}>{option.label}</MenuItem>)}
+        </TextField>
+        <Button variant="contained" disabled={creating || !name.trim() || scopes.length === 0} onClick={() => void createToken()}>
+          {creating ? 'Creating…' : 'Create token'}
+        </Button>
+      </div>
+      <div>
+        {(Object.keys(SCOPE_LABELS) as TokenScope[]).map(scope => (
+          <FormControlLabel key={scope} label={SCOPE_LABELS[scope]}
+            control={<Checkbox size="small" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />} />
+        ))}
+      </div>
+
+      {tokens.length === 0 ? (
+        <Typography color="text.secondary" sx={{ my: 2 }}>No access tokens yet</Typography>
+      ) : (
+        <List dense aria-label="Access tokens">
+          {tokens.map(token => (
+            <ListItem key={token.id} disableGutters
+              secondaryAction={
+                <IconButton edge="end" aria-label={`Revoke ${token.name}`} title="Revoke" onClick={() => void revokeToken(token)}>
+                  <DeleteIcon />
+                </IconButton>
+              }>
+              <ListItemText primary={token.name} secondary={describe(token)} />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </div>
+  );
+}
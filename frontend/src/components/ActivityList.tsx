@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import Alert from '@mui/material/Alert';
+import { api, apiErrorMessage } from '../api';
+import { parseServerDate } from '../format';
+import type { ActivityAction, ActivityEntry, ActivityResponse } from '../types';
+
+interface ActivityListProps {
+  // Shows one file's history; without it, the feed for the whole drive with filters
+  fileId?: number;
+}
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  upload: 'uploaded',
+  download: 'downloaded',
+  create: 'created',
+  rename: 'renamed',
+  update: 'updated the details of',
+  move: 'moved',
+  star: 'starred',
+  unstar: 'unstarred',
+  trash: 'moved to trash',
+  restore: 'restored',
+  delete: 'permanently deleted',
+  share: 'shared',
+  unshare: 'stopped sharing',
+  new_version: 'uploaded a new version of',
+  restore_version: 'restored an earlier version of',
+  tag: 'tagged',
+  untag: 'untagged',
+  quarantine: 'quarantined',
+};
+
+// A detail value as text; details are free-form JSON, so anything but a string or number is left out
+const detailText = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+
+const describe = (entry: ActivityEntry) => {
+  const details = entry.details ?? {};
+  const actor = entry.actor_email ?? (details.via === 'link' ? 'Someone with a public link' : 'System');
+  const target = `${entry.target_type === 'folder' ? '📂 ' : ''}${entry.target_name ?? `#${entry.target_id}`}`;
+  const email = detailText(details.email);
+  const role = detailText(details.role);
+  const tag = detailText(details.tag);
+  const signature = detailText(details.signature);
+  const from = detailText(details.from);
+  const version = detailText(details.version);
+  const extras = [
+    email && `with ${email}`,
+    role && `as ${role}`,
+    tag && `(🏷️ ${tag})`,
+    signature && `(${signature})`,
+    details.via === 'link' && entry.action !== 'download' && 'via a public link',
+    from !== null && entry.action === 'rename' && `(was “${from}”)`,
+    version !== null && `(version ${version})`,
+    details.copied_from !== undefined && 'as a copy',
+    details.archive && 'in a ZIP',
+    details.reason === 'retention' && '(trash retention)',
+  ].filter(Boolean);
+  return [actor, ACTION_LABELS[entry.action] ?? entry.action, target, ...extras].join(' ');
+};
+
+// Activity feed: the whole drive in the Activity section, one file in the preview dialog
+export default function ActivityList({ fileId }: ActivityListProps) {
+  const [activities, setActivities] = useState<ActivityEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasNext, setHasNext] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [action, setAction] = useState('');
+  const [actor, setActor] = useState('');
+  const [debouncedActor, setDebouncedActor] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedActor(actor.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [actor]);
+
+  const fetchActivity = useCallback(async (nextPage: number) => {
+    setLoading(true);
+    setError(null);
+    const params = new URLSearchParams({ page: String(nextPage), limit: '50' });
+    if (action) params.set('action', action);
+    if (debouncedActor) params.set('actor', debouncedActor);
+    try {
+      const url = fileId === undefined ? '/activity' : `/files/${fileId}/activity`;
+      const response = await api.get<ActivityResponse>(`${url}?${params}`);
+      setActivities(prev => nextPage === 1 ? response.data.activities : [...prev, ...response.data.activities]);
+      setPage(nextPage);
+      setHasNext(response.data.pagination.hasNext);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load activity'));
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [fileId, action, debouncedActor]);
+
+  useEffect(() => {
+    void fetchActivity(1);
+  }, [fetchActivity]);
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      {fileId === undefined && (
+        <div className="filter-bar" style={{ display: 'flex', gap: 16, alignItems: 'flex-end', marginBottom: 16 }}>
+          <TextField select label="Action" variant="standard" value={action}
+            onChange={e => setAction(e.target.value)} sx={{ minWidth: 180 }}>
+            <MenuItem value="">All actions</MenuItem>
+            {(Object.keys(ACTION_LABELS) as ActivityAction[]).map(name => (
+              <MenuItem key={name} value={name}>{name.replace('_', ' ')}</MenuItem>
+            ))}
+          </TextField>
+          <TextField label="By (email)" variant="standard" value={actor}
+            onChange={e => setActor(e.target.value)} sx={{ minWidth: 220 }} />
+        </div>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      {!loading && activities.length === 0 && !error && (
+        <Typography color="text.secondary" sx={{ my: 2 }}>No activity yet</Typography>
+      )}
+      <List dense aria-label="Activity">
+        {activities.map(entry => (
+          <ListItem key={entry.id} disableGutters>
+            <ListItemText primary={describe(entry)} secondary={parseServerDate(entry.created_at).toLocaleString()} />
+          </ListItem>
+        ))}
+      </List>
+      {hasNext && (
+        <Button size="small" disabled={loading} onClick={() => void fetchActivity(page + 1)}>
+          {loading ? 'Loading…' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,42 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import Card from '@mui/material/Card';
 import CardActionArea from '@mui/material/CardActionArea';
 import CardContent from '@mui/material/CardContent';
 import Typography from '@mui/material/Typography';
 import Dialog from '@mui/material/Dialog';
+import DialogContent from '@mui/material/DialogContent';
+import Alert from '@mui/material/Alert';
+import FileThumbnail from './FileThumbnail';
+import FilePreview from './FilePreview';
+import { api, apiErrorMessage } from '../api';
+import type { FileItem } from '../types';
 
-export default function FileCard({ file }) {
+interface FileCardProps {
+  file: FileItem;
+}
+
+export default function FileCard({ file }: FileCardProps) {
   const [open, setOpen] = useState(false);
-  const previewUrl = file.downloadUrl;
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async () => {
+    setError(null);
+    try {
+      const response = await api.get<{ downloadUrl: string }>(`/files/${file.id}/download`);
+      window.open(response.data.downloadUrl, '_blank');
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to download file'));
+      console.error(err);
+    }
+  };
+
   return (
     <>
       <Card sx={{ maxWidth: 200, m:1 }}>
         <CardActionArea onClick={()=>setOpen(true)}>
+          <div style={{ display: 'flex', justifyContent: 'center', paddingTop: 8 }}>
+            <FileThumbnail file={file} size={160} />
+          </div>
           <CardContent>
             <Typography variant="subtitle2" noWrap>{file.name}</Typography>
             <Typography variant="caption" color="text.secondary">
@@ -20,14 +45,11 @@ export default function FileCard({ file }) {
           </CardContent>
         </CardActionArea>
       </Card>
-      <Dialog open={open} onClose={()=>setOpen(false)} maxWidth="lg">
-        {file.content_type.startsWith('image/') ? (
-          <img src={previewUrl} style={{maxWidth:'90vw',maxHeight:'90vh'}} />
-        ) : file.content_type==='application/pdf' ? (
-          <iframe src={previewUrl} width="90vw" height="90vh" />
-        ) : (
-          <a href={previewUrl} download>Download {file.name}</a>
-        )}
+      <Dialog open={open} onClose={()=>setOpen(false)} maxWidth="lg" fullWidth>
+        <DialogContent sx={{ textAlign: 'center' }}>
+          {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+          {open && <FilePreview file={file} onDownload={() => void download()} />}
+        </DialogContent>
       </Dialog>
     </>
   );
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import Alert from '@mui/material/Alert';
+import Divider from '@mui/material/Divider';
+import CloseIcon from '@mui/icons-material/Close';
+import { api, apiErrorMessage } from '../api';
+import { formatFileSize, parseServerDate } from '../format';
+import type { FileDetails, FileItem } from '../types';
+
+interface FileDetailsPanelProps {
+  file: FileItem;
+  onClose: () => void;
+  // Called after the file is edited or copied so the file list can refresh
+  onChanged: () => void;
+}
+
+interface MetadataRow {
+  key: string;
+  value: string;
+}
+
+const toRows = (metadata: Record<string, string>): MetadataRow[] =>
+  Object.entries(metadata).map(([key, value]) => ({ key, value }));
+
+// Side panel with a file's properties and its editable description and custom metadata
+export default function FileDetailsPanel({ file, onClose, onChanged }: FileDetailsPanelProps) {
+  const [details, setDetails] = useState<FileDetails | null>(null);
+  const [description, setDescription] = useState('');
+  const [rows, setRows] = useState<MetadataRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const canEdit = details !== null && details.access_role !== 'viewer' && !details.trashed;
+
+  const showDetails = (data: FileDetails) => {
+    setDetails(data);
+    setDescription(data.description ?? '');
+    setRows(toRows(data.metadata));
+  };
+
+  useEffect(() => {
+    setError(null);
+    setNotice(null);
+    api.get<FileDetails>(`/files/${file.id}`)
+      .then(response => showDetails(response.data))
+      .catch(err => {
+        setError(apiErrorMessage(err, 'Failed to load file details'));
+        console.error(err);
+      });
+  }, [file.id]);
+
+  const updateRow = (index: number, changes: Partial<MetadataRow>) =>
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    const metadata = Object.fromEntries(rows.filter(row => row.key.trim()).map(row => [row.key.trim(), row.value]));
+    try {
+      const response = await api.patch<FileDetails>(`/files/${file.id}`, { description, metadata });
+      showDetails(response.data);
+      setNotice('Saved');
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to save details'));
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const makeCopy = async () => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await api.post<FileDetails>(`/files/${file.id}/copy`, {});
+      setNotice(`Copied as “${response.data.name}”`);
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to copy file'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <div style={{ width: 360, padding: 16 }} aria-label="File details">
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h6" noWrap title={details?.name ?? file.name}>{details?.name ?? file.name}</Typography>
+        <IconButton aria-label="Close details" onClick={onClose}><CloseIcon /></IconButton>
+      </div>
+      {error && <Alert severity="error" sx={{ my: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      {notice && <Alert severity="success" sx={{ my: 1 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+      {details && (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {formatFileSize(details.size)} • {details.content_type}<br />
+            Added {parseServerDate(details.created_at).toLocaleString()}<br />
+            {details.access_role === 'owner' ? 'You own this file' : `Shared with you as ${details.access_role}`}
+            {details.sha256 && <><br />SHA-256 {details.sha256.slice(0, 12)}…</>}
+            {details.encryption && <><br />🔒 Encrypted in the owner's vault</>}
+          </Typography>
+          <TextField
+            label="Description"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            multiline
+            minRows={2}
+            fullWidth
+            disabled={!canEdit}
+            slotProps={{ htmlInput: { maxLength: 2000 } }}
+          />
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>Metadata</Typography>
+          {rows.length === 0 && (
+            <Typography variant="body2" color="text.secondary">No custom metadata</Typography>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+              <TextField size="small" label="Key" value={row.key} disabled={!canEdit}
+                onChange={e => updateRow(index, { key: e.target.value })} sx={{ flex: 1 }} />
+              <TextField size="small" label="Value" value={row.value} disabled={!canEdit}
+                onChange={e => updateRow(index, { value: e.target.value })} sx={{ flex: 1 }} />
+              {canEdit && (
+                <IconButton size="small" aria-label={`Remove ${row.key || 'entry'}`}
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}>
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              )}
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+            {canEdit && (
+              <>
+                <Button size="small" onClick={() => setRows(prev => [...prev, { key: '', value: '' }])}>Add field</Button>
+                <Button size="small" variant="contained" disabled={saving} onClick={() => void save()}>
+                  {saving ? 'Saving…' : 'Save'}
+                </Button>
+              </>
+            )}
+            {!details.trashed && (details.access_role === 'owner' || !details.encryption) && (
+              <Button size="small" onClick={() => void makeCopy()}>Make a copy</Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect, useMemo } from 'react';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TablePagination from '@mui/material/TablePagination';
+import TableRow from '@mui/material/TableRow';
+import ReactMarkdown from 'react-markdown';
+import Papa from 'papaparse';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github.css';
+import { api } from '../api';
+import { useApiObjectUrl } from '../useApiObjectUrl';
+import { encryptionOf, fetchDecrypted } from '../vault';
+import type { FileItem, VaultEncryption } from '../types';
+
+// Size caps so a huge file can't freeze the tab; text previews only fetch the first bytes
+const MAX_BLOB_PREVIEW_BYTES = 50 * 1024 * 1024;
+const TEXT_PREVIEW_BYTES = 1024 * 1024;
+const TABLE_PREVIEW_BYTES = 2 * 1024 * 1024;
+const MAX_HIGHLIGHT_BYTES = 256 * 1024;
+const TABLE_ROWS_PER_PAGE = 100;
+
+type PreviewKind = 'image' | 'pdf' | 'video' | 'audio' | 'markdown' | 'table' | 'code' | 'text';
+
+// highlight.js language for each code file extension
+const CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript', json: 'json', py: 'python', rb: 'ruby',
+  go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp',
+  cs: 'csharp', php: 'php', swift: 'swift', sh: 'bash', bash: 'bash', sql: 'sql',
+  html: 'xml', xml: 'xml', svg: 'xml', css: 'css', scss: 'scss', yml: 'yaml', yaml: 'yaml',
+  ini: 'ini', toml: 'ini', diff: 'diff',
+};
+
+const extensionOf = (name: string) => name.includes('.') ? (name.split('.').pop() ?? '').toLowerCase() : '';
+
+const previewKindOf = (file: FileItem): PreviewKind | null => {
+  const type = file.content_type.split(';')[0].trim().toLowerCase();
+  const extension = extensionOf(file.name);
+  if (/^image\/(jpeg|png|gif|webp|avif)$/.test(type)) return 'image';
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type === 'text/markdown' || extension === 'md' || extension === 'markdown') return 'markdown';
+  if (['text/csv', 'text/tab-separated-values'].includes(type) || extension === 'csv' || extension === 'tsv') return 'table';
+  if (extension in CODE_LANGUAGES) return 'code';
+  if (type.startsWith('text/') || ['application/json', 'application/xml', 'application/x-yaml'].includes(type)) return 'text';
+  return null;
+};
+
+// First `bytes` bytes of the file as text, via a Range request to the preview route
+const useTextPreview = (file: FileItem, bytes: number, enabled: boolean) => {
+  const [text, setText] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setText(null);
+    setFailed(false);
+    if (!enabled) return;
+    let cancelled = false;
+    api.get<string>(`/files/${file.id}/preview`, {
+      headers: { Range: `bytes=0-${bytes - 1}` },
+      responseType: 'text',
+      transformResponse: (data: string) => data,
+    })
+      .then(response => { if (!cancelled) setText(response.data); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [file.id, bytes, enabled]);
+
+  return { text, failed };
+};
+
+// A vault file decrypted in the browser: the first textBytes as text for text previews, otherwise
+// a blob: URL. The whole file has to be fetched and decrypted either way.
+const useDecryptedPreview = (file: FileItem, encryption: VaultEncryption | null, textBytes: number | null, enabled: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setText(null);
+    setError(null);
+    if (!enabled || !encryption) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    fetchDecrypted(file.id, encryption)
+      .then(async blob => {
+        if (textBytes !== null) {
+          const decoded = await blob.slice(0, textBytes).text();
+          if (!cancelled) setText(decoded);
+        } else if (!cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'The file could not be decrypted'); });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file.id, encryption, textBytes, enabled]);
+
+  return { url, text, error };
+};
+
+// Media elements stream straight from the signed download URL, which serves Range requests
+const useDownloadUrl = (file: FileItem, enabled: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (!enabled) return;
+    let cancelled = false;
+    api.get<{ downloadUrl: string }>(`/files/${file.id}/download`, { params: { purpose: 'preview' } })
+      .then(response => { if (!cancelled) setUrl(response.data.downloadUrl); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [file.id, enabled]);
+
+  return { url, failed };
+};
+
+function CsvTable({ text, delimiter, truncated }: { text: string; delimiter: string; truncated: boolean }) {
+  const [page, setPage] = useState(0);
+  const rows = useMemo(() => {
+    // A cut-off download ends mid-row; drop the partial last line
+    const complete = truncated ? text.slice(0, text.lastIndexOf('\n')) : text;
+    return Papa.parse<string[]>(complete, { delimiter, skipEmptyLines: true }).data;
+  }, [text, delimiter, truncated]);
+  const [header, ...body] = rows;
+
+  if (!header) return <p>This file is empty.</p>;
+  return (
+    <>
+      <TableContainer sx={{ maxHeight: '60vh' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              {header.map((cell, index) => <TableCell key={index} sx={{ fontWeight: 600 }}>{cell}</TableCell>)}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {body.slice(page * TABLE_ROWS_PER_PAGE, (page + 1) * TABLE_ROWS_PER_PAGE).map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, index) => <TableCell key={index}>{cell}</TableCell>)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={body.length}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={TABLE_ROWS_PER_PAGE}
+        rowsPerPageOptions={[TABLE_ROWS_PER_PAGE]}
+      />
+    </>
+  );
+}
+
+function CodeBlock({ text, language }: { text: string; language?: string }) {
+  // highlight.js escapes the source, so its output is safe to inject
+  const highlighted = useMemo(() => {
+    if (!language || text.length > MAX_HIGHLIGHT_BYTES || !hljs.getLanguage(language)) return null;
+    return hljs.highlight(text, { language }).value;
+  }, [text, language]);
+
+  return (
+    <pre className="hljs" style={{ textAlign: 'left', maxHeight: '60vh', overflow: 'auto', padding: 12, fontSize: '0.85rem' }}>
+      {highlighted !== null ? <code dangerouslySetInnerHTML={{ __html: highlighted }} /> : <code>{text}</code>}
+    </pre>
+  );
+}
+
+interface FilePreviewProps {
+  file: FileItem;
+  onDownload: () => void;
+}
+
+// Body of the preview dialog: picks a previewer from the file's type and extension. Vault files
+// are previewed by their original type, decrypted here; the vault must already be unlocked.
+export default function FilePreview({ file, onDownload }: FilePreviewProps) {
+  // Parsed once per encryption header, so the decrypting effect doesn't rerun on every render
+  const encryptionJson = file.encryption;
+  const encryption = useMemo(() => encryptionOf({ encryption: encryptionJson }), [encryptionJson]);
+  const original = encryption ? { ...file, content_type: encryption.content_type, size: encryption.plaintext_size } : file;
+  const kind = previewKindOf(original);
+  const textBytes = kind === 'table' ? TABLE_PREVIEW_BYTES : TEXT_PREVIEW_BYTES;
+  // Vault files are decrypted whole, so the cap applies to every kind of them
+  const tooLarge = (encryption ? kind !== null : kind === 'image' || kind === 'pdf') && original.size > MAX_BLOB_PREVIEW_BYTES;
+  const isText = kind === 'markdown' || kind === 'table' || kind === 'code' || kind === 'text';
+
+  const blob = useApiObjectUrl(!encryption && (kind === 'image' || kind === 'pdf') && !tooLarge ? `/files/${file.id}/preview` : null);
+  const media = useDownloadUrl(file, !encryption && (kind === 'video' || kind === 'audio'));
+  const textPreview = useTextPreview(file, textBytes, !encryption && isText);
+  const decrypted = useDecryptedPreview(file, encryption, isText ? textBytes : null, !!kind && !tooLarge);
+
+  const url = encryption ? decrypted.url : kind === 'video' || kind === 'audio' ? media.url : blob.url;
+  const previewText = encryption ? decrypted.text : textPreview.text;
+  const truncated = original.size > textBytes;
+  const failed = media.failed || blob.failed || textPreview.failed || decrypted.error !== null;
+  const loading = !failed && (isText ? previewText === null : url === null);
+
+  if (!kind || tooLarge || failed) {
+    return (
+      <>
+        <p>
+          {tooLarge ? 'This file is too large to preview.'
+            : decrypted.error ?? (failed ? 'The preview could not be loaded.' : 'No preview available.')}
+        </p>
+        <Button variant="contained" onClick={onDownload}>Download File</Button>
+      </>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  const text = previewText ?? '';
+  return (
+    <>
+      {isText && truncated && (
+        <Alert severity="info" sx={{ mb: 1, textAlign: 'left' }}
+          action={<Button color="inherit" size="small" onClick={onDownload}>Download</Button>}>
+          Showing the first {Math.round(textBytes / 1024)} KB of this file.
+        </Alert>
+      )}
+      {url && kind === 'image' && <img src={url} alt={file.name} style={{ maxWidth: '100%', maxHeight: '80vh' }} />}
+      {url && kind === 'pdf' && <iframe src={url} width="100%" height="600px" title={file.name} style={{ border: 'none' }} />}
+      {url && kind === 'video' && <video src={url} controls preload="metadata" style={{ maxWidth: '100%', maxHeight: '70vh' }} />}
+      {url && kind === 'audio' && <audio src={url} controls preload="metadata" style={{ width: '100%' }} />}
+      {kind === 'markdown' && (
+        <div className="markdown-preview" style={{ textAlign: 'left', maxHeight: '60vh', overflow: 'auto' }}>
+          <ReactMarkdown>{text}</ReactMarkdown>
+        </div>
+      )}
+      {kind === 'table' && (
+        <CsvTable text={text} truncated={truncated}
+          delimiter={original.content_type.startsWith('text/tab-separated-values') || extensionOf(file.name) === 'tsv' ? '\t' : ','} />
+      )}
+      {kind === 'code' && <CodeBlock text={text} language={CODE_LANGUAGES[extensionOf(file.name)]} />}
+      {kind === 'text' && <CodeBlock text={text} />}
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import { useApiObjectUrl } from '../useApiObjectUrl';
+import { fileIcon } from '../format';
+import type { FileItem } from '../types';
+
+interface FileThumbnailProps {
+  file: FileItem;
+  size?: number;
+}
+
+// Server-rendered thumbnail, falling back to the file type icon
+export default function FileThumbnail({ file, size = 96 }: FileThumbnailProps) {
+  const thumbnailPath = file.thumbnail_key ? `/files/${file.id}/thumbnail?v=${encodeURIComponent(file.thumbnail_key)}` : null;
+  const { url } = useApiObjectUrl(thumbnailPath);
+
+  if (!url) return <span style={{ fontSize: '2rem' }}>{file.encryption ? '🔒' : fileIcon(file.content_type)}</span>;
+  return (
+    <img
+      src={url}
+      alt=""
+      loading="lazy"
+      style={{ width: size, height: size, objectFit: 'cover', borderRadius: 4, display: 'block' }}
+    />
+  );
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import CardActions from '@mui/material/CardActions';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import type { PublicShareInfo } from '../types';
+
+// Landing page for public share links (/?share=<token>); needs no sign-in
+const publicApi = axios.create({ baseURL: '/api/public', timeout: 30000 });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError<{ error?: string }>(err) && err.response?.data?.error ? err.response.data.error : fallback;
+
+export default function PublicShare({ token }: { token: string }) {
+  const [info, setInfo] = useState<PublicShareInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    publicApi.get<PublicShareInfo>(`/shares/${encodeURIComponent(token)}`)
+      .then(response => setInfo(response.data))
+      .catch(err => setError(errorMessage(err, 'This link is not available')));
+  }, [token]);
+
+  const download = async () => {
+    setError(null);
+    try {
+      const response = await publicApi.post<{ downloadUrl: string }>(
+        `/shares/${encodeURIComponent(token)}/download`, { password: password || undefined });
+      window.location.href = response.data.downloadUrl;
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to download file'));
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+      <Card sx={{ minWidth: 320, maxWidth: 480 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>{info ? info.name : 'Shared file'}</Typography>
+          {info && (
+            <Typography variant="body2" color="text.secondary">
+              {Math.round(info.size / 1024)} KB
+              {info.expires_at && ` • expires ${new Date(info.expires_at).toLocaleString()}`}
+            </Typography>
+          )}
+          {info?.requires_password && (
+            <TextField label="Password" type="password" variant="standard" fullWidth margin="dense"
+              value={password} onChange={e => setPassword(e.target.value)} />
+          )}
+          {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+        </CardContent>
+        {info && (
+          <CardActions>
+            <Button variant="contained" onClick={() => void download()} disabled={info.requires_password && !password}>
+              Download
+            </Button>
+          </CardActions>
+        )}
+      </Card>
+    </div>
+  );
+}
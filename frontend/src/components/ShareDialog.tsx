@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import IconButton from '@mui/material/IconButton';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import Typography from '@mui/material/Typography';
+import Divider from '@mui/material/Divider';
+import Alert from '@mui/material/Alert';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { api, apiErrorMessage } from '../api';
+import type { FileItem, FileShare, ShareLink, ShareRole, SharesResponse } from '../types';
+
+interface ShareDialogProps {
+  file: FileItem | null;
+  onClose: () => void;
+}
+
+// Link people open in the browser; the page then goes through the backend's public share route
+const shareLinkPageUrl = (link: ShareLink) => `${window.location.origin}/?share=${encodeURIComponent(link.token)}`;
+
+export default function ShareDialog({ file, onClose }: ShareDialogProps) {
+  const [shares, setShares] = useState<FileShare[]>([]);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [expiresInHours, setExpiresInHours] = useState('');
+  const [linkPassword, setLinkPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  // Editors can manage people but only the owner sees and creates public links
+  const isOwner = !file?.share_role;
+
+  const fetchShares = async (fileId: number) => {
+    try {
+      const response = await api.get<SharesResponse>(`/files/${fileId}/shares`);
+      setShares(response.data.shares);
+      setLinks(response.data.links);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load sharing settings'));
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    setError(null);
+    setShares([]);
+    setLinks([]);
+    if (file) void fetchShares(file.id);
+  }, [file]);
+
+  if (!file) return null;
+
+  const addShare = async () => {
+    setError(null);
+    try {
+      await api.post(`/files/${file.id}/shares`, { email, role });
+      setEmail('');
+      await fetchShares(file.id);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to share file'));
+      console.error(err);
+    }
+  };
+
+  const revokeShare = async (shareId: number) => {
+    try {
+      await api.delete(`/files/${file.id}/shares/${shareId}`);
+      await fetchShares(file.id);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to revoke access'));
+      console.error(err);
+    }
+  };
+
+  const createLink = async () => {
+    setError(null);
+    try {
+      await api.post(`/files/${file.id}/links`, {
+        expires_in_hours: expiresInHours || null,
+        password: linkPassword || null,
+        max_downloads: maxDownloads || null,
+      });
+      setExpiresInHours('');
+      setLinkPassword('');
+      setMaxDownloads('');
+      await fetchShares(file.id);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to create link'));
+      console.error(err);
+    }
+  };
+
+  const revokeLink = async (linkId: number) => {
+    try {
+      await api.delete(`/files/${file.id}/links/${linkId}`);
+      await fetchShares(file.id);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to revoke link'));
+      console.error(err);
+    }
+  };
+
+  const copyLink = (link: ShareLink) => {
+    navigator.clipboard.writeText(shareLinkPageUrl(link)).catch((err: unknown) => {
+      setError('Failed to copy link');
+      console.error(err);
+    });
+  };
+
+  const describeLink = (link: ShareLink) => [
+    link.expires_at ? `expires ${new Date(link.expires_at).toLocaleString()}` : 'never expires',
+    link.has_password ? 'password protected' : null,
+    link.max_downloads !== null ? `${link.download_count}/${link.max_downloads} downloads` : `${link.download_count} downloads`,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Share "{file.name}"</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>People with access</Typography>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+          <TextField label="Email" type="email" variant="standard" fullWidth value={email}
+            onChange={e => setEmail(e.target.value)} />
+          <TextField select label="Role" variant="standard" value={role} sx={{ minWidth: 110 }}
+            onChange={e => setRole(e.target.value as ShareRole)}>
+            <MenuItem value="viewer">Viewer</MenuItem>
+            <MenuItem value="editor">Editor</MenuItem>
+          </TextField>
+          <Button variant="contained" onClick={() => void addShare()} disabled={!email.trim()}>Share</Button>
+        </div>
+        <List dense>
+          {shares.map(share => (
+            <ListItem key={share.id} secondaryAction={
+              <IconButton edge="end" aria-label={`Remove ${share.grantee_email}`} onClick={() => void revokeShare(share.id)}>
+                <DeleteIcon />
+              </IconButton>
+            }>
+              <ListItemText primary={share.grantee_email} secondary={share.role === 'editor' ? 'Editor' : 'Viewer'} />
+            </ListItem>
+          ))}
+          {shares.length === 0 && (
+            <ListItem><ListItemText secondary="Not shared with anyone yet" /></ListItem>
+          )}
+        </List>
+
+        {isOwner && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>Public links</Typography>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end', flexWrap: 'wrap' }}>
+              <TextField label="Expires in (hours)" type="number" variant="standard" value={expiresInHours}
+                onChange={e => setExpiresInHours(e.target.value)} sx={{ width: 140 }} />
+              <TextField label="Password" type="password" variant="standard" value={linkPassword}
+                onChange={e => setLinkPassword(e.target.value)} sx={{ width: 140 }} />
+              <TextField label="Max downloads" type="number" variant="standard" value={maxDownloads}
+                onChange={e => setMaxDownloads(e.target.value)} sx={{ width: 120 }} />
+              <Button variant="outlined" onClick={() => void createLink()}>Create link</Button>
+            </div>
+            <List dense>
+              {links.map(link => (
+                <ListItem key={link.id} secondaryAction={
+                  <>
+                    <IconButton aria-label="Copy link" title="Copy link"
+                      onClick={() => copyLink(link)}>
+                      <ContentCopyIcon />
+                    </IconButton>
+                    <IconButton edge="end" aria-label="Revoke link" title="Revoke link" onClick={() => void revokeLink(link.id)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </>
+                }>
+                  <ListItemText primary={shareLinkPageUrl(link)} secondary={describeLink(link)}
+                    primaryTypographyProps={{ noWrap: true, sx: { pr: 8 } }} />
+                </ListItem>
+              ))}
+              {links.length === 0 && (
+                <ListItem><ListItemText secondary="No public links" /></ListItem>
+              )}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
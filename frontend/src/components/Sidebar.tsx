@@ -1,18 +1,138 @@
-import React from 'react';
+import { useState } from 'react';
 import List from '@mui/material/List';
-import ListItem from '@mui/material/ListItem';
+import ListItemButton from '@mui/material/ListItemButton';
 import ListItemText from '@mui/material/ListItemText';
+import Collapse from '@mui/material/Collapse';
+import IconButton from '@mui/material/IconButton';
+import Divider from '@mui/material/Divider';
+import LinearProgress from '@mui/material/LinearProgress';
+import ExpandLess from '@mui/icons-material/ExpandLess';
+import ExpandMore from '@mui/icons-material/ExpandMore';
+import EditIcon from '@mui/icons-material/Edit';
+import ListSubheader from '@mui/material/ListSubheader';
+import { formatFileSize } from '../format';
+import type { FolderItem, StorageUsage, TagItem } from '../types';
+
+interface SidebarProps {
+  section: string;
+  setSection: (section: string) => void;
+  folders: FolderItem[];
+  currentFolderId: number | null;
+  onOpenFolder: (folderId: number | null) => void;
+  usage: StorageUsage | null;
+  tags: TagItem[];
+  currentTagId: number | null;
+  onOpenTag: (tagId: number) => void;
+  // null opens the dialog for a new tag
+  onEditTag: (tag: TagItem | null) => void;
+}
+
+interface FolderTreeProps {
+  parentId: number | null;
+  depth: number;
+  folders: FolderItem[];
+  currentFolderId: number | null;
+  onOpenFolder: (folderId: number | null) => void;
+}
+
+// Recursive folder tree; only folders that are not in trash are passed in
+function FolderTree({ parentId, depth, folders, currentFolderId, onOpenFolder }: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  const children = folders.filter(folder => folder.parent_id === parentId);
+  if (children.length === 0) return null;
 
-export default function Sidebar({ section, setSection }) {
-  const items = ['My Drive', 'Recent', 'Starred', 'Trash'];
+  return (
+    <List disablePadding>
+      {children.map(folder => {
+        const hasChildren = folders.some(f => f.parent_id === folder.id);
+        const isOpen = !!expanded[folder.id];
+        return (
+          <div key={folder.id}>
+            <ListItemButton selected={currentFolderId === folder.id}
+              sx={{ pl: 3 + depth * 2 }}
+              onClick={() => onOpenFolder(folder.id)}>
+              <ListItemText primary={`📂 ${folder.name}`} primaryTypographyProps={{ noWrap: true }} />
+              {hasChildren && (
+                <IconButton size="small" aria-label={isOpen ? 'Collapse folder' : 'Expand folder'}
+                  onClick={e => {
+                    e.stopPropagation();
+                    setExpanded(prev => ({ ...prev, [folder.id]: !isOpen }));
+                  }}>
+                  {isOpen ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+                </IconButton>
+              )}
+            </ListItemButton>
+            {hasChildren && (
+              <Collapse in={isOpen} timeout="auto" unmountOnExit>
+                <FolderTree parentId={folder.id} depth={depth + 1} folders={folders}
+                  currentFolderId={currentFolderId} onOpenFolder={onOpenFolder} />
+              </Collapse>
+            )}
+          </div>
+        );
+      })}
+    </List>
+  );
+}
+
+export default function Sidebar({
+  section, setSection, folders, currentFolderId, onOpenFolder, usage, tags, currentTagId, onOpenTag, onEditTag,
+}: SidebarProps) {
+  const items = ['My Drive', 'Shared with me', 'Recent', 'Starred', 'Trash', 'Activity'];
+  const activeFolders = folders.filter(folder => !folder.trashed);
   return (
     <List>
       {items.map(name => (
-        <ListItem button key={name} selected={section===name}
-          onClick={() => setSection(name)}>
+        <ListItemButton key={name} selected={section===name && (name !== 'My Drive' || currentFolderId === null)}
+          onClick={() => name === 'My Drive' ? onOpenFolder(null) : setSection(name)}>
           <ListItemText primary={name} />
-        </ListItem>
+        </ListItemButton>
+      ))}
+      <Divider sx={{ my: 1 }} />
+      <FolderTree parentId={null} depth={0} folders={activeFolders}
+        currentFolderId={section === 'My Drive' ? currentFolderId : null} onOpenFolder={onOpenFolder} />
+      <Divider sx={{ my: 1 }} />
+      <ListSubheader disableSticky>Tags</ListSubheader>
+      {tags.map(tag => (
+        <ListItemButton key={tag.id} selected={section === 'Tagged' && currentTagId === tag.id} onClick={() => onOpenTag(tag.id)}>
+          <span aria-hidden style={{ width: 10, height: 10, borderRadius: '50%', background: tag.color, marginRight: 12, flexShrink: 0 }} />
+          <ListItemText primary={tag.name} secondary={`${tag.file_count} file${tag.file_count === 1 ? '' : 's'}`}
+            primaryTypographyProps={{ noWrap: true }} />
+          <IconButton size="small" aria-label={`Edit tag ${tag.name}`}
+            onClick={e => {
+              e.stopPropagation();
+              onEditTag(tag);
+            }}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+        </ListItemButton>
       ))}
+      <ListItemButton onClick={() => onEditTag(null)}>
+        <ListItemText primary="+ New tag" />
+      </ListItemButton>
+      <Divider sx={{ my: 1 }} />
+      {/* Storage meter; opens the largest-files view */}
+      <ListItemButton selected={section === 'Storage'} onClick={() => setSection('Storage')}>
+        <ListItemText
+          primary="Storage"
+          secondary={usage && (
+            <>
+              {usage.quota !== null && (
+                <LinearProgress variant="determinate" value={Math.min(100, (usage.used / usage.quota) * 100)}
+                  color={usage.used >= usage.quota * 0.9 ? 'error' : 'primary'} sx={{ my: 0.5 }} />
+              )}
+              {formatFileSize(usage.used)}{usage.quota !== null ? ` of ${formatFileSize(usage.quota)} used` : ' used'}
+            </>
+          )}
+          secondaryTypographyProps={{ component: 'div' }}
+        />
+      </ListItemButton>
+      <ListItemButton selected={section === 'Access tokens'} onClick={() => setSection('Access tokens')}>
+        <ListItemText primary="Access tokens" secondary="For scripts and the REST API" />
+      </ListItemButton>
+      <ListItemButton selected={section === 'Webhooks'} onClick={() => setSection('Webhooks')}>
+        <ListItemText primary="Webhooks" secondary="Notify other services of file changes" />
+      </ListItemButton>
     </List>
   );
 }
@@ -0,0 +1,59 @@
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import LinearProgress from '@mui/material/LinearProgress';
+import Typography from '@mui/material/Typography';
+import { formatFileSize } from '../format';
+import type { StorageUsage } from '../types';
+
+const FAMILY_LABELS: Record<string, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  text: 'Text',
+  archive: 'Archives',
+  other: 'Other',
+};
+
+interface StorageOverviewProps {
+  usage: StorageUsage;
+  onOpenTrash: () => void;
+}
+
+// Quota bar plus a breakdown of what takes up the space, shown above the largest-files list
+export default function StorageOverview({ usage, onOpenTrash }: StorageOverviewProps) {
+  const percent = usage.quota ? Math.min(100, (usage.used / usage.quota) * 100) : 0;
+  const buckets = [
+    ...Object.entries(usage.families).map(([family, bucket]) => ({ label: FAMILY_LABELS[family] ?? family, bytes: bucket.bytes })),
+    { label: 'Older versions', bytes: usage.versions.bytes },
+    { label: 'Uploads in progress', bytes: usage.uploads.bytes },
+  ].filter(bucket => bucket.bytes > 0);
+
+  return (
+    <Box sx={{ mb: 3, p: 2, border: '1px solid #e0e0e0', borderRadius: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+        {formatFileSize(usage.used)} {usage.quota !== null ? `of ${formatFileSize(usage.quota)} used` : 'used'}
+      </Typography>
+      {usage.quota !== null && (
+        <LinearProgress variant="determinate" value={percent} color={percent >= 90 ? 'error' : 'primary'} sx={{ my: 1, height: 8, borderRadius: 4 }} />
+      )}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+        {buckets.map(bucket => (
+          <Chip key={bucket.label} label={`${bucket.label}: ${formatFileSize(bucket.bytes)}`} size="small" />
+        ))}
+      </Box>
+      {usage.trash.bytes > 0 && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Trash holds {formatFileSize(usage.trash.bytes)} in {usage.trash.files} {usage.trash.files === 1 ? 'file' : 'files'}.
+          </Typography>
+          <Button size="small" onClick={onOpenTrash}>Open Trash</Button>
+        </Box>
+      )}
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+        Largest files first. Delete or trash files you no longer need to free up space.
+      </Typography>
+    </Box>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import { api, apiErrorMessage } from '../api';
+import { TAG_COLORS } from '../tags';
+import type { Tag } from '../types';
+
+interface TagDialogProps {
+  open: boolean;
+  // The tag being edited, or null to create one
+  tag: Tag | null;
+  onClose: () => void;
+  // Called after the tag is created, changed or deleted
+  onSaved: () => void;
+}
+
+// Create, rename, recolour or delete a tag
+export default function TagDialog({ open, tag, onClose, onSaved }: TagDialogProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TAG_COLORS[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(tag?.name ?? '');
+    setColor(tag?.color ?? TAG_COLORS[0]);
+    setError(null);
+  }, [open, tag]);
+
+  const save = async () => {
+    try {
+      if (tag) {
+        await api.patch(`/tags/${tag.id}`, { name, color });
+      } else {
+        await api.post('/tags', { name, color });
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to save tag'));
+      console.error(err);
+    }
+  };
+
+  const remove = async () => {
+    if (!tag || !confirm(`Delete the tag "${tag.name}"? Files keep everything else.`)) return;
+    try {
+      await api.delete(`/tags/${tag.id}`);
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to delete tag'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{tag ? 'Edit tag' : 'New tag'}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Tag name"
+          fullWidth
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && name.trim()) void save(); }}
+          slotProps={{ htmlInput: { maxLength: 50 } }}
+        />
+        <div role="radiogroup" aria-label="Tag colour" style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+          {TAG_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              type="button"
+              role="radio"
+              aria-checked={swatch === color}
+              aria-label={swatch}
+              onClick={() => setColor(swatch)}
+              style={{
+                width: 28,
+                height: 28,
+                borderRadius: '50%',
+                cursor: 'pointer',
+                background: swatch,
+                border: swatch === color ? '3px solid #333' : '1px solid #ccc',
+              }}
+            />
+          ))}
+        </div>
+      </DialogContent>
+      <DialogActions>
+        {tag && <Button color="error" onClick={() => void remove()} sx={{ mr: 'auto' }}>Delete</Button>}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => void save()} variant="contained" disabled={!name.trim()}>Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import Checkbox from '@mui/material/Checkbox';
+import Divider from '@mui/material/Divider';
+import type { Tag } from '../types';
+
+interface TagMenuProps {
+  anchorEl: HTMLElement | null;
+  tags: Tag[];
+  // Whether the tag is on the file (or on every selected file)
+  isApplied: (tag: Tag) => boolean;
+  onToggle: (tag: Tag) => void;
+  onNewTag: () => void;
+  onClose: () => void;
+}
+
+// Checklist of the user's tags for one file or a selection
+export default function TagMenu({ anchorEl, tags, isApplied, onToggle, onNewTag, onClose }: TagMenuProps) {
+  return (
+    <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={onClose}>
+      {tags.map(tag => (
+        <MenuItem key={tag.id} dense onClick={() => onToggle(tag)}>
+          <ListItemIcon>
+            <Checkbox edge="start" size="small" checked={isApplied(tag)} tabIndex={-1} disableRipple
+              sx={{ color: tag.color, '&.Mui-checked': { color: tag.color } }} />
+          </ListItemIcon>
+          <ListItemText primary={tag.name} />
+        </MenuItem>
+      ))}
+      {tags.length > 0 && <Divider />}
+      <MenuItem dense onClick={() => { onClose(); onNewTag(); }}>New tag…</MenuItem>
+    </Menu>
+  );
+}
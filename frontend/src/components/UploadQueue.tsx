@@ -0,0 +1,76 @@
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import LinearProgress from '@mui/material/LinearProgress';
+import Typography from '@mui/material/Typography';
+import CloseIcon from '@mui/icons-material/Close';
+import ReplayIcon from '@mui/icons-material/Replay';
+import { formatFileSize } from '../format';
+import type { QueuedUpload } from '../useUploadQueue';
+
+interface UploadQueueProps {
+  uploads: QueuedUpload[];
+  onCancel: (id: number) => void;
+  onRetry: (id: number) => void;
+  onCancelAll: () => void;
+  onClearFinished: () => void;
+}
+
+const statusText = (upload: QueuedUpload) => {
+  switch (upload.status) {
+    case 'queued': return 'Waiting…';
+    case 'uploading': return `${formatFileSize(upload.loaded)} of ${formatFileSize(upload.file.size)}`;
+    case 'done': return 'Uploaded';
+    case 'cancelled': return 'Cancelled';
+    case 'failed': return upload.error;
+  }
+};
+
+// Upload queue panel in the drop area: one row per file with progress, cancel and retry
+export default function UploadQueue({ uploads, onCancel, onRetry, onCancelAll, onClearFinished }: UploadQueueProps) {
+  const pending = uploads.filter(upload => upload.status === 'queued' || upload.status === 'uploading').length;
+  const failed = uploads.filter(upload => upload.status === 'failed').length;
+
+  return (
+    <div className="upload-queue" aria-label="Upload queue" style={{ width: '100%', textAlign: 'left', marginBottom: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+        <Typography variant="subtitle2">
+          {pending > 0 ? `Uploading ${pending} file${pending === 1 ? '' : 's'}` : 'Uploads'}
+          {failed > 0 && <span style={{ color: '#d32f2f' }}> • {failed} failed</span>}
+        </Typography>
+        {pending > 0
+          ? <Button size="small" onClick={onCancelAll}>Cancel all</Button>
+          : <Button size="small" onClick={onClearFinished}>Clear</Button>}
+      </div>
+      <div style={{ maxHeight: '50vh', overflowY: 'auto' }}>
+        {uploads.map(upload => (
+          <div key={upload.id} style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 8 }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <p style={{ margin: 0, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                title={upload.relativePath || upload.file.name}>
+                {upload.vault && '🔒 '}{upload.file.name}
+              </p>
+              <LinearProgress
+                variant="determinate"
+                color={upload.status === 'failed' ? 'error' : upload.status === 'done' ? 'success' : 'primary'}
+                value={upload.file.size ? Math.min(100, (upload.loaded / upload.file.size) * 100) : 100}
+              />
+              <p style={{ margin: 0, fontSize: 11, color: upload.status === 'failed' ? '#d32f2f' : '#666' }}>
+                {statusText(upload)}
+              </p>
+            </div>
+            {(upload.status === 'queued' || upload.status === 'uploading') && (
+              <IconButton size="small" aria-label={`Cancel upload of ${upload.file.name}`} onClick={() => onCancel(upload.id)}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            )}
+            {(upload.status === 'failed' || upload.status === 'cancelled') && (
+              <IconButton size="small" aria-label={`Retry upload of ${upload.file.name}`} onClick={() => onRetry(upload.id)}>
+                <ReplayIcon fontSize="small" />
+              </IconButton>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import { apiErrorMessage } from '../api';
+import { createVault, fetchVault, unlockVault } from '../vault';
+import type { VaultSettings } from '../types';
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+interface VaultDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Called once the vault is unlocked (or has just been set up)
+  onUnlocked: (settings: VaultSettings) => void;
+}
+
+// Unlock the vault with its passphrase, or choose one the first time
+export default function VaultDialog({ open, onClose, onUnlocked }: VaultDialogProps) {
+  // undefined while loading; null when the user has no vault yet
+  const [settings, setSettings] = useState<VaultSettings | null | undefined>(undefined);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const settingUp = settings === null;
+
+  useEffect(() => {
+    if (!open) return;
+    setSettings(undefined);
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+    fetchVault()
+      .then(setSettings)
+      .catch(err => {
+        setError(apiErrorMessage(err, 'Failed to load vault'));
+        console.error(err);
+      });
+  }, [open]);
+
+  const canSubmit = !working && settings !== undefined && (settingUp
+    ? passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation
+    : passphrase.length > 0);
+
+  // Sets up a new vault when there is none, otherwise checks the passphrase against it
+  const unlock = async (current: VaultSettings | null) => {
+    if (current === null) return createVault(passphrase);
+    await unlockVault(passphrase, current);
+    return current;
+  };
+
+  const submit = () => {
+    if (!canSubmit || settings === undefined) return;
+    setWorking(true);
+    setError(null);
+    unlock(settings)
+      .then(onUnlocked)
+      .catch(err => {
+        setError(apiErrorMessage(err, err instanceof Error ? err.message : 'Failed to unlock vault'));
+        console.error(err);
+      })
+      .finally(() => setWorking(false));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{settingUp ? 'Set up your vault' : 'Unlock vault'}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+        {settingUp && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            Vault files are encrypted in your browser with this passphrase. It is never sent to the server,
+            so if you forget it, your vault files can't be recovered.
+          </Alert>
+        )}
+        <TextField
+          autoFocus
+          margin="dense"
+          type="password"
+          label="Vault passphrase"
+          fullWidth
+          value={passphrase}
+          disabled={settings === undefined}
+          onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') submit(); }}
+          helperText={settingUp ? `At least ${MIN_PASSPHRASE_LENGTH} characters` : undefined}
+        />
+        {settingUp && (
+          <TextField
+            margin="dense"
+            type="password"
+            label="Repeat passphrase"
+            fullWidth
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') submit(); }}
+            error={confirmation.length > 0 && confirmation !== passphrase}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={submit} variant="contained" disabled={!canSubmit}>
+          {working ? 'Unlocking…' : settingUp ? 'Create vault' : 'Unlock'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import { api, apiErrorMessage } from '../api';
+import { encryptFile, encryptionOf, fetchDecrypted, saveBlob } from '../vault';
+import type { FileItem, FileVersion, VaultSettings, VersionsResponse } from '../types';
+
+interface VersionHistoryProps {
+  file: FileItem;
+  // Called after the current version changes so the file list can refresh
+  onChanged: () => void;
+  // Runs the action once the vault is unlocked, asking for the passphrase if needed
+  requireVault: (action: (settings: VaultSettings) => void) => void;
+}
+
+// Version history panel shown in the preview dialog. New versions of a vault file are encrypted
+// before upload, and its versions are decrypted on download.
+export default function VersionHistory({ file, onChanged, requireVault }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canEdit = file.share_role !== 'viewer' && !file.trashed;
+  const inputId = `versionInput-${file.id}`;
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await api.get<VersionsResponse>(`/files/${file.id}/versions`);
+      setVersions(response.data.versions);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load versions'));
+      console.error(err);
+    }
+  }, [file.id]);
+
+  useEffect(() => {
+    setError(null);
+    void fetchVersions();
+  }, [fetchVersions]);
+
+  const uploadVersion = async (upload: File, vault?: VaultSettings) => {
+    setUploading(true);
+    setError(null);
+    const formData = new FormData();
+    try {
+      if (vault) {
+        const encrypted = await encryptFile(upload, vault);
+        formData.append('encryption', JSON.stringify(encrypted.encryption));
+        formData.append('file', encrypted.file);
+      } else {
+        formData.append('file', upload);
+      }
+      await api.post(`/files/${file.id}/versions`, formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+      await fetchVersions();
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to upload new version'));
+      console.error(err);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const downloadVersion = async (versionId: number) => {
+    try {
+      const response = await api.get<{ downloadUrl: string }>(`/files/${file.id}/versions/${versionId}/download`);
+      window.open(response.data.downloadUrl, '_blank');
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to download version'));
+      console.error(err);
+    }
+  };
+
+  const downloadVaultVersion = (version: FileVersion) => {
+    const encryption = encryptionOf(version);
+    if (!encryption) return;
+    requireVault(() => {
+      fetchDecrypted(file.id, encryption, { version: version.id, purpose: 'download' })
+        .then(blob => saveBlob(blob, file.name))
+        .catch(err => {
+          setError(apiErrorMessage(err, err instanceof Error ? err.message : 'Failed to download version'));
+          console.error(err);
+        });
+    });
+  };
+
+  const restoreVersion = async (versionId: number) => {
+    try {
+      await api.post(`/files/${file.id}/versions/${versionId}/restore`);
+      await fetchVersions();
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to restore version'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <div style={{ textAlign: 'left', marginTop: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>Version history</Typography>
+        {canEdit && (
+          <>
+            <input id={inputId} type="file" hidden
+              onChange={e => {
+                const upload = e.target.files?.[0];
+                e.target.value = '';
+                if (upload && encryptionOf(file)) requireVault(vault => void uploadVersion(upload, vault));
+                else if (upload) void uploadVersion(upload);
+              }} />
+            <Button size="small" variant="outlined" disabled={uploading}
+              onClick={() => document.getElementById(inputId)?.click()}>
+              {uploading ? 'Uploading…' : 'Upload new version'}
+            </Button>
+          </>
+        )}
+      </div>
+      {error && <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      <List dense>
+        {versions.map(version => (
+          <ListItem key={version.id} secondaryAction={
+            <>
+              <Button size="small" disabled={version.scan_status === 'pending' || version.scan_status === 'quarantined'}
+                onClick={() => version.encryption ? downloadVaultVersion(version) : void downloadVersion(version.id)}>
+                Download
+              </Button>
+              {canEdit && !version.is_current && version.scan_status !== 'quarantined' && (
+                <Button size="small" onClick={() => void restoreVersion(version.id)}>Restore</Button>
+              )}
+            </>
+          }>
+            <ListItemText
+              primary={<>
+                Version {version.version_number}
+                {version.is_current && <Chip label="Current" size="small" color="primary" sx={{ ml: 1 }} />}
+                {version.scan_status === 'pending' && <Chip label="Scanning…" size="small" sx={{ ml: 1 }} />}
+                {version.scan_status === 'quarantined' && (
+                  <Chip label="Quarantined" size="small" color="error" title={version.scan_signature ?? undefined} sx={{ ml: 1 }} />
+                )}
+                {(version.integrity === 'mismatch' || version.integrity === 'missing') && (
+                  <Chip label={version.integrity === 'missing' ? 'Missing from storage' : 'Corrupted'} size="small" color="error" sx={{ ml: 1 }} />
+                )}
+              </>}
+              secondary={[
+                new Date(version.created_at).toLocaleString(),
+                `${Math.round(version.size / 1024)} KB`,
+                version.uploaded_by_email,
+                version.sha256 && `SHA-256 ${version.sha256.slice(0, 12)}…`,
+              ].filter(Boolean).join(' • ')}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
+import Chip from '@mui/material/Chip';
+import Paper from '@mui/material/Paper';
+import Alert from '@mui/material/Alert';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { api, apiErrorMessage } from '../api';
+import { parseServerDate } from '../format';
+import type { PaginationInfo, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '../types';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'file.uploaded': 'Uploaded',
+  'file.trashed': 'Trashed',
+  'file.restored': 'Restored',
+  'file.deleted': 'Deleted forever',
+};
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, 'default' | 'success' | 'error'> = {
+  pending: 'default',
+  succeeded: 'success',
+  failed: 'error',
+};
+
+const describeDelivery = (delivery: WebhookDelivery) => [
+  parseServerDate(delivery.created_at).toLocaleString(),
+  `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`,
+  delivery.response_status !== null && `HTTP ${delivery.response_status}`,
+  delivery.duration_ms !== null && `${delivery.duration_ms} ms`,
+  delivery.last_error,
+  delivery.status === 'pending' && delivery.attempts > 0 && `retrying ${parseServerDate(delivery.next_attempt_at).toLocaleTimeString()}`,
+  delivery.redelivery_of !== null && `redelivery of #${delivery.redelivery_of}`,
+].filter(Boolean).join(' · ');
+
+// A webhook's delivery log, newest first, with redelivery
+function DeliveryLog({ webhookId }: { webhookId: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async (page: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<{ deliveries: WebhookDelivery[], pagination: PaginationInfo }>(
+        `/webhooks/${webhookId}/deliveries?page=${page}`,
+      );
+      setDeliveries(prev => page === 1 ? response.data.deliveries : [...prev, ...response.data.deliveries]);
+      setPagination(response.data.pagination);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load deliveries'));
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [webhookId]);
+
+  useEffect(() => {
+    void fetchDeliveries(1);
+  }, [fetchDeliveries]);
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await api.post(`/webhooks/${webhookId}/deliveries/${delivery.id}/redeliver`);
+      await fetchDeliveries(1);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to redeliver'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1, mb: 1 }}>
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>Deliveries</Typography>
+        <Button size="small" disabled={loading} onClick={() => void fetchDeliveries(1)}>Refresh</Button>
+      </div>
+      {error && <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      {!loading && deliveries.length === 0 && !error && (
+        <Typography color="text.secondary" sx={{ my: 1 }}>No deliveries yet</Typography>
+      )}
+      <List dense aria-label="Deliveries">
+        {deliveries.map(delivery => (
+          <ListItem key={delivery.id} disableGutters
+            secondaryAction={<Button size="small" onClick={() => void redeliver(delivery)}>Redeliver</Button>}>
+            <Chip label={delivery.status} size="small" color={STATUS_COLORS[delivery.status]} sx={{ mr: 1 }} />
+            <ListItemText primary={`#${delivery.id} ${delivery.event}`} secondary={describeDelivery(delivery)}
+              title={delivery.response_body ?? undefined} />
+          </ListItem>
+        ))}
+      </List>
+      {pagination?.hasNext && (
+        <Button size="small" disabled={loading} onClick={() => void fetchDeliveries(pagination.currentPage + 1)}>
+          {loading ? 'Loading…' : 'Load more'}
+        </Button>
+      )}
+    </Paper>
+  );
+}
+
+// Outgoing webhooks: subscribe URLs to file events, pause, test and inspect their deliveries
+export default function Webhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(Object.keys(EVENT_LABELS) as WebhookEvent[]);
+  const [description, setDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+  // The webhook whose secret was just set, which the server won't show again
+  const [revealed, setRevealed] = useState<Webhook | null>(null);
+  const [openLog, setOpenLog] = useState<number | null>(null);
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await api.get<{ webhooks: Webhook[] }>('/webhooks');
+      setWebhooks(response.data.webhooks);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to load webhooks'));
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    void fetchWebhooks();
+  }, []);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+
+  const createWebhook = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await api.post<Webhook>('/webhooks', { url: url.trim(), events, description: description.trim() || null });
+      setRevealed(response.data);
+      setUrl('');
+      setDescription('');
+      await fetchWebhooks();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to create webhook'));
+      console.error(err);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateWebhook = async (webhook: Webhook, changes: { active?: boolean, rotate_secret?: boolean }) => {
+    try {
+      const response = await api.patch<Webhook>(`/webhooks/${webhook.id}`, changes);
+      if (response.data.secret) setRevealed(response.data);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to update webhook'));
+      console.error(err);
+    }
+  };
+
+  const pingWebhook = async (webhook: Webhook) => {
+    try {
+      await api.post(`/webhooks/${webhook.id}/ping`);
+      setOpenLog(null);
+      // Remount the log so it shows the ping
+      setTimeout(() => setOpenLog(webhook.id));
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to ping webhook'));
+      console.error(err);
+    }
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log goes with it.`)) return;
+    try {
+      await api.delete(`/webhooks/${webhook.id}`);
+      if (revealed?.id === webhook.id) setRevealed(null);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to delete webhook'));
+      console.error(err);
+    }
+  };
+
+  const revealedSecret = revealed?.secret;
+
+  return (
+    <div style={{ textAlign: 'left', maxWidth: 820 }}>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>
+        Webhooks POST a JSON payload to your URL when your files are uploaded (new versions and copies included), trashed, restored or deleted.
+        Each request is signed: <code>X-Webhook-Signature</code> is <code>sha256=</code> followed by the
+        HMAC-SHA256 of <code>X-Webhook-Timestamp</code>, a dot and the body, keyed with the webhook's secret.
+        Failed deliveries are retried with increasing delays.
+      </Typography>
+      {error && <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+      {revealed && revealedSecret && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setRevealed(null)}
+          action={
+            <IconButton aria-label="Copy secret" title="Copy secret" color="inherit" size="small"
+              onClick={() => { navigator.clipboard.writeText(revealedSecret).catch(console.error); }}>
+              <ContentCopyIcon fontSize="small" />
+            </IconButton>
+          }>
+          Signing secret for {revealed.url}; copy it now, it won't be shown again.
+          <Typography component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 0.5 }}>{revealedSecret}</Typography>
+        </Alert>
+      )}
+
+      <div className="filter-bar" style={{ display: 'flex', gap: 16, alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: 8 }}>
+        <TextField label="Payload URL" variant="standard" placeholder="https://" value={url}
+          onChange={e => setUrl(e.target.value)} sx={{ minWidth: 320 }} />
+        <TextField label="Description (optional)" variant="standard" value={description}
+          onChange={e => setDescription(e.target.value)} sx={{ minWidth: 200 }} />
+        <Button variant="contained" disabled={creating || !url.trim() || events.length === 0} onClick={() => void createWebhook()}>
+          {creating ? 'Adding…' : 'Add webhook'}
+        </Button>
+      </div>
+      <div>
+        {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map(event => (
+          <FormControlLabel key={event} label={EVENT_LABELS[event]}
+            control={<Checkbox size="small" checked={events.includes(event)} onChange={() => toggleEvent(event)} />} />
+        ))}
+      </div>
+
+      {webhooks.length === 0 ? (
+        <Typography color="text.secondary" sx={{ my: 2 }}>No webhooks yet</Typography>
+      ) : (
+        <List aria-label="Webhooks">
+          {webhooks.map(webhook => (
+            <div key={webhook.id}>
+              <ListItem disableGutters
+                secondaryAction={
+                  <IconButton edge="end" aria-label={`Delete webhook for ${webhook.url}`} title="Delete"
+                    onClick={() => void deleteWebhook(webhook)}>
+                    <DeleteIcon />
+                  </IconButton>
+                }>
+                <Switch checked={webhook.active} onChange={e => void updateWebhook(webhook, { active: e.target.checked })}
+                  inputProps={{ 'aria-label': webhook.active ? 'Pause webhook' : 'Resume webhook' }} />
+                <ListItemText
+                  primary={webhook.description ? `${webhook.description} — ${webhook.url}` : webhook.url}
+                  primaryTypographyProps={{ noWrap: true }}
+                  secondary={[
+                    webhook.events.map(event => EVENT_LABELS[event]).join(', '),
+                    `secret …${webhook.secret_hint}`,
+                    webhook.last_status ? `last delivery ${webhook.last_status}` : 'no deliveries yet',
+                    !webhook.active && 'paused',
+                  ].filter(Boolean).join(' · ')}
+                />
+              </ListItem>
+              <div style={{ display: 'flex', gap: 8, marginBottom: 8, paddingLeft: 58 }}>
+                <Button size="small" onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}>
+                  {openLog === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                </Button>
+                <Button size="small" onClick={() => void pingWebhook(webhook)}>Send ping</Button>
+                <Button size="small" onClick={() => void updateWebhook(webhook, { rotate_secret: true })}>New secret</Button>
+              </div>
+              {openLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+            </div>
+          ))}
+        </List>
+      )}
+    </div>
+  );
+}
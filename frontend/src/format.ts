@@ -0,0 +1,28 @@
+// Human-readable byte counts, shared by the file list and the storage meter
+export const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1)
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+// SQLite timestamps ("2024-01-31 12:00:00") are UTC but carry no zone marker
+export const parseServerDate = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`)
+
+// "Deleted in N days" note for a trashed item, or null when trash is kept forever
+export const purgeNotice = (trashedAt: string | null | undefined, retentionDays: number | undefined) => {
+  if (!trashedAt || !retentionDays) return null
+  const msLeft = parseServerDate(trashedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000 - Date.now()
+  const daysLeft = Math.ceil(msLeft / (24 * 60 * 60 * 1000))
+  return daysLeft <= 1 ? 'Deleted within a day' : `Deleted in ${daysLeft} days`
+}
+
+// Emoji shown while a thumbnail loads, or for files that don't get one
+export const fileIcon = (contentType: string) => {
+  if (contentType.startsWith('image/')) return '🖼️'
+  if (contentType.startsWith('video/')) return '🎥'
+  if (contentType.startsWith('audio/')) return '🎵'
+  if (contentType.includes('pdf')) return '📄'
+  return '📁'
+}
@@ -1,6 +1,7 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import PublicShare from './components/PublicShare'
 import './index.css'
 
 // React 19 root API
@@ -9,9 +10,12 @@ if (!container) {
   throw new Error('Root element not found')
 }
 
+// Public share links open a standalone download page instead of the drive
+const shareToken = new URLSearchParams(window.location.search).get('share')
+
 const root = createRoot(container)
 root.render(
   <StrictMode>
-    <App />
+    {shareToken ? <PublicShare token={shareToken} /> : <App />}
   </StrictMode>
 )
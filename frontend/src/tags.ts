@@ -0,0 +1,2 @@
+// Colours offered when a tag is created or recoloured
+export const TAG_COLORS = ['#e53935', '#fb8c00', '#fdd835', '#43a047', '#00acc1', '#1e88e5', '#8e24aa', '#757575']
@@ -0,0 +1,356 @@
+// Shapes returned by the backend /api routes
+
+export interface FileItem {
+  id: number
+  name: string
+  size: number
+  content_type: string
+  created_at: string
+  parent_id?: number | null
+  starred?: boolean
+  trashed?: boolean
+  // Set once the background job has rendered a thumbnail for the current version
+  thumbnail_key?: string | null
+  trashed_at?: string | null
+  // SHA-256 of the current version; null until a resumable upload has been hashed
+  sha256?: string | null
+  description?: string | null
+  // Custom key/value pairs set by the owner or editors
+  metadata?: Record<string, string>
+  // The owner's tags; only on files listed from the user's own drive
+  tags?: Tag[]
+  // Present on files listed under "Shared with me"
+  share_role?: ShareRole
+  shared_by_email?: string | null
+  // Malware scan of the current version; only clean files can be downloaded or previewed
+  scan_status?: ScanStatus
+  // What the scanner matched, for quarantined files
+  scan_signature?: string | null
+  // JSON of the VaultEncryption of a file encrypted in the browser; null for normal files
+  encryption?: string | null
+}
+
+// 'skipped' for vault files, whose ciphertext the scanner can't read
+export type ScanStatus = 'pending' | 'clean' | 'quarantined' | 'skipped'
+
+// What a personal access token may do on the /api/files, /api/folders and /api/uploads routes
+export type TokenScope = 'read' | 'write' | 'delete'
+
+// GET /api/tokens: a personal access token, without its secret
+export interface AccessToken {
+  id: number
+  name: string
+  token_hint: string
+  scopes: TokenScope[]
+  expires_at: string | null
+  last_used_at: string | null
+  created_at: string
+}
+
+// POST /api/tokens: the new token, with the secret that is shown only this once
+export interface NewAccessToken extends AccessToken {
+  token: string
+}
+
+// File events that webhooks can subscribe to
+export type WebhookEvent = 'file.uploaded' | 'file.trashed' | 'file.restored' | 'file.deleted'
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+// GET /api/webhooks: a subscription with the status of its latest delivery. The signing secret
+// only comes back in full (as secret) when it is created or replaced.
+export interface Webhook {
+  id: number
+  url: string
+  events: WebhookEvent[]
+  description: string | null
+  active: boolean
+  secret_hint: string
+  secret?: string
+  last_status?: WebhookDeliveryStatus | null
+  last_delivery_at?: string | null
+  created_at: string
+}
+
+// GET /api/webhooks/:id/deliveries: one POST of an event (pending ones are waiting for a retry)
+export interface WebhookDelivery {
+  id: number
+  webhook_id: number
+  event: WebhookEvent | 'ping'
+  payload: { id: string, event: string, created_at: string, data: Record<string, unknown> }
+  status: WebhookDeliveryStatus
+  attempts: number
+  response_status: number | null
+  response_body: string | null
+  last_error: string | null
+  duration_ms: number | null
+  redelivery_of: number | null
+  next_attempt_at: string
+  created_at: string
+  updated_at: string
+}
+
+// GET/PUT /api/vault: how the vault passphrase becomes a key, and a value encrypted with that key
+// so a wrong passphrase can be told apart from a right one
+export interface VaultSettings {
+  kdf_salt: string
+  iterations: number
+  check_iv: string
+  check: string
+  created_at?: string
+}
+
+// How a vault file was encrypted (base64 for the binary fields); content_type and plaintext_size
+// describe the file before encryption
+export interface VaultEncryption {
+  v: 1
+  cipher: 'AES-256-GCM'
+  kdf: 'PBKDF2-SHA256'
+  kdf_salt: string
+  iterations: number
+  file_salt: string
+  nonce: string
+  chunk_size: number
+  plaintext_size: number
+  content_type: string
+}
+
+// GET/PATCH /api/files/:id; metadata is custom key/value pairs set by the owner or editors
+export interface FileDetails extends FileItem {
+  description: string | null
+  metadata: Record<string, string>
+  owner_id: string
+  access_role: 'owner' | ShareRole
+}
+
+// 409 from PATCH /api/files/:id and POST /api/files/:id/move when another file in the folder has the name
+export interface NameConflictError {
+  error: string
+  code: 'NAME_CONFLICT'
+  suggestion: string
+}
+
+export interface Tag {
+  id: number
+  name: string
+  // "#rrggbb"
+  color: string
+}
+
+// GET /api/tags; file_count leaves out files in trash
+export interface TagItem extends Tag {
+  file_count: number
+}
+
+export interface TagsResponse {
+  tags: TagItem[]
+}
+
+export type RecentAction = 'opened' | 'downloaded' | 'modified'
+
+// A file from GET /api/files/recent with when the user last used it
+export interface RecentFile extends FileItem {
+  opened_at: string | null
+  downloaded_at: string | null
+  modified_at: string | null
+  last_action: RecentAction
+  last_activity_at: string
+}
+
+export interface RecentResponse {
+  // Today, This week, Earlier; empty groups are left out
+  groups: { label: string, files: RecentFile[] }[]
+  pagination: PaginationInfo
+}
+
+export interface FolderItem {
+  id: number
+  name: string
+  parent_id: number | null
+  created_at: string
+  trashed?: boolean
+  trashed_at?: string | null
+}
+
+export interface PaginationInfo {
+  currentPage: number
+  totalItems: number
+  totalPages: number
+  itemsPerPage: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+export interface FilesResponse {
+  files: FileItem[]
+  pagination: PaginationInfo
+}
+
+export interface FoldersResponse {
+  folders: FolderItem[]
+}
+
+export interface FolderChildrenResponse {
+  folder: FolderItem | null
+  path: Pick<FolderItem, 'id' | 'name' | 'parent_id'>[]
+  folders: FolderItem[]
+  files: FileItem[]
+  pagination: PaginationInfo
+}
+
+export type ShareRole = 'viewer' | 'editor'
+
+export interface FileShare {
+  id: number
+  file_id: number
+  grantee_email: string
+  role: ShareRole
+  shared_by_email: string | null
+  created_at: string
+}
+
+export interface ShareLink {
+  id: number
+  file_id: number
+  token: string
+  url: string
+  expires_at: string | null
+  has_password: boolean
+  max_downloads: number | null
+  download_count: number
+  created_at: string
+}
+
+export interface SharesResponse {
+  shares: FileShare[]
+  links: ShareLink[]
+}
+
+export interface PublicShareInfo {
+  name: string
+  size: number
+  content_type: string
+  expires_at: string | null
+  requires_password: boolean
+}
+
+export interface FileVersion {
+  id: number
+  file_id: number
+  version_number: number
+  size: number
+  content_type: string
+  uploaded_by_email: string | null
+  created_at: string
+  is_current: boolean
+  sha256: string | null
+  // Result of the last storage verification of this version's content
+  integrity: 'ok' | 'mismatch' | 'missing' | null
+  scan_status: ScanStatus
+  scan_signature: string | null
+  encryption: string | null
+}
+
+export interface VersionsResponse {
+  versions: FileVersion[]
+}
+
+export interface UploadSession {
+  upload_id: string
+  name: string
+  size: number
+  content_type: string
+  parent_id: number | null
+  part_size: number
+  total_parts: number
+  uploaded_parts: number[]
+  uploaded_bytes: number
+  created_at: string
+  updated_at: string
+}
+
+// Piece of a content search snippet; match marks the highlighted search terms
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+export interface ContentSearchResult {
+  file: FileItem
+  snippet: SnippetSegment[]
+}
+
+export interface ContentSearchResponse {
+  results: ContentSearchResult[]
+  pagination: PaginationInfo
+}
+
+export interface UsageBucket {
+  bytes: number
+  files: number
+}
+
+// GET /api/usage; quota is null when the user has no limit
+export interface StorageUsage {
+  quota: number | null
+  used: number
+  families: Record<string, UsageBucket>
+  versions: { bytes: number }
+  // retentionDays is 0 when trash is kept until emptied
+  trash: UsageBucket & { retentionDays: number }
+  uploads: { bytes: number }
+}
+
+export type BatchAction = 'star' | 'unstar' | 'trash' | 'restore' | 'delete' | 'tag' | 'untag'
+
+// POST /api/files/batch; each id succeeds or fails on its own
+export interface BatchResponse {
+  action: BatchAction
+  results: { id: number, ok: boolean, error?: string }[]
+  succeeded: number
+  failed: number
+}
+
+// DELETE /api/trash; items that could not be deleted stay in trash and are counted in failed
+export interface EmptyTrashResponse {
+  message: string
+  deletedFiles: number
+  deletedFolders: number
+  failed: number
+}
+
+// POST /api/files/archive; downloadUrl is a short-lived link that needs no auth header
+export interface ArchiveLink {
+  downloadUrl: string
+  expiresAt: string
+}
+
+export type ActivityAction =
+  | 'upload' | 'download' | 'create' | 'rename' | 'update' | 'move' | 'star' | 'unstar' | 'trash' | 'restore' | 'delete'
+  | 'share' | 'unshare' | 'new_version' | 'restore_version' | 'tag' | 'untag' | 'quarantine'
+
+// One row of the audit log; actor_email is null for system jobs and anonymous link downloads
+export interface ActivityEntry {
+  id: number
+  actor_id: string | null
+  actor_email: string | null
+  action: ActivityAction
+  target_type: 'file' | 'folder'
+  target_id: number
+  target_name: string | null
+  owner_id: string | null
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+// GET /api/activity and GET /api/files/:id/activity, newest first
+export interface ActivityResponse {
+  activities: ActivityEntry[]
+  pagination: PaginationInfo
+}
+
+// Pushed over GET /api/events when a file the user can see changes. The file is the current row
+// (with tags for the owner, share_role for a grantee); deletes carry only the id.
+export type FileEvent =
+  | { type: 'file.created' | 'file.updated' | 'file.starred' | 'file.trashed' | 'file.restored', file: FileItem }
+  | { type: 'file.deleted', file: { id: number } }
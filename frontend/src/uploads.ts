@@ -0,0 +1,194 @@
+import axios from 'axios'
+import { api } from './api'
+import type { FileItem, UploadSession, VaultEncryption } from './types'
+
+// Files up to this size go up in a single request; larger ones use the resumable protocol
+export const SIMPLE_UPLOAD_LIMIT = 8 * 1024 * 1024
+
+const RESUME_KEY_PREFIX = 'drive-upload:'
+const PART_RETRIES = 3
+
+export interface UploadOptions {
+  // Path of the file inside a dropped or picked directory ("photos/2024/a.jpg"); the server
+  // recreates its folders under the parent
+  relativePath?: string
+  signal?: AbortSignal
+  // Set when the file is vault ciphertext (see vault.ts)
+  encryption?: VaultEncryption
+}
+
+export interface InterruptedUpload {
+  key: string
+  uploadId: string
+  name: string
+  size: number
+}
+
+// Identifies the same file picked again after a reload (File objects don't survive one)
+const resumeKey = (file: File, parentId: number | null, relativePath?: string) =>
+  `${RESUME_KEY_PREFIX}${parentId ?? 'root'}:${relativePath || file.name}:${file.size}:${file.lastModified}`
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Uploads that were started in an earlier page load and never completed
+export const listInterruptedUploads = (): InterruptedUpload[] =>
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(RESUME_KEY_PREFIX))
+    .flatMap(key => {
+      try {
+        const saved = JSON.parse(localStorage.getItem(key) ?? '') as Omit<InterruptedUpload, 'key'>
+        return [{ key, ...saved }]
+      } catch {
+        localStorage.removeItem(key)
+        return []
+      }
+    })
+
+// Abort an interrupted upload on the server and forget it locally
+export const discardInterruptedUpload = async (upload: InterruptedUpload) => {
+  localStorage.removeItem(upload.key)
+  await api.delete(`/uploads/${upload.uploadId}`).catch(() => undefined)
+}
+
+// Single-request upload for small files
+export const uploadSimple = async (
+  file: File,
+  parentId: number | null,
+  onProgress: (loaded: number) => void,
+  { relativePath, signal, encryption }: UploadOptions = {},
+) => {
+  const formData = new FormData()
+  // parent_id and relative_path must precede the file so multer has parsed them when the upload arrives
+  if (parentId !== null) formData.append('parent_id', String(parentId))
+  if (relativePath) formData.append('relative_path', relativePath)
+  if (encryption) formData.append('encryption', JSON.stringify(encryption))
+  formData.append('file', file)
+  const response = await api.post<FileItem>('/files', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: 0,
+    signal,
+    onUploadProgress: event => onProgress(event.loaded),
+  })
+  return response.data
+}
+
+// Chunked upload that resumes from the parts the server already has. Cancelling through the
+// signal aborts the upload on the server too, so it isn't offered for resuming later. Vault
+// uploads aren't remembered across reloads: encrypting the file again gives different ciphertext.
+export const uploadResumable = async (
+  file: File,
+  parentId: number | null,
+  onProgress: (loaded: number) => void,
+  { relativePath, signal, encryption }: UploadOptions = {},
+) => {
+  const key = resumeKey(file, parentId, relativePath)
+  let session: UploadSession | null = null
+
+  const saved = encryption ? null : localStorage.getItem(key)
+  if (saved) {
+    try {
+      const { uploadId } = JSON.parse(saved) as { uploadId: string }
+      session = (await api.get<UploadSession>(`/uploads/${uploadId}`)).data
+    } catch {
+      // Expired or aborted on the server; start over
+      localStorage.removeItem(key)
+    }
+  }
+  if (!session) {
+    session = (await api.post<UploadSession>('/uploads', {
+      name: file.name,
+      size: file.size,
+      content_type: file.type || 'application/octet-stream',
+      parent_id: parentId,
+      relative_path: relativePath,
+      encryption,
+    }, { signal })).data
+    if (!encryption) {
+      localStorage.setItem(key, JSON.stringify({ uploadId: session.upload_id, name: relativePath || file.name, size: file.size }))
+    }
+  }
+
+  const uploadedParts = new Set(session.uploaded_parts)
+  let loaded = session.uploaded_bytes
+  onProgress(loaded)
+
+  try {
+    for (let partNumber = 1; partNumber <= session.total_parts; partNumber++) {
+      if (uploadedParts.has(partNumber)) continue
+      const start = (partNumber - 1) * session.part_size
+      const chunk = file.slice(start, Math.min(start + session.part_size, file.size))
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await api.put(`/uploads/${session.upload_id}/parts/${partNumber}`, chunk, {
+            headers: { 'Content-Type': 'application/octet-stream' },
+            timeout: 0,
+            signal,
+            onUploadProgress: event => onProgress(loaded + event.loaded),
+          })
+          break
+        } catch (err) {
+          if (axios.isCancel(err) || attempt >= PART_RETRIES) throw err
+          await wait(1000 * 2 ** attempt)
+        }
+      }
+      loaded += chunk.size
+      onProgress(loaded)
+    }
+  } catch (err) {
+    if (axios.isCancel(err)) await discardInterruptedUpload({ key, uploadId: session.upload_id, name: file.name, size: file.size })
+    throw err
+  }
+
+  const response = await api.post<FileItem>(`/uploads/${session.upload_id}/complete`)
+  localStorage.removeItem(key)
+  return response.data
+}
+
+// A file to upload, with its path when it came from a directory
+export interface UploadItem {
+  file: File
+  relativePath?: string
+}
+
+// Files picked with <input multiple> or <input webkitdirectory>
+export const itemsFromFileList = (files: FileList): UploadItem[] =>
+  Array.from(files).map(file => ({ file, relativePath: file.webkitRelativePath || undefined }))
+
+const readEntryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+// readEntries returns at most ~100 entries per call, so keep reading until it comes back empty
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+const collectEntry = async (entry: FileSystemEntry): Promise<UploadItem[]> => {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry)
+    // fullPath starts with "/"; a file dropped on its own has no folders to recreate
+    const relativePath = entry.fullPath.replace(/^\//, '')
+    return [{ file, relativePath: relativePath.includes('/') ? relativePath : undefined }]
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry)
+    return (await Promise.all(children.map(collectEntry))).flat()
+  }
+  return []
+}
+
+// Everything in a drop, walking into dropped directories. The entries have to be taken from the
+// DataTransfer before the drop handler returns, which is why this isn't an async function.
+export const itemsFromDataTransfer = (dataTransfer: DataTransfer): Promise<UploadItem[]> => {
+  const fileItems = Array.from(dataTransfer.items).filter(item => item.kind === 'file')
+  const entries = fileItems
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+  if (entries.length < fileItems.length) return Promise.resolve(itemsFromFileList(dataTransfer.files))
+  return Promise.all(entries.map(collectEntry)).then(groups => groups.flat())
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react'
+import { api } from './api'
+
+// Loads an authenticated API resource (thumbnail, preview) as a blob: URL that <img> and
+// <iframe> can use, since they can't send the Authorization header themselves
+export const useApiObjectUrl = (path: string | null) => {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    setUrl(null)
+    setFailed(false)
+    if (!path) return
+    let objectUrl: string | null = null
+    let cancelled = false
+    api.get<Blob>(path, { responseType: 'blob', timeout: 0 })
+      .then(response => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(response.data)
+        setUrl(objectUrl)
+      })
+      .catch(() => { if (!cancelled) setFailed(true) })
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [path])
+
+  return { url, failed }
+}
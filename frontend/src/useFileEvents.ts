@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+import { auth } from './firebaseConfig'
+import type { FileEvent } from './types'
+
+// Wait before reconnecting after the stream drops; doubles on each failure up to the maximum
+const RECONNECT_DELAY_MS = 1000
+const MAX_RECONNECT_DELAY_MS = 30000
+
+// The data of each complete server-sent event in the buffer, and whatever partial event is left over
+const parseEvents = (buffer: string) => {
+  const blocks = buffer.split('\n\n')
+  const rest = blocks.pop() ?? ''
+  const data = blocks
+    .map(block => block.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trimStart()).join('\n'))
+    .filter(Boolean)
+  return { data, rest }
+}
+
+const FILE_EVENT_TYPES = ['file.created', 'file.updated', 'file.starred', 'file.trashed', 'file.restored', 'file.deleted']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// The event in one data line, or null when it isn't JSON or doesn't have a known type and a file with an id
+const parseFileEvent = (json: string): FileEvent | null => {
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (!isRecord(value) || typeof value.type !== 'string' || !FILE_EVENT_TYPES.includes(value.type)) return null
+  if (!isRecord(value.file) || typeof value.file.id !== 'number') return null
+  return value as FileEvent
+}
+
+// Listens to the file event stream (GET /api/events) while enabled and hands each event to onEvent.
+// EventSource can't send the Authorization header, so the stream is read with fetch. While
+// connected is false, changes made elsewhere go unseen and callers should refetch instead.
+export const useFileEvents = (enabled: boolean, onEvent: (event: FileEvent) => void) => {
+  const [connected, setConnected] = useState(false)
+  const handler = useRef(onEvent)
+  handler.current = onEvent
+
+  useEffect(() => {
+    if (!enabled) return
+    const controller = new AbortController()
+    let delay = RECONNECT_DELAY_MS
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    // Reads the stream until it ends; rejects when it can't connect or drops
+    const listen = async () => {
+      const token = await auth.currentUser?.getIdToken()
+      const response = await fetch('/api/events', {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        signal: controller.signal,
+      })
+      if (!response.ok || !response.body) throw new Error(`Event stream failed with status ${response.status}`)
+      setConnected(true)
+      delay = RECONNECT_DELAY_MS
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+      let buffer = ''
+      for (;;) {
+        const { value, done } = await reader.read()
+        if (done) break
+        const { data, rest } = parseEvents(buffer + value)
+        buffer = rest
+        for (const json of data) {
+          const event = parseFileEvent(json)
+          if (event) handler.current(event)
+          else console.error('Ignoring malformed file event', json)
+        }
+      }
+    }
+
+    const retry = () => {
+      setConnected(false)
+      if (controller.signal.aborted) return
+      timer = setTimeout(connect, delay)
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS)
+    }
+
+    const connect = () => {
+      listen().then(retry, (err: unknown) => {
+        if (!controller.signal.aborted) console.error(err)
+        retry()
+      })
+    }
+
+    connect()
+    return () => {
+      controller.abort()
+      clearTimeout(timer)
+    }
+  }, [enabled])
+
+  return { connected }
+}
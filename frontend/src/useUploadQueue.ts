@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import axios from 'axios'
+import { apiErrorMessage } from './api'
+import { SIMPLE_UPLOAD_LIMIT, uploadSimple, uploadResumable, type UploadItem } from './uploads'
+import { encryptFile } from './vault'
+import type { VaultSettings } from './types'
+
+// How many files upload at the same time; the rest wait their turn
+const MAX_CONCURRENT_UPLOADS = 3
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled'
+
+export interface QueuedUpload {
+  id: number
+  file: File
+  relativePath?: string
+  parentId: number | null
+  // Set for uploads into the vault; the file is encrypted when its upload starts
+  vault?: VaultSettings
+  status: UploadStatus
+  loaded: number
+  error?: string
+}
+
+let nextUploadId = 1
+
+// Upload queue with limited concurrency, per-file progress, cancel and retry.
+// onSettled runs once each time the queue drains, so the file list refreshes once per batch.
+export const useUploadQueue = (onSettled: () => void) => {
+  const [uploads, setUploads] = useState<QueuedUpload[]>([])
+  const controllers = useRef(new Map<number, AbortController>())
+  const wasBusy = useRef(false)
+  const settled = useRef(onSettled)
+  settled.current = onSettled
+
+  const update = useCallback((id: number, changes: Partial<QueuedUpload>) =>
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, ...changes } : upload)), [])
+
+  // Never rejects: a failed upload is marked failed
+  const start = useCallback(async (upload: QueuedUpload) => {
+    const controller = new AbortController()
+    controllers.current.set(upload.id, controller)
+    // Ciphertext is a little larger than the file; progress is shown against the file's own size
+    const onProgress = (loaded: number) => update(upload.id, { loaded: Math.min(loaded, upload.file.size) })
+    try {
+      const { file, encryption } = upload.vault ? await encryptFile(upload.file, upload.vault) : { file: upload.file }
+      const options = { relativePath: upload.relativePath, signal: controller.signal, encryption }
+      if (file.size <= SIMPLE_UPLOAD_LIMIT) {
+        await uploadSimple(file, upload.parentId, onProgress, options)
+      } else {
+        await uploadResumable(file, upload.parentId, onProgress, options)
+      }
+      update(upload.id, { status: 'done', loaded: upload.file.size })
+    } catch (err) {
+      if (axios.isCancel(err)) {
+        update(upload.id, { status: 'cancelled' })
+      } else {
+        update(upload.id, { status: 'failed', error: apiErrorMessage(err, 'Upload failed') })
+        console.error(err)
+      }
+    } finally {
+      controllers.current.delete(upload.id)
+    }
+  }, [update])
+
+  // Start queued uploads whenever a slot is free
+  useEffect(() => {
+    const active = uploads.filter(upload => upload.status === 'uploading').length
+    const next = uploads.filter(upload => upload.status === 'queued').slice(0, MAX_CONCURRENT_UPLOADS - active)
+    if (next.length > 0) {
+      const ids = new Set(next.map(upload => upload.id))
+      setUploads(prev => prev.map(upload => ids.has(upload.id) ? { ...upload, status: 'uploading' } : upload))
+      next.forEach(upload => void start(upload))
+    }
+
+    const busy = active > 0 || next.length > 0
+    if (wasBusy.current && !busy) settled.current()
+    wasBusy.current = busy
+  }, [uploads, start])
+
+  const enqueue = (items: UploadItem[], parentId: number | null, vault?: VaultSettings) => {
+    const queued = items.map(({ file, relativePath }): QueuedUpload => ({
+      id: nextUploadId++, file, relativePath, parentId, vault, status: 'queued', loaded: 0,
+    }))
+    setUploads(prev => [...prev, ...queued])
+  }
+
+  const cancel = (id: number) => {
+    const controller = controllers.current.get(id)
+    if (controller) controller.abort()
+    else update(id, { status: 'cancelled' })
+  }
+
+  const retry = (id: number) => update(id, { status: 'queued', loaded: 0, error: undefined })
+
+  const clearFinished = () => setUploads(prev => prev.filter(upload => upload.status !== 'done' && upload.status !== 'cancelled'))
+
+  const cancelAll = () => uploads.forEach(upload => {
+    if (upload.status === 'queued' || upload.status === 'uploading') cancel(upload.id)
+  })
+
+  const uploading = uploads.some(upload => upload.status === 'queued' || upload.status === 'uploading')
+
+  return { uploads, uploading, enqueue, cancel, retry, clearFinished, cancelAll }
+}
@@ -0,0 +1,177 @@
+import { api } from './api'
+import type { VaultEncryption, VaultSettings } from './types'
+
+// Vault files are encrypted here before upload and decrypted here after download; the server
+// only ever sees ciphertext. The passphrase is stretched with PBKDF2 into a master key, and HKDF
+// with a random per-file salt derives each file's AES-256-GCM key from it. Files are encrypted in
+// 1 MB chunks so large ones never need one huge encrypt call. The passphrase is kept in memory
+// only, until the vault is locked or the page is closed.
+
+const PBKDF2_ITERATIONS = 600000
+const CHUNK_SIZE = 1024 * 1024
+const TAG_BYTES = 16
+const CHECK_TEXT = 'drive-vault-check'
+const encoder = new TextEncoder()
+
+let passphrase: string | null = null
+// PBKDF2 is slow on purpose, so each salt's master key is derived once per unlock
+const masterKeys = new Map<string, Promise<CryptoKey>>()
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0))
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length))
+
+const chunkCount = (plaintextSize: number, chunkSize: number) => Math.max(1, Math.ceil(plaintextSize / chunkSize))
+
+const masterKey = (kdfSalt: string, iterations: number) => {
+  if (passphrase === null) throw new Error('The vault is locked')
+  const cacheKey = `${kdfSalt}:${iterations}`
+  let key = masterKeys.get(cacheKey)
+  if (!key) {
+    const secret = passphrase
+    key = (async () => {
+      const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits'])
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(kdfSalt), iterations }, material, 256,
+      )
+      return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey'])
+    })()
+    masterKeys.set(cacheKey, key)
+  }
+  return key
+}
+
+const deriveAesKey = async (kdfSalt: string, iterations: number, salt: Uint8Array, info: string) =>
+  crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(info) },
+    await masterKey(kdfSalt, iterations),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+
+const fileKey = (encryption: VaultEncryption) =>
+  deriveAesKey(encryption.kdf_salt, encryption.iterations, fromBase64(encryption.file_salt), 'vault-file-v1')
+
+const checkKey = (settings: VaultSettings) =>
+  deriveAesKey(settings.kdf_salt, settings.iterations, new Uint8Array(0), 'vault-check-v1')
+
+// Each chunk's IV is the file's nonce followed by the chunk index, and the additional data marks
+// the last chunk, so chunks can't be reordered and a truncated file fails to decrypt
+const chunkParams = (encryption: VaultEncryption, index: number, last: boolean): AesGcmParams => {
+  const iv = new Uint8Array(12)
+  iv.set(fromBase64(encryption.nonce))
+  new DataView(iv.buffer).setUint32(8, index)
+  return { name: 'AES-GCM', iv, additionalData: new Uint8Array([last ? 1 : 0]) }
+}
+
+export const isVaultUnlocked = () => passphrase !== null
+
+export const lockVault = () => {
+  passphrase = null
+  masterKeys.clear()
+}
+
+// The user's vault settings, or null when they haven't set up a vault yet
+export const fetchVault = async () =>
+  (await api.get<{ vault: VaultSettings | null }>('/vault')).data.vault
+
+// Sets up the vault with a new passphrase and leaves it unlocked
+export const createVault = async (newPassphrase: string) => {
+  lockVault()
+  passphrase = newPassphrase
+  try {
+    const draft: VaultSettings = { kdf_salt: toBase64(randomBytes(16)), iterations: PBKDF2_ITERATIONS, check_iv: '', check: '' }
+    const iv = randomBytes(12)
+    const check = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await checkKey(draft), encoder.encode(CHECK_TEXT))
+    const settings = { ...draft, check_iv: toBase64(iv), check: toBase64(new Uint8Array(check)) }
+    return (await api.put<{ vault: VaultSettings }>('/vault', settings)).data.vault
+  } catch (err) {
+    lockVault()
+    throw err
+  }
+}
+
+// Unlocks the vault if the passphrase decrypts the check value; throws otherwise
+export const unlockVault = async (candidate: string, settings: VaultSettings) => {
+  lockVault()
+  passphrase = candidate
+  try {
+    const check = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(settings.check_iv) }, await checkKey(settings), fromBase64(settings.check),
+    )
+    if (new TextDecoder().decode(check) !== CHECK_TEXT) throw new Error('Unexpected check value')
+  } catch {
+    lockVault()
+    throw new Error('Wrong passphrase')
+  }
+}
+
+// The encryption parameters of a vault file or version, or null for normal content
+export const encryptionOf = (item: { encryption?: string | null }): VaultEncryption | null =>
+  item.encryption ? JSON.parse(item.encryption) as VaultEncryption : null
+
+// Encrypts a file for upload; the result keeps the name but has the ciphertext's size and type
+export const encryptFile = async (file: File, settings: VaultSettings) => {
+  const encryption: VaultEncryption = {
+    v: 1,
+    cipher: 'AES-256-GCM',
+    kdf: 'PBKDF2-SHA256',
+    kdf_salt: settings.kdf_salt,
+    iterations: settings.iterations,
+    file_salt: toBase64(randomBytes(16)),
+    nonce: toBase64(randomBytes(8)),
+    chunk_size: CHUNK_SIZE,
+    plaintext_size: file.size,
+    content_type: file.type || 'application/octet-stream',
+  }
+  const key = await fileKey(encryption)
+  const count = chunkCount(file.size, CHUNK_SIZE)
+  const chunks: ArrayBuffer[] = []
+  for (let index = 0; index < count; index++) {
+    const plaintext = await file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer()
+    chunks.push(await crypto.subtle.encrypt(chunkParams(encryption, index, index === count - 1), key, plaintext))
+  }
+  return { file: new File(chunks, file.name, { type: 'application/octet-stream' }), encryption }
+}
+
+// Decrypts downloaded ciphertext into a blob of the original type
+export const decryptBlob = async (ciphertext: Blob, encryption: VaultEncryption) => {
+  const key = await fileKey(encryption)
+  const count = chunkCount(encryption.plaintext_size, encryption.chunk_size)
+  const stride = encryption.chunk_size + TAG_BYTES
+  if (ciphertext.size !== encryption.plaintext_size + count * TAG_BYTES) throw new Error('The encrypted file is incomplete')
+  const chunks: ArrayBuffer[] = []
+  for (let index = 0; index < count; index++) {
+    const chunk = await ciphertext.slice(index * stride, (index + 1) * stride).arrayBuffer()
+    try {
+      chunks.push(await crypto.subtle.decrypt(chunkParams(encryption, index, index === count - 1), key, chunk))
+    } catch {
+      throw new Error('The file could not be decrypted: it was encrypted with another passphrase, or has been altered')
+    }
+  }
+  return new Blob(chunks, { type: encryption.content_type })
+}
+
+// Fetches a vault file (or one of its versions) through the preview route and decrypts it.
+// purpose 'download' records a download rather than an open.
+export const fetchDecrypted = async (
+  fileId: number,
+  encryption: VaultEncryption,
+  params: { version?: number, purpose?: 'download' } = {},
+) => {
+  const response = await api.get<Blob>(`/files/${fileId}/preview`, { params, responseType: 'blob', timeout: 0 })
+  return decryptBlob(response.data, encryption)
+}
+
+// Hands a decrypted blob to the browser as a download
+export const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+}